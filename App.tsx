@@ -1,16 +1,74 @@
 import React, { useState, useRef, useMemo, useCallback, useEffect } from 'react';
-import { Invoice, Item, InvoiceType, Currency } from './types';
+import { Invoice, Item, InvoiceType, StoredInvoice, ClientRecord, BusinessProfile, CatalogItem, TaxTreatment, NumberingSequence, RecurringSchedule, EInvoiceRegistration } from './types';
 import { InvoiceForm } from './components/InvoiceForm';
 import { InvoicePreview } from './components/InvoicePreview';
-import { DownloadIcon } from './components/icons';
+import { InvoiceLibrary } from './components/InvoiceLibrary';
+import { ClientDirectory } from './components/ClientDirectory';
+import { BusinessProfileSwitcher } from './components/BusinessProfileSwitcher';
+import { CatalogManager } from './components/CatalogManager';
+import { ValidationSummary } from './components/ValidationSummary';
+import { NumberingSettings } from './components/NumberingSettings';
+import { DocumentLinks } from './components/DocumentLinks';
+import { RecurringSchedules } from './components/RecurringSchedules';
+import { EInvoicePanel } from './components/EInvoicePanel';
+import { Gstr1Report } from './components/Gstr1Report';
+import { DownloadIcon, FolderIcon, DocumentAddIcon, RepeatIcon, UndoIcon, RedoIcon, ReportIcon } from './components/icons';
+import { createInvoiceId, listInvoices, getStoredInvoice, saveInvoice, duplicateInvoice, convertDocument, createNote, deleteInvoice, importInvoice } from './services/invoiceStore';
+import { createClientRecord, listClients, saveClient, deleteClient, findClientByName } from './services/clientStore';
+import { createBusinessProfile, listBusinessProfiles, saveBusinessProfile, deleteBusinessProfile, pickProfileFields } from './services/businessProfileStore';
+import { listCatalogItems, saveCatalogItem, deleteCatalogItem, importCatalogCsv } from './services/catalogStore';
+import { listSequences, saveSequence, reserveNextNumber } from './services/sequenceStore';
+import { listSchedules, saveSchedule, deleteSchedule, generateDueInvoices, approveGeneratedInvoice } from './services/scheduleStore';
+import { renderInvoicePdf } from './services/pdfRenderer';
+import { toFacturXPdf } from './services/facturX';
+import { InvoiceCalculations, calculateInvoice } from './utils/calculations';
+import { ValidationIssue, validateInvoice, getFieldIssues } from './utils/validation';
+import { createDefaultSequence, previewNextNumber } from './utils/numbering';
+import { DEFAULT_TEMPLATE_ID } from './utils/templates';
+import { BASE_CURRENCY } from './utils/currencies';
+import { formatCurrency } from './utils/format';
+import { parseRatesFile } from './utils/exchangeRates';
+import { isPayable } from './utils/payments';
+import { prefillNoteFromInvoice, toOriginalInvoiceLink } from './utils/notes';
+import { isAwaitingReview } from './utils/recurrence';
+import { applyPaymentTerms } from './utils/paymentTerms';
+import { buildEInvoice, getSignedQrDocumentNumber, parseIrpResponse, validateEInvoice } from './utils/eInvoice';
+import { parseUblXml, toUblXml, validateUbl } from './utils/ubl';
+import { validateCii } from './utils/cii';
+import { isEn16931Document } from './utils/en16931';
+import { EMPTY_HISTORY, EditHistory, GROUP_WINDOW_MS, getChangeKey, recordEdit, redoEdit, undoEdit } from './utils/history';
 
 // These would be available on the window object from the CDN scripts in index.html
-declare const jspdf: any;
-declare const html2canvas: any;
 declare const ColorThief: any;
 
 const DEFAULT_THEME_COLOR = '#10B981'; // Green
 
+// Button shown alongside a feedback message, e.g. to restore something just removed
+interface FeedbackAction {
+    label: string;
+    onClick: () => void;
+}
+const LEGACY_DRAFT_KEY = 'invoiceDraft';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+type PdfFormat = 'pdf' | 'factur-x';
+
+// The first blocking issue of a structured export, with a count of the rest
+const describeIssues = (issues: ValidationIssue[]): string => {
+    const more = issues.length > 1 ? ` (${issues.length - 1} more field${issues.length === 2 ? '' : 's'} to fill in)` : '';
+    return `${issues[0].message}${more}`;
+};
+
 const getInitialInvoiceState = (): Invoice => {
     return {
         logo: null,
@@ -18,17 +76,21 @@ const getInitialInvoiceState = (): Invoice => {
         invoiceNumber: '',
         date: '',
         dueDate: '',
-        business: { name: '', address: '', email: '' },
-        client: { name: '', address: '', email: '' },
+        paymentTerms: { code: 'manual', customDays: 0 },
+        lateFee: { type: 'none', value: 0 },
+        business: { name: '', address: '', email: '', gstin: '', state: '' },
+        client: { name: '', address: '', email: '', gstin: '', state: '' },
+        buyerReference: '',
         items: [
-            { id: 1, description: '', quantity: 0, price: 0, hsn: '' },
+            { id: 1, description: '', quantity: 0, price: 0, hsn: '', taxRate: 0 },
         ],
-        cgstRate: 0,
-        sgstRate: 0,
-        igstRate: 0,
-        taxRate: 0,
+        taxTreatment: 'intra-state',
+        placeOfSupply: '',
         discountRate: 0,
-        currency: 'INR',
+        roundingMode: 'per-line',
+        roundOff: false,
+        currency: BASE_CURRENCY,
+        exchangeRate: { rate: 0, date: '', source: 'manual' },
         bankDetails: {
             name: '',
             accountNumber: '',
@@ -38,46 +100,258 @@ const getInitialInvoiceState = (): Invoice => {
         },
         notes: '',
         themeColor: DEFAULT_THEME_COLOR,
+        templateId: DEFAULT_TEMPLATE_ID,
+        wordsLanguage: 'en',
+        issueStatus: 'Draft',
+        payments: [],
+        showPaidWatermark: false,
     };
 };
 
-const loadInitialState = (): Invoice => {
+// Invoice-wide rates used before GST moved onto each line item
+interface LegacyTaxRates {
+    cgstRate?: number;
+    sgstRate?: number;
+    igstRate?: number;
+    taxRate?: number;
+}
+
+const hydrateInvoice = (saved: Partial<Invoice> & LegacyTaxRates): Invoice => {
     const defaults = getInitialInvoiceState();
-    const savedDraft = localStorage.getItem('invoiceDraft');
-    if (savedDraft) {
+    const { cgstRate = 0, sgstRate = 0, igstRate = 0, taxRate = 0, ...rest } = saved;
+    const legacyRate = cgstRate + sgstRate + igstRate + taxRate;
+    const legacyTreatment: TaxTreatment = igstRate > 0 ? 'inter-state' : (taxRate > 0 && cgstRate + sgstRate === 0) ? 'non-gst' : 'intra-state';
+    return {
+        ...defaults,
+        ...rest,
+        business: { ...defaults.business, ...rest.business },
+        client: { ...defaults.client, ...rest.client },
+        taxTreatment: rest.taxTreatment ?? legacyTreatment,
+        items: (rest.items ?? defaults.items).map(item => ({ ...item, taxRate: item.taxRate ?? legacyRate })),
+        // Ensure themeColor has a fallback if it's missing from old drafts
+        themeColor: rest.themeColor || DEFAULT_THEME_COLOR,
+    };
+};
+
+const isPristine = (invoice: Invoice): boolean => JSON.stringify(invoice) === JSON.stringify(getInitialInvoiceState());
+
+const loadInitialState = async (): Promise<{ id: string; invoice: Invoice; isSaved: boolean }> => {
+    // Drafts from before the library existed are adopted as a new, not yet saved document
+    const legacyDraft = localStorage.getItem(LEGACY_DRAFT_KEY);
+    if (legacyDraft) {
         try {
-            const parsed = JSON.parse(savedDraft);
-            // Ensure themeColor has a fallback if it's missing from old drafts
-            return { ...defaults, ...parsed, themeColor: parsed.themeColor || DEFAULT_THEME_COLOR };
+            return { id: createInvoiceId(), invoice: hydrateInvoice(JSON.parse(legacyDraft)), isSaved: false };
         } catch (e) {
             console.error('Failed to parse saved draft, starting fresh.', e);
-            return defaults;
         }
     }
-    return defaults;
+    // Invoices generated by a schedule since the last visit wait in the review queue instead
+    const latest = (await listInvoices()).find(record => !isAwaitingReview(record));
+    if (latest) {
+        return { id: latest.id, invoice: hydrateInvoice(latest.invoice), isSaved: true };
+    }
+    return { id: createInvoiceId(), invoice: getInitialInvoiceState(), isSaved: false };
 };
 
 
 const App: React.FC = () => {
-    const [invoice, setInvoice] = useState<Invoice>(loadInitialState);
+    const [invoice, setInvoice] = useState<Invoice>(getInitialInvoiceState);
+    const [currentInvoiceId, setCurrentInvoiceId] = useState<string | null>(null);
+    const [savedInvoices, setSavedInvoices] = useState<StoredInvoice[]>([]);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const [clients, setClients] = useState<ClientRecord[]>([]);
+    const [isClientDirectoryOpen, setIsClientDirectoryOpen] = useState(false);
+    const [businessProfiles, setBusinessProfiles] = useState<BusinessProfile[]>([]);
+    const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+    const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+    const [sequences, setSequences] = useState<NumberingSequence[]>([]);
+    const [isNumberingOpen, setIsNumberingOpen] = useState(false);
+    const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+    const [isRecurringOpen, setIsRecurringOpen] = useState(false);
+    const [isEInvoiceOpen, setIsEInvoiceOpen] = useState(false);
+    const [isGstr1Open, setIsGstr1Open] = useState(false);
+    const [hasAttemptedExport, setHasAttemptedExport] = useState(false);
+    const [isValidationSummaryOpen, setIsValidationSummaryOpen] = useState(false);
     const [isHovering, setIsHovering] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
+    const [pdfFormat, setPdfFormat] = useState<PdfFormat>('pdf');
     const [isLogoUploading, setIsLogoUploading] = useState(false);
-    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+    const [feedback, setFeedback] = useState<{ message: string; type: 'success' | 'error'; action?: FeedbackAction } | null>(null);
+    const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
 
     const invoicePreviewRef = useRef<HTMLDivElement>(null);
     const autoSaveTimeoutRef = useRef<number | null>(null);
+    // Pending dismissal of the feedback message, replaced when a newer message is shown
+    const feedbackTimeoutRef = useRef<number | null>(null);
+    // Serialized copy of what is in the store for the current document, to skip redundant saves
+    const lastSavedRef = useRef<string | null>(null);
+    // The number being reserved for a new document, shared by saves that start before the first one finishes
+    const numberReservationRef = useRef<{ id: string; invoiceNumber: Promise<string> } | null>(null);
+    // Lets async saves check the document is still open before writing back into state
+    const currentInvoiceIdRef = useRef<string | null>(null);
+    currentInvoiceIdRef.current = currentInvoiceId;
+    // The invoice as of the last render, the field it last changed and when, to decide what counts as one undo step
+    const previousInvoiceRef = useRef<Invoice | null>(null);
+    const lastEditRef = useRef<{ key: string | null; at: number }>({ key: null, at: 0 });
+    // Set to an invoice put into state by undo, redo or opening a document, which isn't itself an edit
+    const untrackedInvoiceRef = useRef<Invoice | null>(null);
+
+    const calculations = useMemo(() => calculateInvoice(invoice), [invoice]);
+    const otherDocuments = useMemo(
+        () => savedInvoices.filter(record => record.id !== currentInvoiceId),
+        [savedInvoices, currentInvoiceId]
+    );
+    // Saved invoices a credit or debit note can be raised against
+    const originalInvoiceOptions = useMemo(
+        () => otherDocuments.filter(record => isPayable(record.invoice.invoiceType)),
+        [otherDocuments]
+    );
+    const awaitingReview = useMemo(() => savedInvoices.filter(isAwaitingReview), [savedInvoices]);
+    const validationIssues = useMemo(() => validateInvoice(invoice, { otherDocuments }), [invoice, otherDocuments]);
+    const nextNumberPreview = useMemo(() => {
+        const sequence = sequences.find(s => s.id === invoice.invoiceType) ?? createDefaultSequence(invoice.invoiceType, invoice.date);
+        return previewNextNumber(sequence, invoice.date);
+    }, [sequences, invoice.invoiceType, invoice.date]);
+    const fieldIssues = useMemo(() => getFieldIssues(validationIssues, hasAttemptedExport), [validationIssues, hasAttemptedExport]);
+
+    const refreshLibrary = useCallback(async () => {
+        try {
+            setSavedInvoices(await listInvoices());
+        } catch (error) {
+            console.error("Error loading saved invoices", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadInitialState()
+            .then(({ id, invoice: loaded, isSaved }) => {
+                lastSavedRef.current = isSaved ? JSON.stringify(loaded) : null;
+                untrackedInvoiceRef.current = loaded;
+                setInvoice(loaded);
+                setCurrentInvoiceId(id);
+            })
+            .catch(error => {
+                console.error("Error opening the invoice library", error);
+                showFeedback("Couldn't open saved invoices. Changes won't be kept.", 'error');
+            });
+        refreshLibrary();
+    }, [refreshLibrary]);
+
+    const refreshClients = useCallback(async () => {
+        try {
+            setClients(await listClients());
+        } catch (error) {
+            console.error("Error loading clients", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshClients();
+    }, [refreshClients]);
+
+    const refreshBusinessProfiles = useCallback(async () => {
+        try {
+            setBusinessProfiles(await listBusinessProfiles());
+        } catch (error) {
+            console.error("Error loading business profiles", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshBusinessProfiles();
+    }, [refreshBusinessProfiles]);
+
+    const refreshCatalog = useCallback(async () => {
+        try {
+            setCatalog(await listCatalogItems());
+        } catch (error) {
+            console.error("Error loading catalog", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshCatalog();
+    }, [refreshCatalog]);
+
+    const refreshSequences = useCallback(async () => {
+        try {
+            setSequences(await listSequences());
+        } catch (error) {
+            console.error("Error loading numbering sequences", error);
+        }
+    }, []);
+
+    useEffect(() => {
+        refreshSequences();
+    }, [refreshSequences]);
+
+    const refreshSchedules = useCallback(async () => {
+        try {
+            setSchedules(await listSchedules());
+        } catch (error) {
+            console.error("Error loading recurring schedules", error);
+        }
+    }, []);
+
+    // Generates the invoices schedules have fallen due for since the app was last open
+    const runDueSchedules = useCallback(async () => {
+        try {
+            const generated = await generateDueInvoices();
+            if (generated.length > 0) {
+                refreshLibrary();
+                refreshSequences();
+                showFeedback(`${generated.length} recurring invoice${generated.length === 1 ? '' : 's'} generated and waiting for review.`, 'success');
+            }
+        } catch (error) {
+            console.error("Error generating recurring invoices", error);
+            showFeedback("Couldn't generate this period's recurring invoices.", 'error');
+        }
+        refreshSchedules();
+    }, [refreshLibrary, refreshSequences, refreshSchedules]);
+
+    useEffect(() => {
+        runDueSchedules();
+    }, [runDueSchedules]);
+
+    const persistInvoice = useCallback(async (id: string, toSave: Invoice, toSaveCalculations: InvoiceCalculations) => {
+        if (JSON.stringify(toSave) === lastSavedRef.current || isPristine(toSave)) return;
+        // A new document without a number takes the next one from its sequence on first save
+        if (lastSavedRef.current === null && !toSave.invoiceNumber.trim()) {
+            if (numberReservationRef.current?.id !== id) {
+                numberReservationRef.current = { id, invoiceNumber: reserveNextNumber(toSave.invoiceType, toSave.date) };
+            }
+            const reservation = numberReservationRef.current;
+            let invoiceNumber: string;
+            try {
+                invoiceNumber = await reservation.invoiceNumber;
+            } catch (error) {
+                // Let the next save try again
+                if (numberReservationRef.current === reservation) numberReservationRef.current = null;
+                throw error;
+            }
+            toSave = { ...toSave, invoiceNumber };
+            if (currentInvoiceIdRef.current === id) {
+                setInvoice(prev => (prev.invoiceNumber.trim() ? prev : { ...prev, invoiceNumber }));
+            }
+            refreshSequences();
+        }
+        await saveInvoice(id, toSave, toSaveCalculations);
+        lastSavedRef.current = JSON.stringify(toSave);
+        localStorage.removeItem(LEGACY_DRAFT_KEY);
+        refreshLibrary();
+    }, [refreshLibrary, refreshSequences]);
 
     useEffect(() => {
+        if (!currentInvoiceId) return;
         if (autoSaveTimeoutRef.current) {
             clearTimeout(autoSaveTimeoutRef.current);
         }
-        autoSaveTimeoutRef.current = window.setTimeout(() => {
+        autoSaveTimeoutRef.current = window.setTimeout(async () => {
             try {
-                localStorage.setItem('invoiceDraft', JSON.stringify(invoice));
+                await persistInvoice(currentInvoiceId, invoice, calculations);
             } catch (error) {
-                console.error("Error auto-saving to localStorage", error);
-                showFeedback("Couldn't save draft. Storage may be full.", 'error');
+                console.error("Error auto-saving invoice", error);
+                showFeedback("Couldn't save invoice. Storage may be full.", 'error');
             }
         }, 1000); // Auto-save after 1 second of inactivity
 
@@ -86,10 +360,259 @@ const App: React.FC = () => {
                 clearTimeout(autoSaveTimeoutRef.current);
             }
         };
+    }, [invoice, currentInvoiceId, calculations, persistInvoice]);
+
+    // Saves pending edits right away before another document replaces the current one
+    const flushPendingSave = useCallback(async () => {
+        if (!currentInvoiceId) return;
+        if (autoSaveTimeoutRef.current) {
+            clearTimeout(autoSaveTimeoutRef.current);
+        }
+        try {
+            await persistInvoice(currentInvoiceId, invoice, calculations);
+        } catch (error) {
+            console.error("Error saving invoice", error);
+        }
+    }, [currentInvoiceId, invoice, calculations, persistInvoice]);
+
+    const openDocument = useCallback((id: string, toOpen: Invoice, isSaved: boolean) => {
+        lastSavedRef.current = isSaved ? JSON.stringify(toOpen) : null;
+        // Each document has its own history; edits made to the previous one can't be undone from here
+        untrackedInvoiceRef.current = toOpen;
+        setHistory(EMPTY_HISTORY);
+        setInvoice(toOpen);
+        setCurrentInvoiceId(id);
+        setHasAttemptedExport(false);
+    }, []);
+
+    useEffect(() => {
+        const previous = previousInvoiceRef.current;
+        previousInvoiceRef.current = invoice;
+        if (!previous || previous === invoice) return;
+        if (untrackedInvoiceRef.current === invoice) {
+            untrackedInvoiceRef.current = null;
+            lastEditRef.current = { key: null, at: 0 };
+            return;
+        }
+        const key = getChangeKey(previous, invoice);
+        const now = Date.now();
+        const isContinuation = key !== null && key === lastEditRef.current.key && now - lastEditRef.current.at < GROUP_WINDOW_MS;
+        lastEditRef.current = { key, at: now };
+        setHistory(prev => recordEdit(prev, previous, isContinuation));
     }, [invoice]);
 
+    const handleUndo = useCallback(() => {
+        const current = previousInvoiceRef.current;
+        const step = current && undoEdit(history, current);
+        if (!step) return;
+        untrackedInvoiceRef.current = step.invoice;
+        setHistory(step.history);
+        setInvoice(step.invoice);
+    }, [history]);
+
+    const handleRedo = useCallback(() => {
+        const current = previousInvoiceRef.current;
+        const step = current && redoEdit(history, current);
+        if (!step) return;
+        untrackedInvoiceRef.current = step.invoice;
+        setHistory(step.history);
+        setInvoice(step.invoice);
+    }, [history]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const key = event.key.toLowerCase();
+            const isRedo = (key === 'z' && event.shiftKey) || key === 'y';
+            if (key !== 'z' && !isRedo) return;
+            // Dialogs edit their own records, so their fields keep the browser's own undo
+            if (event.target instanceof Element && event.target.closest('[role="dialog"]')) return;
+            event.preventDefault();
+            if (isRedo) handleRedo();
+            else handleUndo();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [handleUndo, handleRedo]);
+
+    const handleNewInvoice = useCallback(async () => {
+        await flushPendingSave();
+        openDocument(createInvoiceId(), getInitialInvoiceState(), false);
+    }, [flushPendingSave, openDocument]);
+
+    const handleOpenInvoice = useCallback(async (record: StoredInvoice) => {
+        await flushPendingSave();
+        openDocument(record.id, hydrateInvoice(record.invoice), true);
+        setIsLibraryOpen(false);
+    }, [flushPendingSave, openDocument]);
+
+    const handleDuplicateInvoice = useCallback(async (record: StoredInvoice) => {
+        await flushPendingSave();
+        try {
+            const copy = await duplicateInvoice(record);
+            openDocument(copy.id, hydrateInvoice(copy.invoice), true);
+            setIsLibraryOpen(false);
+            refreshLibrary();
+            refreshSequences();
+            showFeedback(`Invoice duplicated as ${copy.invoice.invoiceNumber}.`, 'success');
+        } catch (error) {
+            console.error("Error duplicating invoice", error);
+            showFeedback("Couldn't duplicate the invoice.", 'error');
+        }
+    }, [flushPendingSave, openDocument, refreshLibrary, refreshSequences]);
+
+    const handleConvertDocument = useCallback(async (sourceId: string, invoiceType: InvoiceType) => {
+        await flushPendingSave();
+        try {
+            const source = await getStoredInvoice(sourceId);
+            if (!source) {
+                showFeedback('Add some details to the document before converting it.', 'error');
+                return;
+            }
+            const converted = await convertDocument(source, invoiceType);
+            openDocument(converted.id, hydrateInvoice(converted.invoice), true);
+            setIsLibraryOpen(false);
+            refreshLibrary();
+            refreshSequences();
+            showFeedback(`${source.invoice.invoiceType} converted to ${invoiceType} ${converted.invoice.invoiceNumber}.`, 'success');
+        } catch (error) {
+            console.error("Error converting document", error);
+            showFeedback("Couldn't convert the document.", 'error');
+        }
+    }, [flushPendingSave, openDocument, refreshLibrary, refreshSequences]);
+
+    const handleIssueNote = useCallback(async (originalId: string, noteType: InvoiceType) => {
+        await flushPendingSave();
+        try {
+            const original = await getStoredInvoice(originalId);
+            if (!original) {
+                showFeedback('Add some details to the invoice before issuing a note against it.', 'error');
+                return;
+            }
+            const note = await createNote(original, noteType);
+            openDocument(note.id, hydrateInvoice(note.invoice), true);
+            setIsLibraryOpen(false);
+            refreshLibrary();
+            refreshSequences();
+            showFeedback(`${noteType} ${note.invoice.invoiceNumber} created. Edit the lines down to what is being adjusted.`, 'success');
+        } catch (error) {
+            console.error("Error creating note", error);
+            showFeedback(`Couldn't create the ${noteType.toLowerCase()}.`, 'error');
+        }
+    }, [flushPendingSave, openDocument, refreshLibrary, refreshSequences]);
+
+    // Picking the original on a blank note fills it in; a note that already has lines only gets the reference
+    const handleSelectOriginalInvoice = useCallback((id: string) => {
+        const original = savedInvoices.find(record => record.id === id);
+        setInvoice(prev => {
+            if (!original) return { ...prev, originalInvoice: undefined };
+            const isBlank = prev.items.every(item => !item.description && !item.price);
+            return isBlank ? prefillNoteFromInvoice(prev, original) : { ...prev, originalInvoice: toOriginalInvoiceLink(original) };
+        });
+    }, [savedInvoices]);
+
+    const handleOpenLinkedDocument = useCallback(async (id: string) => {
+        try {
+            const record = await getStoredInvoice(id);
+            if (!record) {
+                showFeedback('The linked document has been deleted.', 'error');
+                return;
+            }
+            await handleOpenInvoice(record);
+        } catch (error) {
+            console.error("Error opening linked document", error);
+            showFeedback("Couldn't open the linked document.", 'error');
+        }
+    }, [handleOpenInvoice]);
+
+    const handleDeleteInvoice = useCallback(async (record: StoredInvoice) => {
+        // Deleting drops the link from the other side, so an open counterpart is saved first and reloaded after
+        const isLinkedToCurrent = record.id !== currentInvoiceId
+            && [invoice.convertedFrom, invoice.originalInvoice, ...(invoice.convertedTo ?? []), ...(invoice.adjustments ?? [])].some(link => link?.id === record.id);
+        try {
+            if (isLinkedToCurrent) await flushPendingSave();
+            await deleteInvoice(record.id);
+            if (record.id === currentInvoiceId) {
+                openDocument(createInvoiceId(), getInitialInvoiceState(), false);
+            } else if (isLinkedToCurrent && currentInvoiceId) {
+                const current = await getStoredInvoice(currentInvoiceId);
+                if (current) openDocument(current.id, hydrateInvoice(current.invoice), true);
+            }
+            refreshLibrary();
+        } catch (error) {
+            console.error("Error deleting invoice", error);
+            showFeedback(`Couldn't delete the invoice. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+        }
+    }, [currentInvoiceId, invoice.convertedFrom, invoice.convertedTo, invoice.originalInvoice, invoice.adjustments, flushPendingSave, openDocument, refreshLibrary]);
+
+    const handleSaveSchedule = useCallback(async (schedule: RecurringSchedule) => {
+        try {
+            await saveSchedule(schedule);
+            showFeedback(`Schedule "${schedule.label}" saved.`, 'success');
+            // A schedule starting today or earlier generates its first invoice straight away
+            await runDueSchedules();
+        } catch (error) {
+            console.error("Error saving recurring schedule", error);
+            showFeedback("Couldn't save the schedule.", 'error');
+        }
+    }, [runDueSchedules]);
+
+    const handleDeleteSchedule = useCallback(async (schedule: RecurringSchedule) => {
+        try {
+            await deleteSchedule(schedule.id);
+            refreshSchedules();
+        } catch (error) {
+            console.error("Error deleting recurring schedule", error);
+            showFeedback("Couldn't delete the schedule.", 'error');
+        }
+    }, [refreshSchedules]);
+
+    const handleApproveGenerated = useCallback(async (id: string) => {
+        try {
+            // The open copy is saved first and reloaded after, so autosave doesn't put it back in the queue
+            if (id === currentInvoiceId) await flushPendingSave();
+            await approveGeneratedInvoice(id);
+            if (id === currentInvoiceId) {
+                const approved = await getStoredInvoice(id);
+                if (approved) openDocument(approved.id, hydrateInvoice(approved.invoice), true);
+            }
+            refreshLibrary();
+        } catch (error) {
+            console.error("Error approving recurring invoice", error);
+            showFeedback("Couldn't approve the invoice.", 'error');
+        }
+    }, [currentInvoiceId, flushPendingSave, openDocument, refreshLibrary]);
+
+    const handleAssignNextNumber = useCallback(async () => {
+        try {
+            const invoiceNumber = await reserveNextNumber(invoice.invoiceType, invoice.date);
+            setInvoice(prev => ({ ...prev, invoiceNumber }));
+            refreshSequences();
+        } catch (error) {
+            console.error("Error reserving invoice number", error);
+            showFeedback("Couldn't reserve the next number.", 'error');
+        }
+    }, [invoice.invoiceType, invoice.date, refreshSequences]);
+
+    const handleSaveSequences = useCallback(async (updated: NumberingSequence[]) => {
+        try {
+            await Promise.all(updated.map(saveSequence));
+            refreshSequences();
+            setIsNumberingOpen(false);
+            showFeedback('Numbering settings saved.', 'success');
+        } catch (error) {
+            console.error("Error saving numbering sequences", error);
+            showFeedback("Couldn't save the numbering settings.", 'error');
+        }
+    }, [refreshSequences]);
+
     const handleInvoiceChange = useCallback(<K extends keyof Invoice>(key: K, value: Invoice[K]) => {
-        setInvoice(prev => ({ ...prev, [key]: value }));
+        setInvoice(prev => {
+            const next = { ...prev, [key]: value };
+            return key === 'date' || key === 'paymentTerms' ? applyPaymentTerms(next) : next;
+        });
     }, []);
 
     const handleItemChange = useCallback((index: number, updatedItem: Item) => {
@@ -105,20 +628,265 @@ const App: React.FC = () => {
             quantity: 0,
             price: 0,
             hsn: '',
+            taxRate: 0,
         };
         handleInvoiceChange('items', [...invoice.items, newItem]);
     }, [invoice.items, handleInvoiceChange]);
 
     const handleRemoveItem = useCallback((id: number) => {
-        const filteredItems = invoice.items.filter(item => item.id !== id);
-        handleInvoiceChange('items', filteredItems);
-    }, [invoice.items, handleInvoiceChange]);
+        const index = invoice.items.findIndex(item => item.id === id);
+        const removed = invoice.items[index];
+        if (!removed) return;
+        handleInvoiceChange('items', invoice.items.filter(item => item.id !== id));
+        showFeedback(`Removed ${removed.description ? `"${removed.description}"` : `line ${index + 1}`}.`, 'success', {
+            label: 'Restore',
+            onClick: () => {
+                // The message can outlive the document it was shown for
+                if (currentInvoiceIdRef.current !== currentInvoiceId) return;
+                setInvoice(prev => ({ ...prev, items: [...prev.items.slice(0, index), removed, ...prev.items.slice(index)] }));
+                showFeedback('Line restored.', 'success');
+            },
+        });
+    }, [currentInvoiceId, invoice.items, handleInvoiceChange]);
+
+    const handleSelectClient = useCallback((record: ClientRecord) => {
+        handleInvoiceChange('client', { name: record.name, address: record.address, email: record.email, gstin: record.gstin, state: record.state });
+        handleInvoiceChange('currency', record.defaultCurrency);
+    }, [handleInvoiceChange]);
+
+    const handleSaveClientRecord = useCallback(async (record: ClientRecord) => {
+        try {
+            await saveClient(record);
+            refreshClients();
+            return true;
+        } catch (error) {
+            console.error("Error saving client", error);
+            showFeedback("Couldn't save the client.", 'error');
+            return false;
+        }
+    }, [refreshClients]);
+
+    // Saving from the form keeps the directory-only fields (phone, default currency) of an existing record
+    const handleSaveCurrentClient = useCallback(async () => {
+        const existing = findClientByName(clients, invoice.client.name);
+        const record = existing
+            ? { ...existing, ...invoice.client }
+            : createClientRecord(invoice.client, invoice.currency);
+        if (await handleSaveClientRecord(record)) {
+            showFeedback(existing ? 'Client updated in your directory.' : 'Client saved to your directory.', 'success');
+        }
+    }, [clients, invoice.client, invoice.currency, handleSaveClientRecord]);
+
+    const handleDeleteClientRecord = useCallback(async (record: ClientRecord) => {
+        try {
+            await deleteClient(record.id);
+            refreshClients();
+        } catch (error) {
+            console.error("Error deleting client", error);
+            showFeedback("Couldn't delete the client.", 'error');
+        }
+    }, [refreshClients]);
+
+    // Applies the sender identity in one update; client and line items are left alone
+    const handleSwitchBusinessProfile = useCallback((profile: BusinessProfile) => {
+        setInvoice(prev => ({
+            ...prev,
+            ...pickProfileFields(profile),
+            businessProfileId: profile.id,
+        }));
+    }, []);
+
+    const handleSaveBusinessProfile = useCallback(async () => {
+        const label = window.prompt('Name this business profile', invoice.business.name)?.trim();
+        if (!label) return;
+        try {
+            const profile = await saveBusinessProfile(createBusinessProfile(label, invoice));
+            handleInvoiceChange('businessProfileId', profile.id);
+            refreshBusinessProfiles();
+            showFeedback(`Saved business profile "${label}".`, 'success');
+        } catch (error) {
+            console.error("Error saving business profile", error);
+            showFeedback("Couldn't save the business profile.", 'error');
+        }
+    }, [invoice, handleInvoiceChange, refreshBusinessProfiles]);
+
+    const handleUpdateBusinessProfile = useCallback(async () => {
+        const profile = businessProfiles.find(p => p.id === invoice.businessProfileId);
+        if (!profile) return;
+        try {
+            await saveBusinessProfile({ ...profile, ...pickProfileFields(invoice) });
+            refreshBusinessProfiles();
+            showFeedback(`Updated business profile "${profile.label}".`, 'success');
+        } catch (error) {
+            console.error("Error updating business profile", error);
+            showFeedback("Couldn't update the business profile.", 'error');
+        }
+    }, [businessProfiles, invoice, refreshBusinessProfiles]);
+
+    const handleDeleteBusinessProfile = useCallback(async () => {
+        const profile = businessProfiles.find(p => p.id === invoice.businessProfileId);
+        if (!profile || !window.confirm(`Delete business profile "${profile.label}"?`)) return;
+        try {
+            await deleteBusinessProfile(profile.id);
+            handleInvoiceChange('businessProfileId', undefined);
+            refreshBusinessProfiles();
+        } catch (error) {
+            console.error("Error deleting business profile", error);
+            showFeedback("Couldn't delete the business profile.", 'error');
+        }
+    }, [businessProfiles, invoice.businessProfileId, handleInvoiceChange, refreshBusinessProfiles]);
+
+    const handleSaveCatalogItem = useCallback(async (item: CatalogItem) => {
+        try {
+            await saveCatalogItem(item);
+            refreshCatalog();
+        } catch (error) {
+            console.error("Error saving catalog entry", error);
+            showFeedback("Couldn't save the catalog entry.", 'error');
+        }
+    }, [refreshCatalog]);
+
+    const handleDeleteCatalogItem = useCallback(async (item: CatalogItem) => {
+        try {
+            await deleteCatalogItem(item.id);
+            refreshCatalog();
+        } catch (error) {
+            console.error("Error deleting catalog entry", error);
+            showFeedback("Couldn't delete the catalog entry.", 'error');
+        }
+    }, [refreshCatalog]);
+
+    const handleImportCatalog = useCallback(async (file: File) => {
+        try {
+            const { imported, skipped } = await importCatalogCsv(await file.text(), catalog);
+            refreshCatalog();
+            const skippedNote = skipped ? ` ${skipped} row${skipped === 1 ? '' : 's'} without a description were skipped.` : '';
+            showFeedback(`Imported ${imported} catalog entr${imported === 1 ? 'y' : 'ies'}.${skippedNote}`, 'success');
+        } catch (error) {
+            console.error("Error importing catalog", error);
+            showFeedback(`Couldn't import the catalog. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+        }
+    }, [catalog, refreshCatalog]);
+
+    const handleLoadRatesFile = useCallback(async (file: File) => {
+        try {
+            const table = parseRatesFile(file.name, await file.text());
+            const rate = table.rates[invoice.currency];
+            if (!rate) {
+                showFeedback(`${file.name} has no rate for ${invoice.currency}.`, 'error');
+                return;
+            }
+            // Four decimals matches how reference rates are published and keeps the field readable
+            handleInvoiceChange('exchangeRate', { rate: Number(rate.toFixed(4)), date: table.date || invoice.date, source: 'rates-file' });
+            showFeedback(`Loaded the ${invoice.currency} rate from ${file.name}.`, 'success');
+        } catch (error) {
+            console.error("Error loading exchange rates", error);
+            showFeedback(`Couldn't read the rates file. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+        }
+    }, [invoice.currency, invoice.date, handleInvoiceChange]);
 
-    const showFeedback = (message: string, type: 'success' | 'error') => {
-        setFeedback({ message, type });
-        setTimeout(() => setFeedback(null), 3000);
+    // Exports what is saved, so the uploaded document is the one kept in the library
+    const handleDownloadEInvoice = useCallback(async () => {
+        if (!currentInvoiceId) return;
+        try {
+            await flushPendingSave();
+            const record = await getStoredInvoice(currentInvoiceId);
+            if (!record) {
+                showFeedback('Save the invoice before exporting its e-invoice.', 'error');
+                return;
+            }
+            const saved = hydrateInvoice(record.invoice);
+            const payload = buildEInvoice(saved, calculateInvoice(saved));
+            if (validateEInvoice(saved, payload).some(issue => issue.severity === 'error')) {
+                showFeedback('Fix the fields listed before exporting the e-invoice.', 'error');
+                return;
+            }
+            // The portal's bulk upload takes a list of documents
+            downloadBlob(new Blob([JSON.stringify([payload], null, 2)], { type: 'application/json' }), `e-invoice-${saved.invoiceNumber}.json`);
+        } catch (error) {
+            console.error("Error exporting e-invoice", error);
+            showFeedback("Couldn't export the e-invoice.", 'error');
+        }
+    }, [currentInvoiceId, flushPendingSave]);
+
+    const handleAttachEInvoice = useCallback((registration: EInvoiceRegistration) => {
+        handleInvoiceChange('eInvoice', registration);
+        showFeedback('IRN attached. It now prints on the invoice.', 'success');
+    }, [handleInvoiceChange]);
+
+    const handleLoadIrpResponse = useCallback(async (file: File) => {
+        try {
+            const registration = parseIrpResponse(await file.text());
+            const documentNumber = getSignedQrDocumentNumber(registration.signedQrCode);
+            if (documentNumber && documentNumber.toUpperCase() !== invoice.invoiceNumber.trim().toUpperCase()) {
+                showFeedback(`${file.name} is for document ${documentNumber}, not ${invoice.invoiceNumber}.`, 'error');
+                return;
+            }
+            handleAttachEInvoice(registration);
+        } catch (error) {
+            console.error("Error loading IRP response", error);
+            showFeedback(`Couldn't read the IRP response. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+        }
+    }, [invoice.invoiceNumber, handleAttachEInvoice]);
+
+    const handleDownloadUbl = useCallback(() => {
+        const issues = validateUbl(invoice);
+        if (issues.length > 0) {
+            showFeedback(describeIssues(issues), 'error');
+            return;
+        }
+        const fileName = `${invoice.invoiceType.toLowerCase().replace(' ', '-')}-${invoice.invoiceNumber}.xml`;
+        downloadBlob(new Blob([toUblXml(invoice, calculations)], { type: 'application/xml' }), fileName);
+    }, [invoice, calculations]);
+
+    // An imported document is saved straight away as a new one, with this app's default look and a Draft status
+    const handleImportUbl = useCallback(async (file: File) => {
+        await flushPendingSave();
+        try {
+            const { invoice: parsed, totalMismatch } = parseUblXml(await file.text(), getInitialInvoiceState());
+            const imported = await importInvoice(parsed);
+            openDocument(imported.id, hydrateInvoice(imported.invoice), true);
+            setIsLibraryOpen(false);
+            refreshLibrary();
+            const label = `${imported.invoice.invoiceType} ${imported.invoice.invoiceNumber}`;
+            if (totalMismatch) {
+                const { currency } = imported.invoice;
+                showFeedback(`${label} imported from ${file.name}, but its total comes to ${formatCurrency(totalMismatch.recalculated, currency)} here against ${formatCurrency(totalMismatch.stated, currency)} in the file. Check the lines and rounding.`, 'error');
+            } else {
+                showFeedback(`${label} imported from ${file.name}.`, 'success');
+            }
+        } catch (error) {
+            console.error("Error importing UBL invoice", error);
+            showFeedback(`Couldn't import ${file.name}. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+        }
+    }, [flushPendingSave, openDocument, refreshLibrary]);
+
+    // The return is built from the library, so the open document is saved first to be included as edited
+    const handleOpenGstr1 = useCallback(async () => {
+        await flushPendingSave();
+        await refreshLibrary();
+        setIsGstr1Open(true);
+    }, [flushPendingSave, refreshLibrary]);
+
+    const handleDownloadGstr1 = useCallback((fileName: string, content: string, mimeType: string) => {
+        downloadBlob(new Blob([content], { type: mimeType }), fileName);
+    }, []);
+
+    const showFeedback = (message: string, type: 'success' | 'error', action?: FeedbackAction) => {
+        if (feedbackTimeoutRef.current) {
+            clearTimeout(feedbackTimeoutRef.current);
+        }
+        setFeedback({ message, type, action });
+        // Leave a little longer to reach an action button
+        feedbackTimeoutRef.current = window.setTimeout(() => setFeedback(null), action ? 6000 : 3000);
     };
 
+    useEffect(() => () => {
+        if (feedbackTimeoutRef.current) {
+            clearTimeout(feedbackTimeoutRef.current);
+        }
+    }, []);
+
     const handleLogoUpload = useCallback((file: File) => {
         setIsLogoUploading(true);
         const reader = new FileReader();
@@ -156,81 +924,63 @@ const App: React.FC = () => {
     }, [handleInvoiceChange]);
 
     const handleRemoveLogo = useCallback(() => {
+        const { logo, themeColor } = invoice;
         handleInvoiceChange('logo', null);
         handleInvoiceChange('themeColor', DEFAULT_THEME_COLOR);
-    }, [handleInvoiceChange]);
+        showFeedback('Logo removed.', 'success', {
+            label: 'Restore',
+            onClick: () => {
+                if (currentInvoiceIdRef.current !== currentInvoiceId) return;
+                setInvoice(prev => ({ ...prev, logo, themeColor }));
+                showFeedback('Logo restored.', 'success');
+            },
+        });
+    }, [currentInvoiceId, invoice, handleInvoiceChange]);
     
-    const calculations = useMemo(() => {
-        const subtotal = invoice.items.reduce((acc, item) => acc + item.quantity * item.price, 0);
-        const discountAmount = subtotal * (invoice.discountRate / 100);
-        const taxableAmount = subtotal - discountAmount;
-        const cgstAmount = taxableAmount * (invoice.cgstRate / 100);
-        const sgstAmount = taxableAmount * (invoice.sgstRate / 100);
-        const igstAmount = taxableAmount * (invoice.igstRate / 100);
-        const genericTaxAmount = taxableAmount * (invoice.taxRate / 100);
-        const taxAmount = cgstAmount + sgstAmount + igstAmount + genericTaxAmount;
-        const total = taxableAmount + taxAmount;
-
-        return { subtotal, discountAmount, taxAmount, total, cgstAmount, sgstAmount, igstAmount, genericTaxAmount };
-    }, [invoice.items, invoice.cgstRate, invoice.sgstRate, invoice.igstRate, invoice.taxRate, invoice.discountRate]);
-
     const generatePdfBlob = useCallback(async (): Promise<Blob | null> => {
-        if (!invoicePreviewRef.current) return null;
-
         try {
-            const { jsPDF } = jspdf;
-            const canvas = await html2canvas(invoicePreviewRef.current, { scale: 3 });
-            const imgData = canvas.toDataURL('image/png');
-            
-            const pdf = new jsPDF({
-                orientation: 'portrait',
-                unit: 'pt',
-                format: 'a4'
-            });
-
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-            
-            const canvasWidth = canvas.width;
-            const canvasHeight = canvas.height;
-            const canvasAspectRatio = canvasWidth / canvasHeight;
-            
-            let imgWidth = pdfWidth;
-            let imgHeight = pdfWidth / canvasAspectRatio;
-
-            if (imgHeight > pdfHeight) {
-                imgHeight = pdfHeight;
-                imgWidth = pdfHeight * canvasAspectRatio;
-            }
-
-            const x = (pdfWidth - imgWidth) / 2;
-            const y = 0;
-
-            pdf.addImage(imgData, 'PNG', x, y, imgWidth, imgHeight);
-            return pdf.output('blob');
+            return await renderInvoicePdf(invoice, calculations);
         } catch (error) {
             console.error("Failed to generate PDF blob:", error);
             showFeedback('Failed to generate PDF. Please try again.', 'error');
             return null;
         }
-    }, []);
+    }, [invoice, calculations]);
 
     const handleDownloadPdf = async () => {
-        if (invoice.invoiceNumber.trim() === '') {
-            showFeedback('Invoice number cannot be empty.', 'error');
+        setHasAttemptedExport(true);
+        if (validationIssues.length > 0) {
+            setIsValidationSummaryOpen(true);
             return;
         }
+        await downloadPdf();
+    };
+
+    // Factur-X only applies to document types that map to EN 16931; the rest always download as a plain PDF
+    const isFacturX = pdfFormat === 'factur-x' && isEn16931Document(invoice.invoiceType);
+
+    const downloadPdf = async () => {
+        setIsValidationSummaryOpen(false);
+        if (isFacturX) {
+            const issues = validateCii(invoice);
+            if (issues.length > 0) {
+                showFeedback(describeIssues(issues), 'error');
+                return;
+            }
+        }
         setIsDownloading(true);
-        const blob = await generatePdfBlob();
+        let blob = await generatePdfBlob();
+        if (blob && isFacturX) {
+            try {
+                blob = await toFacturXPdf(blob, invoice, calculations);
+            } catch (error) {
+                console.error("Error building Factur-X PDF", error);
+                showFeedback(`Couldn't build the Factur-X PDF. ${error instanceof Error ? error.message : ''}`.trim(), 'error');
+                blob = null;
+            }
+        }
         if (blob) {
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${invoice.invoiceType.toLowerCase().replace(' ', '-')}-${invoice.invoiceNumber}.pdf`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+            downloadBlob(blob, `${invoice.invoiceType.toLowerCase().replace(' ', '-')}-${invoice.invoiceNumber}.pdf`);
         }
         setIsDownloading(false);
     };
@@ -274,9 +1024,77 @@ const App: React.FC = () => {
                             <option value="Quotation">Quotation</option>
                             <option value="Proforma Invoice">Proforma Invoice</option>
                             <option value="Estimate">Estimate</option>
+                            <option value="Credit Note">Credit Note</option>
+                            <option value="Debit Note">Debit Note</option>
                         </select>
+                        <BusinessProfileSwitcher
+                            profiles={businessProfiles}
+                            selectedProfileId={invoice.businessProfileId}
+                            onSwitch={handleSwitchBusinessProfile}
+                            onSaveAsNew={handleSaveBusinessProfile}
+                            onUpdateSelected={handleUpdateBusinessProfile}
+                            onDeleteSelected={handleDeleteBusinessProfile}
+                        />
                     </div>
                     <div className="flex items-center space-x-2">
+                        <button
+                          onClick={handleUndo}
+                          disabled={history.past.length === 0}
+                          title="Undo (Ctrl+Z)"
+                          aria-label="Undo"
+                          className="p-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+                            <UndoIcon />
+                        </button>
+                        <button
+                          onClick={handleRedo}
+                          disabled={history.future.length === 0}
+                          title="Redo (Ctrl+Shift+Z)"
+                          aria-label="Redo"
+                          className="p-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed">
+                            <RedoIcon />
+                        </button>
+                        <button
+                          onClick={handleNewInvoice}
+                          className="flex items-center space-x-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition duration-200">
+                            <DocumentAddIcon />
+                            <span>New</span>
+                        </button>
+                        <button
+                          onClick={() => { refreshSchedules(); setIsRecurringOpen(true); }}
+                          className="flex items-center space-x-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition duration-200">
+                            <RepeatIcon />
+                            <span>Recurring</span>
+                            {awaitingReview.length > 0 && (
+                                <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-semibold">{awaitingReview.length}</span>
+                            )}
+                        </button>
+                        <button
+                          onClick={handleOpenGstr1}
+                          className="flex items-center space-x-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition duration-200">
+                            <ReportIcon />
+                            <span>GSTR-1</span>
+                        </button>
+                        <button
+                          onClick={() => { refreshLibrary(); setIsLibraryOpen(true); }}
+                          className="flex items-center space-x-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition duration-200">
+                            <FolderIcon />
+                            <span>Library</span>
+                        </button>
+                        {isEn16931Document(invoice.invoiceType) && (
+                            <>
+                                <label htmlFor="pdfFormatSelect" className="sr-only">PDF Format</label>
+                                <select
+                                    id="pdfFormatSelect"
+                                    value={pdfFormat}
+                                    onChange={(e) => setPdfFormat(e.target.value as PdfFormat)}
+                                    title="Factur-X embeds the invoice as EN 16931 XML in a PDF/A-3 file, for automatic booking"
+                                    className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-green-500 focus:border-green-500 block p-2 transition"
+                                >
+                                    <option value="pdf">PDF</option>
+                                    <option value="factur-x">Factur-X PDF</option>
+                                </select>
+                            </>
+                        )}
                         <button 
                           onClick={handleDownloadPdf}
                           disabled={isDownloading}
@@ -299,9 +1117,28 @@ const App: React.FC = () => {
                         role="alert"
                         >
                             {feedback.message}
+                            {feedback.action && (
+                                <button
+                                    type="button"
+                                    onClick={feedback.action.onClick}
+                                    className="ml-3 font-semibold underline hover:no-underline"
+                                >
+                                    {feedback.action.label}
+                                </button>
+                            )}
                         </div>
                     </div>
                 )}
+                <DocumentLinks
+                    invoice={invoice}
+                    savedInvoices={savedInvoices}
+                    onOpenLinked={handleOpenLinkedDocument}
+                    onConvert={(invoiceType) => currentInvoiceId && handleConvertDocument(currentInvoiceId, invoiceType)}
+                    onIssueNote={(noteType) => currentInvoiceId && handleIssueNote(currentInvoiceId, noteType)}
+                    onApproveReview={() => currentInvoiceId && handleApproveGenerated(currentInvoiceId)}
+                    onOpenEInvoice={() => setIsEInvoiceOpen(true)}
+                    onDownloadUbl={handleDownloadUbl}
+                />
                 <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                     <div className="lg:col-span-2 no-print">
                         <InvoiceForm 
@@ -313,6 +1150,20 @@ const App: React.FC = () => {
                             onLogoUpload={handleLogoUpload}
                             onRemoveLogo={handleRemoveLogo}
                             isLogoUploading={isLogoUploading}
+                            clients={clients}
+                            onSelectClient={handleSelectClient}
+                            onSaveClient={handleSaveCurrentClient}
+                            onManageClients={() => setIsClientDirectoryOpen(true)}
+                            catalog={catalog}
+                            onManageCatalog={() => setIsCatalogOpen(true)}
+                            fieldIssues={fieldIssues}
+                            nextNumberPreview={nextNumberPreview}
+                            onAssignNextNumber={handleAssignNextNumber}
+                            onManageNumbering={() => setIsNumberingOpen(true)}
+                            onLoadRatesFile={handleLoadRatesFile}
+                            total={calculations.total}
+                            originalInvoiceOptions={originalInvoiceOptions}
+                            onSelectOriginalInvoice={handleSelectOriginalInvoice}
                         />
                     </div>
                     <div className="lg:col-span-3">
@@ -326,6 +1177,92 @@ const App: React.FC = () => {
                     </div>
                 </div>
             </main>
+
+            {isLibraryOpen && (
+                <InvoiceLibrary
+                    invoices={savedInvoices}
+                    currentInvoiceId={currentInvoiceId}
+                    onOpen={handleOpenInvoice}
+                    onDuplicate={handleDuplicateInvoice}
+                    onConvert={(record, invoiceType) => handleConvertDocument(record.id, invoiceType)}
+                    onDelete={handleDeleteInvoice}
+                    onImportUbl={handleImportUbl}
+                    onClose={() => setIsLibraryOpen(false)}
+                />
+            )}
+
+            {isClientDirectoryOpen && (
+                <ClientDirectory
+                    clients={clients}
+                    onSave={handleSaveClientRecord}
+                    onDelete={handleDeleteClientRecord}
+                    onClose={() => setIsClientDirectoryOpen(false)}
+                />
+            )}
+
+            {isCatalogOpen && (
+                <CatalogManager
+                    items={catalog}
+                    currency={invoice.currency}
+                    onSave={handleSaveCatalogItem}
+                    onDelete={handleDeleteCatalogItem}
+                    onImportCsv={handleImportCatalog}
+                    onClose={() => setIsCatalogOpen(false)}
+                />
+            )}
+
+            {isNumberingOpen && (
+                <NumberingSettings
+                    sequences={sequences}
+                    documentDate={invoice.date}
+                    onSave={handleSaveSequences}
+                    onClose={() => setIsNumberingOpen(false)}
+                />
+            )}
+
+            {isRecurringOpen && (
+                <RecurringSchedules
+                    schedules={schedules}
+                    awaitingReview={awaitingReview}
+                    currentInvoice={invoice}
+                    canScheduleCurrent={isPayable(invoice.invoiceType) && !isPristine(invoice)}
+                    onSave={handleSaveSchedule}
+                    onDelete={handleDeleteSchedule}
+                    onOpenInvoice={(record) => { handleOpenInvoice(record); setIsRecurringOpen(false); }}
+                    onApprove={(record) => handleApproveGenerated(record.id)}
+                    onDiscard={handleDeleteInvoice}
+                    onClose={() => setIsRecurringOpen(false)}
+                />
+            )}
+
+            {isEInvoiceOpen && (
+                <EInvoicePanel
+                    invoice={invoice}
+                    calculations={calculations}
+                    onDownload={handleDownloadEInvoice}
+                    onLoadResponse={handleLoadIrpResponse}
+                    onAttach={handleAttachEInvoice}
+                    onRemove={() => handleInvoiceChange('eInvoice', undefined)}
+                    onClose={() => setIsEInvoiceOpen(false)}
+                />
+            )}
+
+            {isGstr1Open && (
+                <Gstr1Report
+                    invoices={savedInvoices}
+                    defaultGstin={invoice.business.gstin}
+                    onDownload={handleDownloadGstr1}
+                    onClose={() => setIsGstr1Open(false)}
+                />
+            )}
+
+            {isValidationSummaryOpen && (
+                <ValidationSummary
+                    issues={validationIssues}
+                    onProceed={downloadPdf}
+                    onClose={() => setIsValidationSummaryOpen(false)}
+                />
+            )}
         </div>
     );
 };
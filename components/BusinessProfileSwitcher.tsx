@@ -0,0 +1,60 @@
+import React from 'react';
+import { BusinessProfile } from '../types';
+
+interface BusinessProfileSwitcherProps {
+    profiles: BusinessProfile[];
+    selectedProfileId?: string;
+    onSwitch: (profile: BusinessProfile) => void;
+    onSaveAsNew: () => void;
+    onUpdateSelected: () => void;
+    onDeleteSelected: () => void;
+}
+
+export const BusinessProfileSwitcher: React.FC<BusinessProfileSwitcherProps> = ({
+    profiles,
+    selectedProfileId,
+    onSwitch,
+    onSaveAsNew,
+    onUpdateSelected,
+    onDeleteSelected,
+}) => {
+    const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const value = e.target.value;
+        if (value === '__new') {
+            onSaveAsNew();
+            return;
+        }
+        const profile = profiles.find(p => p.id === value);
+        if (profile) onSwitch(profile);
+    };
+
+    return (
+        <div className="flex items-center space-x-2">
+            <label htmlFor="businessProfileSelect" className="sr-only">Select Business Profile</label>
+            <select
+                id="businessProfileSelect"
+                value={selectedProfile ? selectedProfile.id : ''}
+                onChange={handleChange}
+                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-green-500 focus:border-green-500 block p-2 transition"
+            >
+                <option value="" disabled>{profiles.length ? 'Business profile' : 'No business profiles'}</option>
+                {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.label}</option>
+                ))}
+                <option value="__new">+ Save current details as profile…</option>
+            </select>
+            {selectedProfile && (
+                <>
+                    <button onClick={onUpdateSelected} className="text-sm text-green-600 font-semibold hover:text-green-800 transition" title={`Overwrite "${selectedProfile.label}" with the details on this invoice`}>
+                        Update
+                    </button>
+                    <button onClick={onDeleteSelected} className="text-sm text-red-500 font-semibold hover:text-red-700 transition">
+                        Delete
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { CatalogItem, Currency } from '../types';
+import { createCatalogItem } from '../services/catalogStore';
+import { formatCurrency } from '../utils/format';
+import { Modal } from './Modal';
+import { InputGroup, FormInput } from './FormControls';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface CatalogManagerProps {
+    items: CatalogItem[];
+    currency: Currency;
+    onSave: (item: CatalogItem) => void;
+    onDelete: (item: CatalogItem) => void;
+    onImportCsv: (file: File) => void;
+    onClose: () => void;
+}
+
+export const CatalogManager: React.FC<CatalogManagerProps> = ({ items, currency, onSave, onDelete, onImportCsv, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [draft, setDraft] = useState<CatalogItem | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const filteredItems = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return items.filter(item => !needle || item.description.toLowerCase().includes(needle) || item.hsn.toLowerCase().includes(needle));
+    }, [items, query]);
+
+    const handleDraftChange = <K extends keyof CatalogItem>(field: K, value: CatalogItem[K]) => {
+        setDraft(prev => prev && { ...prev, [field]: value });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || !draft.description.trim()) return;
+        onSave(draft);
+        setDraft(null);
+    };
+
+    const handleDelete = (item: CatalogItem) => {
+        if (window.confirm(`Remove "${item.description}" from the catalog?`)) {
+            onDelete(item);
+            if (draft?.id === item.id) setDraft(null);
+        }
+    };
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            onImportCsv(e.target.files[0]);
+        }
+        e.target.value = '';
+    };
+
+    return (
+        <Modal title="Product & Service Catalog" onClose={onClose} widthClassName="max-w-5xl">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+                <label htmlFor="catalogSearch" className="sr-only">Search catalog</label>
+                <input
+                    id="catalogSearch"
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by description or HSN/SAC"
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"
+                />
+                <button onClick={() => setDraft(createCatalogItem())} className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition">
+                    <PlusIcon />
+                    <span>Add Entry</span>
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition" title="Columns: description, price, hsn, unit, tax rate">
+                    Import CSV
+                </button>
+                <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFileSelect} className="hidden" aria-label="Import catalog from CSV" />
+            </div>
+
+            {draft && (
+                <form onSubmit={handleSave} className="mb-6 p-4 bg-gray-50 border rounded-lg">
+                    <InputGroup className="sm:grid-cols-6">
+                        <div className="sm:col-span-6">
+                            <FormInput label="Description" id="catalogDescription" value={draft.description} onChange={(e) => handleDraftChange('description', e.target.value)} required autoFocus />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <FormInput label="Unit Price" id="catalogPrice" type="text" inputMode="decimal" value={draft.price === 0 ? '' : draft.price} onChange={(e) => handleDraftChange('price', parseFloat(e.target.value) || 0)} />
+                        </div>
+                        <div className="sm:col-span-2">
+                            <FormInput label="HSN/SAC" id="catalogHsn" value={draft.hsn} onChange={(e) => handleDraftChange('hsn', e.target.value)} />
+                        </div>
+                        <FormInput label="Unit" id="catalogUnit" value={draft.unit} placeholder="pcs" onChange={(e) => handleDraftChange('unit', e.target.value)} />
+                        <FormInput label="Tax (%)" id="catalogTaxRate" type="text" inputMode="decimal" value={draft.taxRate} onChange={(e) => handleDraftChange('taxRate', parseFloat(e.target.value) || 0)} />
+                    </InputGroup>
+                    <div className="flex justify-end space-x-2 mt-4">
+                        <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-white transition">Cancel</button>
+                        <button type="submit" disabled={!draft.description.trim()} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed">Save Entry</button>
+                    </div>
+                </form>
+            )}
+
+            {filteredItems.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                    {items.length === 0 ? 'Your catalog is empty. Add entries or import a CSV file.' : 'No entries match your search.'}
+                </p>
+            ) : (
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                            <tr>
+                                <th scope="col" className="p-3">Description</th>
+                                <th scope="col" className="p-3">HSN/SAC</th>
+                                <th scope="col" className="p-3">Unit</th>
+                                <th scope="col" className="p-3 text-right">Price</th>
+                                <th scope="col" className="p-3 text-right">Tax</th>
+                                <th scope="col" className="p-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {filteredItems.map(item => (
+                                <tr key={item.id} className={draft?.id === item.id ? 'bg-green-50' : 'hover:bg-gray-50'}>
+                                    <td className="p-3 font-medium text-gray-900">{item.description}</td>
+                                    <td className="p-3 text-gray-700">{item.hsn}</td>
+                                    <td className="p-3 text-gray-700">{item.unit}</td>
+                                    <td className="p-3 text-right text-gray-900">{formatCurrency(item.price, currency)}</td>
+                                    <td className="p-3 text-right text-gray-700">{item.taxRate}%</td>
+                                    <td className="p-3">
+                                        <div className="flex items-center justify-end space-x-1">
+                                            <button onClick={() => setDraft(item)} className="px-3 py-1 text-green-700 font-semibold hover:bg-green-100 rounded-md transition">Edit</button>
+                                            <button onClick={() => handleDelete(item)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Delete ${item.description}`}>
+                                                <TrashIcon />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Modal>
+    );
+};
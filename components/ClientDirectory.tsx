@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { ClientRecord } from '../types';
+import { createClientRecord, matchesClientSearch } from '../services/clientStore';
+import { Modal } from './Modal';
+import { InputGroup, FormInput, FormSelect, FormTextarea, CurrencyOptions, StateOptions } from './FormControls';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface ClientDirectoryProps {
+    clients: ClientRecord[];
+    onSave: (record: ClientRecord) => void;
+    onDelete: (record: ClientRecord) => void;
+    onClose: () => void;
+}
+
+export const ClientDirectory: React.FC<ClientDirectoryProps> = ({ clients, onSave, onDelete, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [draft, setDraft] = useState<ClientRecord | null>(null);
+
+    const filteredClients = useMemo(
+        () => clients.filter(record => matchesClientSearch(record, query)),
+        [clients, query]
+    );
+
+    const handleDraftChange = <K extends keyof ClientRecord>(field: K, value: ClientRecord[K]) => {
+        setDraft(prev => prev && { ...prev, [field]: value });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || !draft.name.trim()) return;
+        onSave(draft);
+        setDraft(null);
+    };
+
+    const handleDelete = (record: ClientRecord) => {
+        if (window.confirm(`Remove ${record.name} from your clients?`)) {
+            onDelete(record);
+            if (draft?.id === record.id) setDraft(null);
+        }
+    };
+
+    return (
+        <Modal title="Clients" onClose={onClose} widthClassName="max-w-5xl">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+                <div className="md:col-span-2">
+                    <label htmlFor="directorySearch" className="sr-only">Search clients</label>
+                    <input
+                        id="directorySearch"
+                        type="search"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search clients"
+                        className="w-full px-3 py-2 mb-3 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"
+                    />
+                    <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+                        {filteredClients.length === 0 && <li className="py-4 text-sm text-center text-gray-500">No clients found.</li>}
+                        {filteredClients.map(record => (
+                            <li key={record.id} className={`flex items-center justify-between py-2 px-2 rounded-md ${draft?.id === record.id ? 'bg-green-50' : ''}`}>
+                                <button type="button" onClick={() => setDraft(record)} className="text-left flex-1">
+                                    <span className="block font-medium text-gray-900">{record.name}</span>
+                                    <span className="block text-xs text-gray-500">{record.email || record.phone}</span>
+                                </button>
+                                <button onClick={() => handleDelete(record)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Delete ${record.name}`}>
+                                    <TrashIcon />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button onClick={() => setDraft(createClientRecord({ name: '', address: '', email: '', gstin: '', state: '' }, 'INR'))} className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition pt-3">
+                        <PlusIcon />
+                        <span>New Client</span>
+                    </button>
+                </div>
+                <div className="md:col-span-3">
+                    {draft ? (
+                        <form onSubmit={handleSave}>
+                            <InputGroup className="sm:grid-cols-2">
+                                <div className="sm:col-span-2">
+                                    <FormInput label="Client Name" id="directoryName" value={draft.name} onChange={(e) => handleDraftChange('name', e.target.value)} required />
+                                </div>
+                                <div className="sm:col-span-2">
+                                    <FormTextarea label="Address" id="directoryAddress" value={draft.address} onChange={(e) => handleDraftChange('address', e.target.value)} />
+                                </div>
+                                <FormInput label="Email" id="directoryEmail" type="email" value={draft.email} onChange={(e) => handleDraftChange('email', e.target.value)} />
+                                <FormInput label="Phone" id="directoryPhone" type="tel" value={draft.phone} onChange={(e) => handleDraftChange('phone', e.target.value)} />
+                                <FormInput label="GSTIN" id="directoryGstin" value={draft.gstin} onChange={(e) => handleDraftChange('gstin', e.target.value.toUpperCase())} maxLength={15} />
+                                <FormSelect label="State" id="directoryState" value={draft.state} onChange={(e) => handleDraftChange('state', e.target.value)}>
+                                    <StateOptions />
+                                </FormSelect>
+                                <FormSelect label="Default Currency" id="directoryCurrency" value={draft.defaultCurrency} onChange={(e) => handleDraftChange('defaultCurrency', e.target.value as ClientRecord['defaultCurrency'])}>
+                                    <CurrencyOptions />
+                                </FormSelect>
+                            </InputGroup>
+                            <div className="flex justify-end space-x-2 mt-6">
+                                <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition">Cancel</button>
+                                <button type="submit" disabled={!draft.name.trim()} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed">Save Client</button>
+                            </div>
+                        </form>
+                    ) : (
+                        <p className="text-center text-gray-500 py-16">Select a client to edit, or add a new one.</p>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
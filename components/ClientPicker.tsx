@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClientRecord } from '../types';
+import { matchesClientSearch } from '../services/clientStore';
+
+interface ClientPickerProps {
+    clients: ClientRecord[];
+    currentClientName: string;
+    isCurrentClientSaved: boolean;
+    onSelect: (record: ClientRecord) => void;
+    onSaveCurrent: () => void;
+    onManage: () => void;
+}
+
+export const ClientPicker: React.FC<ClientPickerProps> = ({ clients, currentClientName, isCurrentClientSaved, onSelect, onSaveCurrent, onManage }) => {
+    const [query, setQuery] = useState('');
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const matches = useMemo(
+        () => clients.filter(record => matchesClientSearch(record, query)).slice(0, 8),
+        [clients, query]
+    );
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleSelect = (record: ClientRecord) => {
+        onSelect(record);
+        setQuery('');
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="mb-4 pb-4 border-b border-gray-100">
+            <div ref={containerRef} className="relative">
+                <label htmlFor="clientSearch" className="block text-sm font-medium text-gray-600 mb-1">Saved Clients</label>
+                <input
+                    id="clientSearch"
+                    type="search"
+                    role="combobox"
+                    aria-expanded={isOpen}
+                    aria-controls="clientSearchResults"
+                    autoComplete="off"
+                    value={query}
+                    placeholder={clients.length ? 'Search by name, email, GSTIN or phone' : 'No saved clients yet'}
+                    onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+                    onFocus={() => setIsOpen(true)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Escape') setIsOpen(false);
+                        if (e.key === 'Enter' && matches[0]) {
+                            e.preventDefault();
+                            handleSelect(matches[0]);
+                        }
+                    }}
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"
+                />
+                {isOpen && clients.length > 0 && (
+                    <ul id="clientSearchResults" role="listbox" className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-xl max-h-64 overflow-y-auto">
+                        {matches.length === 0 && <li className="px-3 py-2 text-sm text-gray-500">No clients match your search.</li>}
+                        {matches.map(record => (
+                            <li key={record.id} role="option" aria-selected={false}>
+                                <button type="button" onClick={() => handleSelect(record)} className="w-full text-left px-3 py-2 hover:bg-green-50 transition">
+                                    <span className="block font-medium text-gray-900">{record.name}</span>
+                                    <span className="block text-xs text-gray-500">{[record.email, record.gstin, record.defaultCurrency].filter(Boolean).join(' · ')}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <div className="flex items-center space-x-4 mt-2 text-sm">
+                <button
+                    type="button"
+                    onClick={onSaveCurrent}
+                    disabled={!currentClientName.trim()}
+                    className="text-green-600 font-semibold hover:text-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isCurrentClientSaved ? 'Update in directory' : 'Save to directory'}
+                </button>
+                <button type="button" onClick={onManage} className="text-gray-600 font-semibold hover:text-gray-800 transition">
+                    Manage clients
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { Invoice, InvoiceType, StoredInvoice } from '../types';
+import { describeLink, getConversionTargets, isConverted } from '../utils/conversion';
+import { getNoteTypes } from '../utils/notes';
+import { formatCurrency } from '../utils/format';
+import { isEInvoiceable } from '../utils/eInvoice';
+import { isEn16931Document } from '../utils/en16931';
+
+interface DocumentLinksProps {
+    invoice: Invoice;
+    savedInvoices: StoredInvoice[];
+    onOpenLinked: (id: string) => void;
+    onConvert: (invoiceType: InvoiceType) => void;
+    onIssueNote: (noteType: InvoiceType) => void;
+    onApproveReview: () => void;
+    onOpenEInvoice: () => void;
+    onDownloadUbl: () => void;
+}
+
+// Conversion and note actions, and links to related documents, for the document being edited
+export const DocumentLinks: React.FC<DocumentLinksProps> = ({ invoice, savedInvoices, onOpenLinked, onConvert, onIssueNote, onApproveReview, onOpenEInvoice, onDownloadUbl }) => {
+    const targets = getConversionTargets(invoice.invoiceType);
+    const noteTypes = getNoteTypes(invoice.invoiceType);
+    const canEInvoice = isEInvoiceable(invoice.invoiceType);
+    const canExportUbl = isEn16931Document(invoice.invoiceType);
+    const convertedTo = invoice.convertedTo ?? [];
+    const adjustments = invoice.adjustments ?? [];
+    const hasLinks = Boolean(invoice.convertedFrom || invoice.originalInvoice || invoice.recurrence) || convertedTo.length > 0 || adjustments.length > 0;
+    if (!hasLinks && targets.length === 0 && noteTypes.length === 0 && !canEInvoice && !canExportUbl) return null;
+
+    const linkButtonClass = 'text-green-600 font-semibold hover:text-green-800 transition';
+
+    return (
+        <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border border-gray-200 text-sm flex flex-wrap items-center gap-x-6 gap-y-2 no-print">
+            {isConverted(invoice) && (
+                <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 text-xs font-semibold uppercase tracking-wide">Accepted/Converted</span>
+            )}
+            {invoice.recurrence && (
+                <span className="flex items-center gap-2 text-gray-600">
+                    Generated by the schedule "{invoice.recurrence.label}"
+                    {invoice.recurrence.pendingReview && (
+                        <>
+                            <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 text-xs font-semibold uppercase tracking-wide">Awaiting Review</span>
+                            <button type="button" onClick={onApproveReview} className={linkButtonClass}>Approve</button>
+                        </>
+                    )}
+                </span>
+            )}
+            {invoice.eInvoice && (
+                <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 text-xs font-semibold uppercase tracking-wide" title={`IRN ${invoice.eInvoice.irn}`}>e-Invoice Registered</span>
+            )}
+            {invoice.convertedFrom && (
+                <span className="text-gray-600">
+                    Converted from{' '}
+                    <button type="button" onClick={() => onOpenLinked(invoice.convertedFrom!.id)} className={linkButtonClass}>
+                        {describeLink(invoice.convertedFrom, savedInvoices)}
+                    </button>
+                </span>
+            )}
+            {convertedTo.length > 0 && (
+                <span className="text-gray-600">
+                    Converted to{' '}
+                    {convertedTo.map((link, index) => (
+                        <React.Fragment key={link.id}>
+                            {index > 0 && ', '}
+                            <button type="button" onClick={() => onOpenLinked(link.id)} className={linkButtonClass}>
+                                {describeLink(link, savedInvoices)}
+                            </button>
+                        </React.Fragment>
+                    ))}
+                </span>
+            )}
+            {invoice.originalInvoice && (
+                <span className="text-gray-600">
+                    Against{' '}
+                    <button type="button" onClick={() => onOpenLinked(invoice.originalInvoice!.id)} className={linkButtonClass}>
+                        {describeLink(invoice.originalInvoice, savedInvoices)}
+                    </button>
+                </span>
+            )}
+            {adjustments.length > 0 && (
+                <span className="text-gray-600">
+                    Adjusted by{' '}
+                    {adjustments.map((note, index) => (
+                        <React.Fragment key={note.id}>
+                            {index > 0 && ', '}
+                            <button type="button" onClick={() => onOpenLinked(note.id)} className={linkButtonClass}>
+                                {describeLink(note, savedInvoices)}
+                            </button>
+                            {' '}({note.invoiceType === 'Credit Note' ? '-' : '+'}{formatCurrency(note.amount, invoice.currency)})
+                        </React.Fragment>
+                    ))}
+                </span>
+            )}
+            {(targets.length > 0 || noteTypes.length > 0 || canEInvoice || canExportUbl) && (
+                <span className="flex items-center gap-2 ml-auto">
+                    {canEInvoice && (
+                        <button
+                            type="button"
+                            onClick={onOpenEInvoice}
+                            className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                        >
+                            GST e-Invoice
+                        </button>
+                    )}
+                    {canExportUbl && (
+                        <button
+                            type="button"
+                            onClick={onDownloadUbl}
+                            className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                            title="UBL 2.1 / Peppol BIS Billing 3.0"
+                        >
+                            UBL XML
+                        </button>
+                    )}
+                    {targets.map(target => (
+                        <button
+                            key={target}
+                            type="button"
+                            onClick={() => onConvert(target)}
+                            className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                        >
+                            Convert to {target}
+                        </button>
+                    ))}
+                    {noteTypes.map(noteType => (
+                        <button
+                            key={noteType}
+                            type="button"
+                            onClick={() => onIssueNote(noteType)}
+                            className="px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition"
+                        >
+                            Issue {noteType}
+                        </button>
+                    ))}
+                </span>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { EInvoiceRegistration, Invoice } from '../types';
+import { InvoiceCalculations } from '../utils/calculations';
+import { buildEInvoice, isValidIrn, validateEInvoice } from '../utils/eInvoice';
+import { formatCurrency } from '../utils/format';
+import { Modal } from './Modal';
+import { InputGroup, FormInput, FormTextarea } from './FormControls';
+import { DownloadIcon } from './icons';
+
+interface EInvoicePanelProps {
+    invoice: Invoice;
+    calculations: InvoiceCalculations;
+    onDownload: () => void;
+    onLoadResponse: (file: File) => void;
+    onAttach: (registration: EInvoiceRegistration) => void;
+    onRemove: () => void;
+    onClose: () => void;
+}
+
+const EMPTY_REGISTRATION: EInvoiceRegistration = { irn: '', ackNumber: '', ackDate: '', signedQrCode: '' };
+
+const secondaryButtonClass = 'px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition';
+
+export const EInvoicePanel: React.FC<EInvoicePanelProps> = ({ invoice, calculations, onDownload, onLoadResponse, onAttach, onRemove, onClose }) => {
+    const [draft, setDraft] = useState<EInvoiceRegistration>(EMPTY_REGISTRATION);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const payload = useMemo(() => buildEInvoice(invoice, calculations), [invoice, calculations]);
+    const errors = useMemo(() => validateEInvoice(invoice, payload).filter(issue => issue.severity === 'error'), [invoice, payload]);
+    const { eInvoice } = invoice;
+
+    const handleFocusField = (field: string) => {
+        onClose();
+        // Wait for the modal to unmount before moving focus back into the form
+        setTimeout(() => {
+            const element = document.getElementById(field);
+            element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            element?.focus();
+        }, 0);
+    };
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            onLoadResponse(e.target.files[0]);
+        }
+        e.target.value = '';
+    };
+
+    const handleAttach = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isValidIrn(draft.irn)) return;
+        onAttach({ ...draft, irn: draft.irn.trim(), signedQrCode: draft.signedQrCode.trim() });
+        setDraft(EMPTY_REGISTRATION);
+    };
+
+    const handleRemove = () => {
+        if (window.confirm('Remove the IRN from this invoice? It stays registered on the portal until you cancel it there.')) {
+            onRemove();
+        }
+    };
+
+    return (
+        <Modal title="GST e-Invoice" onClose={onClose} widthClassName="max-w-2xl">
+            <p className="text-sm text-gray-600 mb-6">
+                B2B invoices from businesses above the e-invoicing turnover limit are registered on the Invoice Registration Portal (IRP).
+                Download the INV-01 JSON, upload it on the portal, then attach the IRN it returns so it prints on the invoice.
+            </p>
+
+            <section className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">Export</h3>
+                {errors.length > 0 ? (
+                    <>
+                        <h4 className="font-semibold text-red-700 mb-2">{errors.length} field{errors.length === 1 ? '' : 's'} to fix before exporting</h4>
+                        <ul className="space-y-1 mb-4 max-h-60 overflow-y-auto">
+                            {errors.map((issue, index) => (
+                                <li key={`${issue.field}-${index}`}>
+                                    <button type="button" onClick={() => handleFocusField(issue.field)} className="text-left text-sm text-red-600 hover:underline">
+                                        {issue.message}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                ) : (
+                    <p className="text-sm text-gray-700 mb-4">
+                        {payload.DocDtls.Typ} {payload.DocDtls.No} dated {payload.DocDtls.Dt} to {payload.BuyerDtls.Gstin}: {payload.ItemList.length} line{payload.ItemList.length === 1 ? '' : 's'}, total value {formatCurrency(payload.ValDtls.TotInvVal, invoice.currency)}.
+                    </p>
+                )}
+                <button
+                    type="button"
+                    onClick={onDownload}
+                    disabled={errors.length > 0}
+                    className="flex items-center space-x-2 px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon />
+                    <span>Download JSON</span>
+                </button>
+            </section>
+
+            <section>
+                <h3 className="text-lg font-semibold text-gray-800 mb-2">Registration</h3>
+                {eInvoice ? (
+                    <>
+                        <dl className="text-sm text-gray-700 space-y-1 mb-4">
+                            <div><dt className="inline font-semibold">IRN: </dt><dd className="inline break-all">{eInvoice.irn}</dd></div>
+                            <div><dt className="inline font-semibold">Ack No.: </dt><dd className="inline">{eInvoice.ackNumber || '—'}</dd></div>
+                            <div><dt className="inline font-semibold">Ack Date: </dt><dd className="inline">{eInvoice.ackDate || '—'}</dd></div>
+                            <div><dt className="inline font-semibold">Signed QR Code: </dt><dd className="inline">{eInvoice.signedQrCode ? 'Attached' : 'Not attached'}</dd></div>
+                        </dl>
+                        <button type="button" onClick={handleRemove} className={secondaryButtonClass}>Remove IRN</button>
+                    </>
+                ) : (
+                    <form onSubmit={handleAttach}>
+                        <div className="flex items-center justify-between mb-3">
+                            <p className="text-sm text-gray-600">Load the response file from the portal, or enter the details by hand.</p>
+                            <button type="button" onClick={() => fileInputRef.current?.click()} className="text-green-600 font-semibold hover:text-green-800 transition">
+                                Load IRP Response
+                            </button>
+                            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileSelect} className="hidden" aria-label="Load the IRP response" />
+                        </div>
+                        <InputGroup className="sm:grid-cols-2">
+                            <div className="sm:col-span-2">
+                                <FormInput label="IRN" id="eInvoiceIrn" value={draft.irn} maxLength={64} onChange={(e) => setDraft(prev => ({ ...prev, irn: e.target.value }))} placeholder="64-character hash" />
+                            </div>
+                            <FormInput label="Ack No." id="eInvoiceAckNumber" value={draft.ackNumber} onChange={(e) => setDraft(prev => ({ ...prev, ackNumber: e.target.value }))} />
+                            <FormInput label="Ack Date" id="eInvoiceAckDate" value={draft.ackDate} onChange={(e) => setDraft(prev => ({ ...prev, ackDate: e.target.value }))} placeholder="2026-04-01 10:30:00" />
+                            <div className="sm:col-span-2">
+                                <FormTextarea label="Signed QR Code" id="eInvoiceSignedQrCode" value={draft.signedQrCode} onChange={(e) => setDraft(prev => ({ ...prev, signedQrCode: e.target.value }))} />
+                            </div>
+                        </InputGroup>
+                        <div className="flex justify-end mt-4">
+                            <button type="submit" disabled={!isValidIrn(draft.irn)} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                Attach IRN
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </section>
+        </Modal>
+    );
+};
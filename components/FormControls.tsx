@@ -0,0 +1,73 @@
+import React from 'react';
+import { INDIAN_STATES } from '../utils/indianStates';
+import { CURRENCIES } from '../utils/currencies';
+import { ValidationIssue } from '../utils/validation';
+
+const BASE_INPUT_CLASS = 'w-full px-3 py-2 bg-white border rounded-md shadow-sm transition font-medium text-gray-900 placeholder:text-gray-400';
+
+export const getInputBorderClass = (issue?: ValidationIssue): string => {
+    if (!issue) return 'border-gray-300 focus:ring-green-500 focus:border-green-500';
+    return issue.severity === 'error'
+        ? 'border-red-500 focus:ring-red-500 focus:border-red-500'
+        : 'border-amber-400 focus:ring-amber-400 focus:border-amber-400';
+};
+
+export const getIssueProps = (id: string | undefined, issue?: ValidationIssue) =>
+    issue ? { 'aria-invalid': issue.severity === 'error', 'aria-describedby': `${id}-issue` } : {};
+
+export const FieldIssue: React.FC<{ id?: string; issue?: ValidationIssue }> = ({ id, issue }) => {
+    if (!issue) return null;
+    return (
+        <p id={`${id}-issue`} className={`mt-1 text-xs font-medium ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+            {issue.message}
+        </p>
+    );
+};
+
+export const InputGroup: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+    <div className={`grid grid-cols-1 gap-4 ${className}`}>
+        {children}
+    </div>
+);
+
+export const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string; issue?: ValidationIssue }> = ({ label, id, issue, ...props }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
+        <input id={id} {...props} {...getIssueProps(id, issue)} className={`${BASE_INPUT_CLASS} ${getInputBorderClass(issue)}`} />
+        <FieldIssue id={id} issue={issue} />
+    </div>
+);
+
+export const FormSelect: React.FC<React.SelectHTMLAttributes<HTMLSelectElement> & { label: string; issue?: ValidationIssue }> = ({ label, id, children, issue, ...props }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
+        <select id={id} {...props} {...getIssueProps(id, issue)} className={`${BASE_INPUT_CLASS} ${getInputBorderClass(issue)}`}>
+            {children}
+        </select>
+        <FieldIssue id={id} issue={issue} />
+    </div>
+);
+
+export const FormTextarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement> & { label: string }> = ({ label, id, ...props }) => (
+     <div>
+        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
+        <textarea id={id} {...props} rows={3} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"></textarea>
+    </div>
+);
+
+export const CurrencyOptions: React.FC = () => (
+    <>
+        {CURRENCIES.map(currency => (
+            <option key={currency.code} value={currency.code}>{currency.code} ({currency.symbol})</option>
+        ))}
+    </>
+);
+
+export const StateOptions: React.FC = () => (
+    <>
+        <option value="">Select state</option>
+        {INDIAN_STATES.map(state => (
+            <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+        ))}
+    </>
+);
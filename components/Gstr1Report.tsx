@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { StoredInvoice } from '../types';
+import { GSTR1_SECTIONS, Gstr1Report as Gstr1ReportData, Gstr1Section, buildGstr1Report, getReturnPeriod, getSupplierGstins, toGstr1Csv, toGstr1Json } from '../utils/gstr1';
+import { addDays, getToday } from '../utils/dates';
+import { formatCurrency } from '../utils/format';
+import { BASE_CURRENCY } from '../utils/currencies';
+import { Modal } from './Modal';
+import { InputGroup, FormInput, FormSelect } from './FormControls';
+import { DownloadIcon } from './icons';
+
+interface Gstr1ReportProps {
+    invoices: StoredInvoice[];
+    defaultGstin: string;
+    onDownload: (fileName: string, content: string, mimeType: string) => void;
+    onClose: () => void;
+}
+
+// Returns are usually prepared for the month just ended
+const getPreviousMonth = (): { from: string; to: string } => {
+    const today = getToday();
+    const to = addDays(`${today.slice(0, 7)}-01`, -1);
+    return { from: `${to.slice(0, 7)}-01`, to };
+};
+
+// Taxable value and tax of a section, for the summary table
+const getSectionTotals = (report: Gstr1ReportData, section: Gstr1Section) => {
+    const rows = report[section];
+    return {
+        rows: rows.length,
+        taxableValue: rows.reduce((sum, row) => sum + row.taxableValue, 0),
+        taxAmount: rows.reduce((sum, row) => sum + row.igstAmount + row.cgstAmount + row.sgstAmount, 0),
+    };
+};
+
+export const Gstr1Report: React.FC<Gstr1ReportProps> = ({ invoices, defaultGstin, onDownload, onClose }) => {
+    const gstins = useMemo(() => getSupplierGstins(invoices), [invoices]);
+    const [gstin, setGstin] = useState(() => {
+        const current = defaultGstin.trim().toUpperCase();
+        return gstins.includes(current) ? current : gstins[0] ?? '';
+    });
+    const [period, setPeriod] = useState(getPreviousMonth);
+
+    const isPeriodValid = Boolean(period.from && period.to && period.from <= period.to);
+    const report = useMemo(
+        () => (gstin && isPeriodValid ? buildGstr1Report(invoices, gstin, period.from, period.to) : null),
+        [invoices, gstin, period, isPeriodValid]
+    );
+    const isOneReturnPeriod = isPeriodValid && getReturnPeriod(period.from, period.to) !== null;
+    const fileSuffix = `${gstin}-${period.from}-to-${period.to}`;
+
+    return (
+        <Modal title="GSTR-1 Return" onClose={onClose} widthClassName="max-w-4xl">
+            <p className="text-sm text-gray-600 mb-6">
+                Outward supplies from your saved Tax Invoices and credit and debit notes, in the sections of the GST offline tool.
+                Import the JSON into the tool, or fill its templates from the CSV files.
+            </p>
+
+            {gstins.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No saved documents have a valid GSTIN for your business yet.</p>
+            ) : (
+                <>
+                    <InputGroup className="sm:grid-cols-3 mb-6">
+                        <FormSelect label="GSTIN" id="gstr1Gstin" value={gstin} onChange={(e) => setGstin(e.target.value)}>
+                            {gstins.map(option => (
+                                <option key={option} value={option}>{option}</option>
+                            ))}
+                        </FormSelect>
+                        <FormInput label="From" id="gstr1From" type="date" value={period.from} onChange={(e) => setPeriod(prev => ({ ...prev, from: e.target.value }))} />
+                        <FormInput label="To" id="gstr1To" type="date" value={period.to} onChange={(e) => setPeriod(prev => ({ ...prev, to: e.target.value }))} />
+                    </InputGroup>
+
+                    {!report ? (
+                        <p className="text-sm text-red-600">Choose a period that ends on or after the day it starts.</p>
+                    ) : (
+                        <>
+                            <div className="overflow-x-auto mb-4">
+                                <table className="w-full text-left text-sm">
+                                    <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                                        <tr>
+                                            <th scope="col" className="p-3">Section</th>
+                                            <th scope="col" className="p-3 text-right">Rows</th>
+                                            <th scope="col" className="p-3 text-right">Taxable Value</th>
+                                            <th scope="col" className="p-3 text-right">Tax</th>
+                                            <th scope="col" className="p-3"><span className="sr-only">Actions</span></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {GSTR1_SECTIONS.map(({ value, label }) => {
+                                            const totals = getSectionTotals(report, value);
+                                            return (
+                                                <tr key={value} className="hover:bg-gray-50">
+                                                    <td className="p-3 font-medium text-gray-900">{label}</td>
+                                                    <td className="p-3 text-right text-gray-700">{totals.rows}</td>
+                                                    <td className="p-3 text-right text-gray-700">{formatCurrency(totals.taxableValue, BASE_CURRENCY)}</td>
+                                                    <td className="p-3 text-right text-gray-700">{formatCurrency(totals.taxAmount, BASE_CURRENCY)}</td>
+                                                    <td className="p-3 text-right">
+                                                        <button
+                                                            onClick={() => onDownload(`gstr1-${value}-${fileSuffix}.csv`, toGstr1Csv(report, value), 'text/csv')}
+                                                            disabled={totals.rows === 0}
+                                                            className="px-3 py-1 text-green-700 font-semibold hover:bg-green-100 rounded-md transition disabled:opacity-50 disabled:cursor-default"
+                                                        >
+                                                            CSV
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            {report.skipped.length > 0 && (
+                                <div className="mb-4 p-3 rounded-md bg-amber-50 text-sm text-amber-800">
+                                    <h4 className="font-semibold mb-1">{report.skipped.length} document{report.skipped.length === 1 ? '' : 's'} left out</h4>
+                                    <ul className="space-y-1">
+                                        {report.skipped.map(({ record, reason }) => (
+                                            <li key={record.id}><span className="font-medium">{record.invoice.invoiceNumber || 'Untitled'}</span>: {reason}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {!isOneReturnPeriod && (
+                                <p className="mb-4 text-sm text-red-600">The JSON is for one return, so choose dates within a single month or quarter to download it.</p>
+                            )}
+
+                            <div className="flex items-center justify-between">
+                                <p className="text-sm text-gray-600">{report.documentCount} document{report.documentCount === 1 ? '' : 's'} in this return.</p>
+                                <button
+                                    type="button"
+                                    onClick={() => onDownload(`gstr1-${fileSuffix}.json`, JSON.stringify(toGstr1Json(report), null, 2), 'application/json')}
+                                    disabled={report.documentCount === 0 || !isOneReturnPeriod}
+                                    className="flex items-center space-x-2 px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon />
+                                    <span>Download JSON</span>
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </Modal>
+    );
+};
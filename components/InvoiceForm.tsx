@@ -1,6 +1,21 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Invoice, Item, Business, Client, BankDetails, Currency } from '../types';
+import { Invoice, Item, Business, Client, BankDetails, Currency, ClientRecord, CatalogItem, TaxTreatment, TemplateId, WordsLanguage, IssueStatus, StoredInvoice, PaymentTermsCode, RoundingMode } from '../types';
+import { findClientByName } from '../services/clientStore';
+import { findCatalogItem } from '../services/catalogStore';
+import { deriveTaxTreatment, getPlaceOfSupply, resolveTaxTreatment } from '../utils/gst';
+import { INDIAN_STATES, getStateName } from '../utils/indianStates';
+import { ValidationIssue } from '../utils/validation';
+import { INVOICE_TEMPLATES, getTemplate } from '../utils/templates';
+import { WORDS_LANGUAGES } from '../utils/amountInWords';
+import { BASE_CURRENCY, getCurrency } from '../utils/currencies';
+import { ISSUE_STATUSES, isPayable } from '../utils/payments';
+import { isNote } from '../utils/notes';
+import { PAYMENT_TERMS_OPTIONS } from '../utils/paymentTerms';
+import { getToday, toLocalIsoDate } from '../utils/dates';
 import { TrashIcon, PlusIcon, SpinnerIcon, CalendarIcon } from './icons';
+import { InputGroup, FormInput, FormSelect, FormTextarea, CurrencyOptions, StateOptions, FieldIssue, getInputBorderClass, getIssueProps } from './FormControls';
+import { ClientPicker } from './ClientPicker';
+import { PaymentsLedger } from './PaymentsLedger';
 
 interface InvoiceFormProps {
     invoice: Invoice;
@@ -11,6 +26,20 @@ interface InvoiceFormProps {
     onLogoUpload: (file: File) => void;
     onRemoveLogo: () => void;
     isLogoUploading: boolean;
+    clients: ClientRecord[];
+    onSelectClient: (record: ClientRecord) => void;
+    onSaveClient: () => void;
+    onManageClients: () => void;
+    catalog: CatalogItem[];
+    onManageCatalog: () => void;
+    fieldIssues: Record<string, ValidationIssue>;
+    nextNumberPreview: string;
+    onAssignNextNumber: () => void;
+    onManageNumbering: () => void;
+    onLoadRatesFile: (file: File) => void;
+    total: number;
+    originalInvoiceOptions: StoredInvoice[];
+    onSelectOriginalInvoice: (id: string) => void;
 }
 
 const CalendarView: React.FC<{
@@ -51,7 +80,7 @@ const CalendarView: React.FC<{
 
     const handleDateClick = (day: number) => {
         const newDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), day);
-        const formattedDate = newDate.toISOString().split('T')[0];
+        const formattedDate = toLocalIsoDate(newDate);
         onDateSelect(formattedDate);
     };
 
@@ -107,30 +136,7 @@ const SectionCard: React.FC<{ title: string; children: React.ReactNode }> = ({ t
     </div>
 );
 
-const InputGroup: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
-    <div className={`grid grid-cols-1 gap-4 ${className}`}>
-        {children}
-    </div>
-);
-
-const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, ...props }) => (
-    <div>
-        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
-        <input id={id} {...props} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400" />
-    </div>
-);
-
-const FormSelect: React.FC<React.SelectHTMLAttributes<HTMLSelectElement> & { label: string }> = ({ label, id, children, ...props }) => (
-    <div>
-        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
-        <select id={id} {...props} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900">
-            {children}
-        </select>
-    </div>
-);
-
-
-const FormDateInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, value, onChange, ...props }) => {
+const FormDateInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string; issue?: ValidationIssue }> = ({ label, id, value, onChange, issue, ...props }) => {
     const [isCalendarOpen, setIsCalendarOpen] = useState(false);
     const [isFocused, setIsFocused] = useState(false);
 
@@ -159,7 +165,8 @@ const FormDateInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { la
                     }}
                     onBlur={() => setIsFocused(false)}
                     {...props}
-                    className="w-full pl-3 pr-10 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"
+                    {...getIssueProps(id, issue)}
+                    className={`w-full pl-3 pr-10 py-2 bg-white border rounded-md shadow-sm transition font-medium text-gray-900 placeholder:text-gray-400 ${getInputBorderClass(issue)}`}
                 />
                 <div
                     role="button"
@@ -179,20 +186,19 @@ const FormDateInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { la
                     />
                 )}
             </div>
+            <FieldIssue id={id} issue={issue} />
         </div>
     );
 };
 
-const FormTextarea: React.FC<React.TextareaHTMLAttributes<HTMLTextAreaElement> & { label: string }> = ({ label, id, ...props }) => (
-     <div>
-        <label htmlFor={id} className="block text-sm font-medium text-gray-600 mb-1">{label}</label>
-        <textarea id={id} {...props} rows={3} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"></textarea>
-    </div>
-);
+const itemLabelClass = 'block text-xs font-medium text-gray-500 mb-1';
 
-// A simplified input for the items grid, without a label
-const ItemInput: React.FC<React.InputHTMLAttributes<HTMLInputElement>> = (props) => (
-    <input {...props} className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-500 text-sm" />
+// A simplified input for the items grid; its label is a small caption above it
+const ItemInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { issue?: ValidationIssue }> = ({ issue, ...props }) => (
+    <>
+        <input {...props} {...getIssueProps(props.id, issue)} className={`w-full px-3 py-2 bg-white border rounded-md shadow-sm transition font-medium text-gray-900 placeholder:text-gray-500 text-sm ${getInputBorderClass(issue)}`} />
+        <FieldIssue id={props.id} issue={issue} />
+    </>
 );
 
 export const InvoiceForm: React.FC<InvoiceFormProps> = ({ 
@@ -203,10 +209,25 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
     onRemoveItem, 
     onLogoUpload,
     onRemoveLogo,
-    isLogoUploading
+    isLogoUploading,
+    clients,
+    onSelectClient,
+    onSaveClient,
+    onManageClients,
+    catalog,
+    onManageCatalog,
+    fieldIssues,
+    nextNumberPreview,
+    onAssignNextNumber,
+    onManageNumbering,
+    onLoadRatesFile,
+    total,
+    originalInvoiceOptions,
+    onSelectOriginalInvoice
 }) => {
-    const invoiceNumberPlaceholder = useMemo(() => `INV-${Math.floor(1000 + Math.random() * 9000)}`, []);
-    const todayPlaceholder = useMemo(() => new Date().toISOString().split('T')[0], []);
+    const todayPlaceholder = useMemo(getToday, []);
+
+    const derivedTreatment = deriveTaxTreatment(invoice);
 
     const handleBusinessChange = (field: keyof Business, value: string) => {
         onInvoiceChange('business', { ...invoice.business, [field]: value });
@@ -216,10 +237,39 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
         onInvoiceChange('client', { ...invoice.client, [field]: value });
     };
 
+    const handleExchangeRateChange = (field: 'rate' | 'date', value: string) => {
+        const rate = field === 'rate' ? parseFloat(value) || 0 : invoice.exchangeRate.rate;
+        const date = field === 'date' ? value : invoice.exchangeRate.date;
+        onInvoiceChange('exchangeRate', { rate, date, source: 'manual' });
+    };
+
+    // Typing a due date by hand takes the invoice off its payment terms
+    const handleDueDateChange = (dueDate: string) => {
+        if (invoice.paymentTerms.code !== 'manual') onInvoiceChange('paymentTerms', { ...invoice.paymentTerms, code: 'manual' });
+        onInvoiceChange('dueDate', dueDate);
+    };
+
+    const handleRatesFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            onLoadRatesFile(e.target.files[0]);
+        }
+        e.target.value = '';
+    };
+
     const handleBankDetailsChange = (field: keyof BankDetails, value: string) => {
         onInvoiceChange('bankDetails', { ...invoice.bankDetails, [field]: value });
     };
 
+    // Picking a catalog entry from the suggestions fills in the rest of the row
+    const handleItemDescriptionChange = (index: number, item: Item, description: string) => {
+        const entry = findCatalogItem(catalog, description);
+        if (entry && entry.description !== item.description) {
+            onItemChange(index, { ...item, description: entry.description, price: entry.price, hsn: entry.hsn, unit: entry.unit, taxRate: entry.taxRate });
+        } else {
+            onItemChange(index, { ...item, description });
+        }
+    };
+
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
             onLogoUpload(e.target.files[0]);
@@ -236,6 +286,14 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
     return (
         <div className="space-y-6">
             <SectionCard title="Branding">
+                <div className="mb-4">
+                    <FormSelect label="Template" id="templateId" value={invoice.templateId} onChange={(e) => onInvoiceChange('templateId', e.target.value as TemplateId)}>
+                        {INVOICE_TEMPLATES.map(template => (
+                            <option key={template.id} value={template.id}>{template.label}</option>
+                        ))}
+                    </FormSelect>
+                    <p className="mt-1 text-xs text-gray-500">{getTemplate(invoice.templateId).description}</p>
+                </div>
                 <div className="flex items-center space-x-4 mb-2">
                     <label htmlFor="logo-upload" className="block text-sm font-medium text-gray-600">Company Logo</label>
                     {isLogoUploading && <SpinnerIcon />}
@@ -264,22 +322,74 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
 
             <SectionCard title="Invoice Details">
                 <InputGroup className="sm:grid-cols-2">
-                    <FormInput
-                        label="Invoice Number"
-                        id="invoiceNumber"
-                        value={invoice.invoiceNumber}
-                        placeholder={invoiceNumberPlaceholder}
-                        onChange={(e) => onInvoiceChange('invoiceNumber', e.target.value)}
-                        type="text"
-                    />
+                    <div>
+                        <FormInput
+                            label="Invoice Number"
+                            id="invoiceNumber"
+                            issue={fieldIssues.invoiceNumber}
+                            value={invoice.invoiceNumber}
+                            placeholder={nextNumberPreview}
+                            onChange={(e) => onInvoiceChange('invoiceNumber', e.target.value)}
+                            type="text"
+                        />
+                        <div className="flex items-center space-x-3 mt-1 text-xs">
+                            {!invoice.invoiceNumber.trim() && (
+                                <button type="button" onClick={onAssignNextNumber} className="text-green-600 font-semibold hover:text-green-800 transition">
+                                    Use {nextNumberPreview}
+                                </button>
+                            )}
+                            <button type="button" onClick={onManageNumbering} className="text-gray-500 font-semibold hover:text-gray-700 transition">
+                                Numbering settings
+                            </button>
+                        </div>
+                    </div>
                     <FormSelect label="Currency" id="currency" value={invoice.currency} onChange={(e) => onInvoiceChange('currency', e.target.value as Currency)}>
-                        <option value="INR">INR (₹)</option>
-                        <option value="USD">USD ($)</option>
-                        <option value="EUR">EUR (€)</option>
-                        <option value="GBP">GBP (£)</option>
+                        <CurrencyOptions />
                     </FormSelect>
+                    {invoice.currency !== BASE_CURRENCY && (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <FormInput
+                                    label={`Exchange Rate (${BASE_CURRENCY} per 1 ${invoice.currency})`}
+                                    id="exchangeRate"
+                                    issue={fieldIssues.exchangeRate}
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    value={invoice.exchangeRate.rate || ''}
+                                    onKeyDown={handleNumberInputKeyDown}
+                                    onChange={(e) => handleExchangeRateChange('rate', e.target.value)}
+                                />
+                                <FormDateInput label="Rate Date" id="exchangeRateDate" issue={fieldIssues.exchangeRateDate} value={invoice.exchangeRate.date} onChange={(e) => handleExchangeRateChange('date', e.target.value)} placeholder={todayPlaceholder} />
+                            </div>
+                            <label className="block text-xs text-gray-500">
+                                <span className="font-semibold text-green-600 hover:text-green-800 cursor-pointer transition">Load from rates file</span>
+                                {invoice.exchangeRate.source === 'rates-file' && <span> · rate taken from a rates file</span>}
+                                <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleRatesFileSelect} className="hidden" aria-label="Load exchange rate from a rates file" />
+                            </label>
+                        </div>
+                    )}
                     <FormDateInput label="Invoice Date" id="date" value={invoice.date} onChange={(e) => onInvoiceChange('date', e.target.value)} placeholder={todayPlaceholder} />
-                    <FormDateInput label="Due Date" id="dueDate" value={invoice.dueDate} onChange={(e) => onInvoiceChange('dueDate', e.target.value)} placeholder={todayPlaceholder} />
+                    <FormDateInput label="Due Date" id="dueDate" issue={fieldIssues.dueDate} value={invoice.dueDate} onChange={(e) => handleDueDateChange(e.target.value)} placeholder={todayPlaceholder} />
+                    <FormSelect label="Payment Terms" id="paymentTerms" value={invoice.paymentTerms.code} onChange={(e) => onInvoiceChange('paymentTerms', { ...invoice.paymentTerms, code: e.target.value as PaymentTermsCode })}>
+                        {PAYMENT_TERMS_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </FormSelect>
+                    {invoice.paymentTerms.code === 'custom' && (
+                        <FormInput
+                            label="Days After Invoice Date"
+                            id="paymentTermsDays"
+                            type="number"
+                            min="0"
+                            value={invoice.paymentTerms.customDays}
+                            onKeyDown={handleNumberInputKeyDown}
+                            onChange={(e) => onInvoiceChange('paymentTerms', { ...invoice.paymentTerms, customDays: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                        />
+                    )}
+                    <FormSelect label="Amount in Words" id="wordsLanguage" value={invoice.wordsLanguage} onChange={(e) => onInvoiceChange('wordsLanguage', e.target.value as WordsLanguage)}>
+                        {WORDS_LANGUAGES.map(language => (
+                            <option key={language.id} value={language.id}>{language.label}</option>
+                        ))}
+                    </FormSelect>
                 </InputGroup>
             </SectionCard>
 
@@ -287,36 +397,60 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
                 <InputGroup>
                     <FormInput label="Business Name" id="businessName" value={invoice.business.name} onChange={(e) => handleBusinessChange('name', e.target.value)} />
                     <FormTextarea label="Business Address" id="businessAddress" value={invoice.business.address} onChange={(e) => handleBusinessChange('address', e.target.value)} />
-                    <FormInput label="Business Email" id="businessEmail" type="email" value={invoice.business.email} onChange={(e) => handleBusinessChange('email', e.target.value)} />
+                    <FormInput label="Business Email" id="businessEmail" issue={fieldIssues.businessEmail} type="email" value={invoice.business.email} onChange={(e) => handleBusinessChange('email', e.target.value)} />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <FormInput label="GSTIN" id="businessGstin" issue={fieldIssues.businessGstin} value={invoice.business.gstin} maxLength={15} onChange={(e) => handleBusinessChange('gstin', e.target.value.toUpperCase())} />
+                        <FormSelect label="State" id="businessState" value={invoice.business.state} onChange={(e) => handleBusinessChange('state', e.target.value)}>
+                            <StateOptions />
+                        </FormSelect>
+                    </div>
                 </InputGroup>
             </SectionCard>
 
             <SectionCard title="Client Details">
+                <ClientPicker
+                    clients={clients}
+                    currentClientName={invoice.client.name}
+                    isCurrentClientSaved={!!findClientByName(clients, invoice.client.name)}
+                    onSelect={onSelectClient}
+                    onSaveCurrent={onSaveClient}
+                    onManage={onManageClients}
+                />
                 <InputGroup>
                     <FormInput label="Client Name" id="clientName" value={invoice.client.name} onChange={(e) => handleClientChange('name', e.target.value)} />
                     <FormTextarea label="Client Address" id="clientAddress" value={invoice.client.address} onChange={(e) => handleClientChange('address', e.target.value)} />
-                    <FormInput label="Client Email" id="clientEmail" type="email" value={invoice.client.email} onChange={(e) => handleClientChange('email', e.target.value)} />
+                    <FormInput label="Client Email" id="clientEmail" issue={fieldIssues.clientEmail} type="email" value={invoice.client.email} onChange={(e) => handleClientChange('email', e.target.value)} />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <FormInput label="Client GSTIN / VAT No." id="clientGstin" issue={fieldIssues.clientGstin} value={invoice.client.gstin} maxLength={20} onChange={(e) => handleClientChange('gstin', e.target.value.toUpperCase())} />
+                        <FormSelect label="Client State" id="clientState" value={invoice.client.state} onChange={(e) => handleClientChange('state', e.target.value)}>
+                            <StateOptions />
+                        </FormSelect>
+                    </div>
+                    <FormInput label="Client Reference / PO No." id="buyerReference" issue={fieldIssues.buyerReference} value={invoice.buyerReference} onChange={(e) => onInvoiceChange('buyerReference', e.target.value)} />
                 </InputGroup>
             </SectionCard>
 
             <SectionCard title="Invoice Items">
-                 <div className="hidden md:grid md:grid-cols-12 gap-x-3 mb-2 text-sm font-semibold text-gray-500 px-2">
-                    <div className="md:col-span-4">Description</div>
-                    <div className="md:col-span-2">Qty</div>
-                    <div className="md:col-span-2">Price</div>
-                    <div className="md:col-span-2">HSN/SAC</div>
-                </div>
+                 <datalist id="catalog-descriptions">
+                    {catalog.map(entry => <option key={entry.id} value={entry.description} />)}
+                 </datalist>
                  <div className="space-y-3">
                     {invoice.items.map((item, index) => (
-                        <div key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-x-3 gap-y-2 items-center p-2 bg-gray-50/50 border rounded-lg">
-                            <div className="md:col-span-4">
-                                <label htmlFor={`item-desc-${item.id}`} className="sr-only">Item Description for item {index + 1}</label>
-                                <ItemInput id={`item-desc-${item.id}`} placeholder="Item Description" value={item.description} onChange={(e) => onItemChange(index, { ...item, description: e.target.value })} />
+                        <div key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-x-3 gap-y-2 items-start p-2 bg-gray-50/50 border rounded-lg">
+                            <div className="md:col-span-10">
+                                <label htmlFor={`item-desc-${item.id}`} className={itemLabelClass}>Description<span className="sr-only"> for item {index + 1}</span></label>
+                                <ItemInput id={`item-desc-${item.id}`} placeholder="Item Description" list="catalog-descriptions" autoComplete="off" value={item.description} onChange={(e) => handleItemDescriptionChange(index, item, e.target.value)} />
+                            </div>
+                            <div className="md:col-span-2 self-end flex items-center justify-end">
+                                <button onClick={() => onRemoveItem(item.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Remove ${item.description || `item ${index + 1}`}`}>
+                                    <TrashIcon />
+                                </button>
                             </div>
                             <div className="md:col-span-2">
-                                <label htmlFor={`item-qty-${item.id}`} className="sr-only">Qty for item {index + 1}</label>
+                                <label htmlFor={`item-qty-${item.id}`} className={itemLabelClass}>Qty<span className="sr-only"> for item {index + 1}</span></label>
                                 <ItemInput
                                     id={`item-qty-${item.id}`}
+                                    issue={fieldIssues[`item-qty-${item.id}`]}
                                     type="text"
                                     inputMode="numeric"
                                     placeholder="Qty"
@@ -327,9 +461,14 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
                                 />
                             </div>
                             <div className="md:col-span-2">
-                                <label htmlFor={`item-price-${item.id}`} className="sr-only">Price for item {index + 1}</label>
+                                <label htmlFor={`item-unit-${item.id}`} className={itemLabelClass}>Unit<span className="sr-only"> for item {index + 1}</span></label>
+                                <ItemInput id={`item-unit-${item.id}`} placeholder="Unit" value={item.unit || ''} onChange={(e) => onItemChange(index, { ...item, unit: e.target.value })} />
+                            </div>
+                            <div className="md:col-span-3">
+                                <label htmlFor={`item-price-${item.id}`} className={itemLabelClass}>Price<span className="sr-only"> for item {index + 1}</span></label>
                                 <ItemInput
                                     id={`item-price-${item.id}`}
+                                    issue={fieldIssues[`item-price-${item.id}`]}
                                     type="text"
                                     inputMode="decimal"
                                     placeholder="Price"
@@ -339,44 +478,107 @@ export const InvoiceForm: React.FC<InvoiceFormProps> = ({
                                     onKeyDown={handleNumberInputKeyDown}
                                 />
                             </div>
-                             <div className="md:col-span-2">
-                                <label htmlFor={`item-hsn-${item.id}`} className="sr-only">HSN/SAC for item {index + 1}</label>
-                                <ItemInput id={`item-hsn-${item.id}`} placeholder="HSN/SAC" value={item.hsn} onChange={(e) => onItemChange(index, { ...item, hsn: e.target.value })} />
+                             <div className="md:col-span-3">
+                                <label htmlFor={`item-hsn-${item.id}`} className={itemLabelClass}>HSN/SAC<span className="sr-only"> for item {index + 1}</span></label>
+                                <ItemInput id={`item-hsn-${item.id}`} issue={fieldIssues[`item-hsn-${item.id}`]} placeholder="HSN/SAC" value={item.hsn} onChange={(e) => onItemChange(index, { ...item, hsn: e.target.value })} />
                             </div>
-                            <div className="md:col-span-2 flex items-center justify-end">
-                                <button onClick={() => onRemoveItem(item.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Remove ${item.description || `item ${index + 1}`}`}>
-                                    <TrashIcon />
-                                </button>
+                            <div className="md:col-span-2">
+                                <label htmlFor={`item-tax-${item.id}`} className={itemLabelClass}>Tax %<span className="sr-only"> for item {index + 1}</span></label>
+                                <ItemInput
+                                    id={`item-tax-${item.id}`}
+                                    issue={fieldIssues[`item-tax-${item.id}`]}
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder="Tax %"
+                                    aria-label={`Tax rate (%) for ${item.description || `item ${index + 1}`}`}
+                                    value={item.taxRate === 0 ? '' : item.taxRate}
+                                    onChange={(e) => onItemChange(index, { ...item, taxRate: parseFloat(e.target.value) || 0 })}
+                                    onKeyDown={handleNumberInputKeyDown}
+                                />
                             </div>
                         </div>
                     ))}
-                    <button onClick={onAddItem} className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition pt-2">
-                        <PlusIcon />
-                        <span>Add Item</span>
-                    </button>
+                    <div className="flex items-center justify-between pt-2">
+                        <button onClick={onAddItem} className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition">
+                            <PlusIcon />
+                            <span>Add Item</span>
+                        </button>
+                        <button onClick={onManageCatalog} className="text-sm text-gray-600 font-semibold hover:text-gray-800 transition">
+                            Manage catalog
+                        </button>
+                    </div>
                 </div>
             </SectionCard>
 
             <SectionCard title="Taxes & Discounts">
                 <InputGroup className="sm:grid-cols-2">
-                    <FormInput label="CGST Rate (%)" id="cgstRate" type="text" inputMode="decimal" value={invoice.cgstRate} onChange={(e) => onInvoiceChange('cgstRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
-                    <FormInput label="SGST Rate (%)" id="sgstRate" type="text" inputMode="decimal" value={invoice.sgstRate} onChange={(e) => onInvoiceChange('sgstRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
-                    <FormInput label="IGST Rate (%)" id="igstRate" type="text" inputMode="decimal" value={invoice.igstRate} onChange={(e) => onInvoiceChange('igstRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
-                    <FormInput label="Tax Rate (%)" id="taxRate" type="text" inputMode="decimal" value={invoice.taxRate} onChange={(e) => onInvoiceChange('taxRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
-                    <div className="sm:col-span-2">
-                        <FormInput label="Discount Rate (%)" id="discountRate" type="text" inputMode="decimal" value={invoice.discountRate} onChange={(e) => onInvoiceChange('discountRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
-                    </div>
+                    <FormSelect label="Place of Supply" id="placeOfSupply" value={invoice.placeOfSupply} onChange={(e) => onInvoiceChange('placeOfSupply', e.target.value)}>
+                        <option value="">{invoice.client.state ? `Client's state (${getStateName(invoice.client.state)})` : "Same as client's state"}</option>
+                        {INDIAN_STATES.map(state => (
+                            <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+                        ))}
+                    </FormSelect>
+                    <FormSelect label="Tax Treatment" id="taxTreatment" value={resolveTaxTreatment(invoice)} onChange={(e) => onInvoiceChange('taxTreatment', e.target.value as TaxTreatment)}>
+                        <option value="intra-state" disabled={derivedTreatment === 'inter-state'}>Intra-state (CGST + SGST)</option>
+                        <option value="inter-state" disabled={derivedTreatment === 'intra-state'}>Inter-state (IGST)</option>
+                        <option value="non-gst">Non-GST tax</option>
+                    </FormSelect>
+                    {derivedTreatment && invoice.taxTreatment !== 'non-gst' && (
+                        <p className="sm:col-span-2 text-sm text-gray-500">
+                            GST is charged as {derivedTreatment === 'intra-state' ? 'CGST + SGST' : 'IGST'} because your state and the place of supply ({getStateName(getPlaceOfSupply(invoice))}) {derivedTreatment === 'intra-state' ? 'match' : 'differ'}.
+                        </p>
+                    )}
+                    <FormInput label="Discount Rate (%)" id="discountRate" issue={fieldIssues.discountRate} type="text" inputMode="decimal" value={invoice.discountRate} onChange={(e) => onInvoiceChange('discountRate', parseFloat(e.target.value) || 0)} onKeyDown={handleNumberInputKeyDown} />
+                    <FormSelect label="Rounding" id="roundingMode" value={invoice.roundingMode} onChange={(e) => onInvoiceChange('roundingMode', e.target.value as RoundingMode)}>
+                        <option value="per-line">Round each line</option>
+                        <option value="per-total">Round totals only</option>
+                    </FormSelect>
+                    <label className="sm:col-span-2 flex items-center space-x-2 text-sm text-gray-700">
+                        <input type="checkbox" className="h-4 w-4 text-green-600 rounded" checked={invoice.roundOff} onChange={(e) => onInvoiceChange('roundOff', e.target.checked)} />
+                        <span>Round off the total to the nearest {getCurrency(invoice.currency).unitNames.major[0].toLowerCase()}</span>
+                    </label>
+                    <p className="sm:col-span-2 text-sm text-gray-500">Set the tax rate on each line item. Lines at different rates are totalled separately.</p>
                 </InputGroup>
             </SectionCard>
 
+            {isNote(invoice.invoiceType) && (
+                <SectionCard title="Original Invoice">
+                    <InputGroup className="sm:grid-cols-2">
+                        <FormSelect label="Issued Against" id="originalInvoice" issue={fieldIssues.originalInvoice} value={invoice.originalInvoice?.id ?? ''} onChange={(e) => onSelectOriginalInvoice(e.target.value)}>
+                            <option value="">Select an invoice</option>
+                            {invoice.originalInvoice && !originalInvoiceOptions.some(record => record.id === invoice.originalInvoice?.id) && (
+                                <option value={invoice.originalInvoice.id}>{invoice.originalInvoice.invoiceNumber} (deleted)</option>
+                            )}
+                            {originalInvoiceOptions.map(record => (
+                                <option key={record.id} value={record.id}>
+                                    {record.invoice.invoiceNumber || 'Untitled'} · {record.invoice.client.name || 'No client'}{record.invoice.date ? ` · ${record.invoice.date}` : ''}
+                                </option>
+                            ))}
+                        </FormSelect>
+                        <FormSelect label="Status" id="issueStatus" value={invoice.issueStatus} onChange={(e) => onInvoiceChange('issueStatus', e.target.value as IssueStatus)}>
+                            {ISSUE_STATUSES.map(option => <option key={option} value={option}>{option}</option>)}
+                        </FormSelect>
+                        <p className="sm:col-span-2 text-sm text-gray-500">
+                            Keep only the lines being returned or corrected. The note's total {invoice.invoiceType === 'Credit Note' ? 'reduces' : 'increases'} the original invoice's balance due; a void note doesn't count.
+                        </p>
+                    </InputGroup>
+                </SectionCard>
+            )}
+
+            {isPayable(invoice.invoiceType) && (
+                <SectionCard title="Status & Payments">
+                    <PaymentsLedger invoice={invoice} total={total} onInvoiceChange={onInvoiceChange} />
+                </SectionCard>
+            )}
+
             <SectionCard title="Bank Details">
                 <InputGroup className="sm:grid-cols-2">
                     <FormInput label="Account Holder" id="bankHolderName" value={invoice.bankDetails.name} onChange={(e) => handleBankDetailsChange('name', e.target.value)} />
                     <FormInput label="Account Number" id="bankAccountNumber" value={invoice.bankDetails.accountNumber} onChange={(e) => handleBankDetailsChange('accountNumber', e.target.value)} />
                     <FormInput label="Bank Name" id="bankName" value={invoice.bankDetails.bankName} onChange={(e) => handleBankDetailsChange('bankName', e.target.value)} />
-                    <FormInput label="IFSC Code" id="bankIfscCode" value={invoice.bankDetails.ifscCode} onChange={(e) => handleBankDetailsChange('ifscCode', e.target.value)} />
+                    <FormInput label="IFSC Code" id="bankIfscCode" issue={fieldIssues.bankIfscCode} value={invoice.bankDetails.ifscCode} onChange={(e) => handleBankDetailsChange('ifscCode', e.target.value)} />
                     <div className="sm:col-span-2">
-                         <FormInput label="UPI ID (for QR Code)" id="upiId" value={invoice.bankDetails.upiId || ''} onChange={(e) => handleBankDetailsChange('upiId', e.target.value)} />
+                         <FormInput label="UPI ID (for QR Code)" id="upiId" issue={fieldIssues.upiId} value={invoice.bankDetails.upiId || ''} onChange={(e) => handleBankDetailsChange('upiId', e.target.value)} />
                     </div>
                 </InputGroup>
             </SectionCard>
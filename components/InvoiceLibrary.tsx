@@ -0,0 +1,152 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { InvoiceType, StoredInvoice } from '../types';
+import { matchesInvoiceSearch } from '../services/invoiceStore';
+import { getConversionTargets, isConverted } from '../utils/conversion';
+import { STATUS_BADGE_CLASSES, getInvoiceStatus, isPayable } from '../utils/payments';
+import { getLateFee } from '../utils/paymentTerms';
+import { formatCurrency } from '../utils/format';
+import { Modal } from './Modal';
+import { TrashIcon, DuplicateIcon } from './icons';
+
+interface InvoiceLibraryProps {
+    invoices: StoredInvoice[];
+    currentInvoiceId: string | null;
+    onOpen: (record: StoredInvoice) => void;
+    onDuplicate: (record: StoredInvoice) => void;
+    onConvert: (record: StoredInvoice, invoiceType: InvoiceType) => void;
+    onDelete: (record: StoredInvoice) => void;
+    onImportUbl: (file: File) => void;
+    onClose: () => void;
+}
+
+// Invoices show their payment status; quotations and estimates only show whether they were accepted
+const StatusBadge: React.FC<{ record: StoredInvoice }> = ({ record }) => {
+    const { invoice } = record;
+    if (isPayable(invoice.invoiceType)) {
+        const status = getInvoiceStatus(invoice, record.total);
+        const lateFee = getLateFee(invoice, record.total);
+        return (
+            <>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${STATUS_BADGE_CLASSES[status]}`}>{status}</span>
+                {lateFee > 0 && <span className="block mt-1 text-xs text-red-700 whitespace-nowrap">+{formatCurrency(lateFee, invoice.currency)} late fee</span>}
+            </>
+        );
+    }
+    if (isConverted(invoice)) {
+        return <span className="px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap bg-green-100 text-green-800">Accepted/Converted</span>;
+    }
+    return <span className="text-gray-400">—</span>;
+};
+
+export const InvoiceLibrary: React.FC<InvoiceLibraryProps> = ({ invoices, currentInvoiceId, onOpen, onDuplicate, onConvert, onDelete, onImportUbl, onClose }) => {
+    const [query, setQuery] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const filteredInvoices = useMemo(
+        () => invoices.filter(record => matchesInvoiceSearch(record, query)),
+        [invoices, query]
+    );
+
+    const handleDelete = (record: StoredInvoice) => {
+        const label = record.invoice.invoiceNumber || 'this untitled document';
+        if (window.confirm(`Delete ${label}? This cannot be undone.`)) {
+            onDelete(record);
+        }
+    };
+
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files[0]) {
+            onImportUbl(e.target.files[0]);
+        }
+        e.target.value = '';
+    };
+
+    return (
+        <Modal title="Saved Invoices" onClose={onClose} widthClassName="max-w-5xl">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+                <label htmlFor="librarySearch" className="sr-only">Search saved invoices</label>
+                <input
+                    id="librarySearch"
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by number, client, date or type"
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition font-medium text-gray-900 placeholder:text-gray-400"
+                    autoFocus
+                />
+                <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition" title="UBL 2.1 / Peppol BIS Billing 3.0 invoice or credit note">
+                    Import UBL XML
+                </button>
+                <input ref={fileInputRef} type="file" accept=".xml,application/xml,text/xml" onChange={handleFileSelect} className="hidden" aria-label="Import a UBL invoice" />
+            </div>
+            {filteredInvoices.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                    {invoices.length === 0 ? 'No saved invoices yet. Your documents are saved here automatically.' : 'No invoices match your search.'}
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                            <tr>
+                                <th scope="col" className="p-3">Number</th>
+                                <th scope="col" className="p-3">Type</th>
+                                <th scope="col" className="p-3">Client</th>
+                                <th scope="col" className="p-3">Date</th>
+                                <th scope="col" className="p-3">Status</th>
+                                <th scope="col" className="p-3 text-right">Total</th>
+                                <th scope="col" className="p-3"><span className="sr-only">Actions</span></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {filteredInvoices.map(record => {
+                                const { invoice } = record;
+                                const isCurrent = record.id === currentInvoiceId;
+                                const conversionTargets = getConversionTargets(invoice.invoiceType);
+                                return (
+                                    <tr key={record.id} className={isCurrent ? 'bg-green-50' : 'hover:bg-gray-50'}>
+                                        <td className="p-3 font-medium text-gray-900">{invoice.invoiceNumber || <span className="italic text-gray-400">Untitled</span>}</td>
+                                        <td className="p-3 text-gray-700">{invoice.invoiceType}</td>
+                                        <td className="p-3 text-gray-700">{invoice.client.name || '—'}</td>
+                                        <td className="p-3 text-gray-700">{invoice.date || '—'}</td>
+                                        <td className="p-3"><StatusBadge record={record} /></td>
+                                        <td className="p-3 text-right font-medium text-gray-900">{formatCurrency(record.total, invoice.currency)}</td>
+                                        <td className="p-3">
+                                            <div className="flex items-center justify-end space-x-1">
+                                                <button
+                                                    onClick={() => onOpen(record)}
+                                                    disabled={isCurrent}
+                                                    className="px-3 py-1 text-green-700 font-semibold hover:bg-green-100 rounded-md transition disabled:opacity-50 disabled:cursor-default"
+                                                >
+                                                    {isCurrent ? 'Editing' : 'Open'}
+                                                </button>
+                                                {conversionTargets.length > 0 && (
+                                                    <select
+                                                        value=""
+                                                        onChange={(e) => onConvert(record, e.target.value as InvoiceType)}
+                                                        className="bg-white border border-gray-300 text-gray-700 text-xs rounded-md p-1 transition"
+                                                        aria-label={`Convert ${invoice.invoiceNumber || 'untitled document'}`}
+                                                    >
+                                                        <option value="" disabled>Convert to…</option>
+                                                        {conversionTargets.map(target => (
+                                                            <option key={target} value={target}>{target}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                                <button onClick={() => onDuplicate(record)} className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition" aria-label={`Duplicate ${invoice.invoiceNumber || 'untitled document'}`}>
+                                                    <DuplicateIcon />
+                                                </button>
+                                                <button onClick={() => handleDelete(record)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Delete ${invoice.invoiceNumber || 'untitled document'}`}>
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Modal>
+    );
+};
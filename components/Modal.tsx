@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+import { CloseIcon } from './icons';
+
+interface ModalProps {
+    title: string;
+    onClose: () => void;
+    children: React.ReactNode;
+    widthClassName?: string;
+}
+
+export const Modal: React.FC<ModalProps> = ({ title, onClose, children, widthClassName = 'max-w-3xl' }) => {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [onClose]);
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/40 p-4 overflow-y-auto no-print" onMouseDown={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-label={title}
+                className={`w-full ${widthClassName} bg-white rounded-lg shadow-xl mt-12`}
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center border-b border-gray-200 px-6 py-4">
+                    <h2 className="text-xl font-bold text-gray-800">{title}</h2>
+                    <button onClick={onClose} className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full transition" aria-label="Close">
+                        <CloseIcon />
+                    </button>
+                </div>
+                <div className="p-6">
+                    {children}
+                </div>
+            </div>
+        </div>
+    );
+};
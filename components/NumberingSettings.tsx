@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { NumberingSequence } from '../types';
+import { previewNextNumber } from '../utils/numbering';
+import { Modal } from './Modal';
+
+interface NumberingSettingsProps {
+    sequences: NumberingSequence[];
+    documentDate: string;
+    onSave: (sequences: NumberingSequence[]) => void;
+    onClose: () => void;
+}
+
+const cellInputClass = 'w-full px-2 py-1 bg-white border border-gray-300 rounded-md shadow-sm focus:ring-green-500 focus:border-green-500 transition text-sm text-gray-900';
+
+export const NumberingSettings: React.FC<NumberingSettingsProps> = ({ sequences, documentDate, onSave, onClose }) => {
+    const [drafts, setDrafts] = useState<NumberingSequence[]>(sequences);
+
+    const handleChange = <K extends keyof NumberingSequence>(index: number, field: K, value: NumberingSequence[K]) => {
+        setDrafts(prev => prev.map((sequence, i) => (i === index ? { ...sequence, [field]: value } : sequence)));
+    };
+
+    return (
+        <Modal title="Document Numbering" onClose={onClose} widthClassName="max-w-5xl">
+            <p className="text-sm text-gray-600 mb-4">
+                Prefix and suffix may use <code>{'{FY}'}</code> (financial year, e.g. 2026-27), <code>{'{YYYY}'}</code>, <code>{'{YY}'}</code> and <code>{'{MM}'}</code> from the document date.
+                A number is reserved when a new document is first saved.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                        <tr>
+                            <th scope="col" className="p-2">Type</th>
+                            <th scope="col" className="p-2">Prefix</th>
+                            <th scope="col" className="p-2">Suffix</th>
+                            <th scope="col" className="p-2">Digits</th>
+                            <th scope="col" className="p-2">Next No.</th>
+                            <th scope="col" className="p-2">Reset each FY</th>
+                            <th scope="col" className="p-2">Next Number</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {drafts.map((sequence, index) => (
+                            <tr key={sequence.id}>
+                                <td className="p-2 font-medium text-gray-900 whitespace-nowrap">{sequence.id}</td>
+                                <td className="p-2"><input aria-label={`${sequence.id} prefix`} className={cellInputClass} value={sequence.prefix} onChange={(e) => handleChange(index, 'prefix', e.target.value)} /></td>
+                                <td className="p-2"><input aria-label={`${sequence.id} suffix`} className={cellInputClass} value={sequence.suffix} onChange={(e) => handleChange(index, 'suffix', e.target.value)} /></td>
+                                <td className="p-2 w-20"><input aria-label={`${sequence.id} digits`} type="number" min={0} max={10} className={cellInputClass} value={sequence.padding} onChange={(e) => handleChange(index, 'padding', Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)))} /></td>
+                                <td className="p-2 w-24"><input aria-label={`${sequence.id} next counter`} type="number" min={1} className={cellInputClass} value={sequence.nextNumber} onChange={(e) => handleChange(index, 'nextNumber', Math.max(1, parseInt(e.target.value, 10) || 1))} /></td>
+                                <td className="p-2 text-center"><input aria-label={`Reset ${sequence.id} numbering each financial year`} type="checkbox" className="h-4 w-4 text-green-600 rounded" checked={sequence.resetEachFinancialYear} onChange={(e) => handleChange(index, 'resetEachFinancialYear', e.target.checked)} /></td>
+                                <td className="p-2 font-mono text-gray-800 whitespace-nowrap">{previewNextNumber(sequence, documentDate)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex justify-end space-x-2 mt-6">
+                <button type="button" onClick={onClose} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition">Cancel</button>
+                <button type="button" onClick={() => onSave(drafts)} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition">Save Numbering</button>
+            </div>
+        </Modal>
+    );
+};
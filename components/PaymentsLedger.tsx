@@ -0,0 +1,124 @@
+import React from 'react';
+import { Invoice, IssueStatus, LateFeeRule, Payment, PaymentMode } from '../types';
+import { formatCurrency } from '../utils/format';
+import { roundMoney } from '../utils/money';
+import { ISSUE_STATUSES, PAYMENT_MODES, STATUS_BADGE_CLASSES, getAmountPaid, getBalanceDue, getInvoiceStatus } from '../utils/payments';
+import { LATE_FEE_TYPES, getLateFee } from '../utils/paymentTerms';
+import { getToday } from '../utils/dates';
+import { FormInput, FormSelect } from './FormControls';
+import { TrashIcon, PlusIcon } from './icons';
+
+interface PaymentsLedgerProps {
+    invoice: Invoice;
+    total: number;
+    onInvoiceChange: <K extends keyof Invoice>(key: K, value: Invoice[K]) => void;
+}
+
+const cellInputClass = 'w-full px-2 py-1 bg-white border border-gray-300 rounded-md text-sm focus:ring-green-500 focus:border-green-500';
+
+export const PaymentsLedger: React.FC<PaymentsLedgerProps> = ({ invoice, total, onInvoiceChange }) => {
+    const status = getInvoiceStatus(invoice, total);
+    const amountPaid = getAmountPaid(invoice);
+    const balanceDue = getBalanceDue(invoice, total);
+    const lateFee = getLateFee(invoice, total);
+
+    const handlePaymentChange = <K extends keyof Payment>(id: string, key: K, value: Payment[K]) => {
+        onInvoiceChange('payments', invoice.payments.map(payment => (payment.id === id ? { ...payment, [key]: value } : payment)));
+    };
+
+    // A new entry defaults to today and whatever is still owed, the common case of settling the balance
+    const handleAddPayment = () => {
+        const payment: Payment = {
+            id: crypto.randomUUID(),
+            date: getToday(),
+            amount: Math.max(0, roundMoney(balanceDue, invoice.currency)),
+            mode: 'Bank Transfer',
+            reference: '',
+        };
+        onInvoiceChange('payments', [...invoice.payments, payment]);
+        if (invoice.issueStatus === 'Draft') onInvoiceChange('issueStatus', 'Sent');
+    };
+
+    const handleRemovePayment = (id: string) => {
+        onInvoiceChange('payments', invoice.payments.filter(payment => payment.id !== id));
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+                <FormSelect label="Status" id="issueStatus" value={invoice.issueStatus} onChange={(e) => onInvoiceChange('issueStatus', e.target.value as IssueStatus)}>
+                    {ISSUE_STATUSES.map(option => <option key={option} value={option}>{option}</option>)}
+                </FormSelect>
+                <p className="text-sm text-gray-600 pb-2">
+                    Shown as <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_BADGE_CLASSES[status]}`}>{status}</span>
+                </p>
+            </div>
+
+            {invoice.payments.length > 0 && (
+                <table className="w-full text-left text-sm">
+                    <thead className="text-gray-500 uppercase text-xs tracking-wider">
+                        <tr>
+                            <th scope="col" className="p-1">Date</th>
+                            <th scope="col" className="p-1">Amount</th>
+                            <th scope="col" className="p-1">Mode</th>
+                            <th scope="col" className="p-1">Reference</th>
+                            <th scope="col" className="p-1"><span className="sr-only">Remove</span></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {invoice.payments.map((payment, index) => (
+                            <tr key={payment.id}>
+                                <td className="p-1"><input aria-label={`Date of payment ${index + 1}`} type="date" className={cellInputClass} value={payment.date} onChange={(e) => handlePaymentChange(payment.id, 'date', e.target.value)} /></td>
+                                <td className="p-1"><input aria-label={`Amount of payment ${index + 1}`} type="text" inputMode="decimal" className={cellInputClass} value={payment.amount === 0 ? '' : payment.amount} onChange={(e) => handlePaymentChange(payment.id, 'amount', parseFloat(e.target.value) || 0)} /></td>
+                                <td className="p-1">
+                                    <select aria-label={`Mode of payment ${index + 1}`} className={cellInputClass} value={payment.mode} onChange={(e) => handlePaymentChange(payment.id, 'mode', e.target.value as PaymentMode)}>
+                                        {PAYMENT_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+                                    </select>
+                                </td>
+                                <td className="p-1"><input aria-label={`Reference of payment ${index + 1}`} type="text" placeholder="UTR / cheque no." className={cellInputClass} value={payment.reference} onChange={(e) => handlePaymentChange(payment.id, 'reference', e.target.value)} /></td>
+                                <td className="p-1 text-right">
+                                    <button onClick={() => handleRemovePayment(payment.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Remove payment ${index + 1}`}>
+                                        <TrashIcon />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <div className="flex items-center justify-between">
+                <button onClick={handleAddPayment} className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition">
+                    <PlusIcon />
+                    <span>Record Payment</span>
+                </button>
+                <div className="text-sm text-right text-gray-600">
+                    <p>Paid: <span className="font-medium text-gray-900">{formatCurrency(amountPaid, invoice.currency)}</span></p>
+                    <p>Balance due: <span className="font-semibold text-gray-900">{formatCurrency(balanceDue, invoice.currency)}</span></p>
+                    {lateFee > 0 && <p className="text-red-700">Late fee to date: <span className="font-semibold">{formatCurrency(lateFee, invoice.currency)}</span></p>}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormSelect label="Late Fee" id="lateFeeType" value={invoice.lateFee.type} onChange={(e) => onInvoiceChange('lateFee', { ...invoice.lateFee, type: e.target.value as LateFeeRule['type'] })}>
+                    {LATE_FEE_TYPES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </FormSelect>
+                {invoice.lateFee.type !== 'none' && (
+                    <FormInput
+                        label={invoice.lateFee.type === 'flat' ? `Fee (${invoice.currency})` : 'Rate (% per month)'}
+                        id="lateFeeValue"
+                        type="text"
+                        inputMode="decimal"
+                        value={invoice.lateFee.value === 0 ? '' : invoice.lateFee.value}
+                        onChange={(e) => onInvoiceChange('lateFee', { ...invoice.lateFee, value: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                )}
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input type="checkbox" className="h-4 w-4 text-green-600 rounded" checked={invoice.showPaidWatermark} onChange={(e) => onInvoiceChange('showPaidWatermark', e.target.checked)} />
+                <span>Stamp "PAID" across the invoice once it is fully paid</span>
+            </label>
+        </div>
+    );
+};
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Invoice, RecurrenceFrequency, RecurringSchedule, StoredInvoice } from '../types';
+import { createSchedule } from '../services/scheduleStore';
+import { calculateInvoice } from '../utils/calculations';
+import { RECURRENCE_FREQUENCIES, describeFrequency, getNextRunDate } from '../utils/recurrence';
+import { formatCurrency } from '../utils/format';
+import { getToday } from '../utils/dates';
+import { Modal } from './Modal';
+import { InputGroup, FormInput, FormSelect } from './FormControls';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface RecurringSchedulesProps {
+    schedules: RecurringSchedule[];
+    awaitingReview: StoredInvoice[];
+    currentInvoice: Invoice;
+    // Only invoices that are paid against can be put on a schedule
+    canScheduleCurrent: boolean;
+    onSave: (schedule: RecurringSchedule) => void;
+    onDelete: (schedule: RecurringSchedule) => void;
+    onOpenInvoice: (record: StoredInvoice) => void;
+    onApprove: (record: StoredInvoice) => void;
+    onDiscard: (record: StoredInvoice) => void;
+    onClose: () => void;
+}
+
+const secondaryButtonClass = 'px-3 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition';
+
+export const RecurringSchedules: React.FC<RecurringSchedulesProps> = ({ schedules, awaitingReview, currentInvoice, canScheduleCurrent, onSave, onDelete, onOpenInvoice, onApprove, onDiscard, onClose }) => {
+    const [draft, setDraft] = useState<RecurringSchedule | null>(null);
+
+    const handleDraftChange = <K extends keyof RecurringSchedule>(field: K, value: RecurringSchedule[K]) => {
+        setDraft(prev => prev && { ...prev, [field]: value });
+    };
+
+    const handleNewSchedule = () => {
+        const today = getToday();
+        const draftSchedule = createSchedule(currentInvoice);
+        // The current invoice counts as the first run, so the schedule starts one period after it
+        const firstRun = getNextRunDate({ ...draftSchedule, startDate: currentInvoice.date || today, lastRunDate: currentInvoice.date || today });
+        setDraft({ ...draftSchedule, label: currentInvoice.client.name || 'Untitled schedule', startDate: firstRun ?? today });
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft || !draft.label.trim() || !draft.startDate) return;
+        onSave(draft);
+        setDraft(null);
+    };
+
+    const handleDelete = (schedule: RecurringSchedule) => {
+        if (window.confirm(`Delete the schedule "${schedule.label}"? Invoices it already generated are kept.`)) {
+            onDelete(schedule);
+            if (draft?.id === schedule.id) setDraft(null);
+        }
+    };
+
+    const handleDiscard = (record: StoredInvoice) => {
+        if (window.confirm(`Discard ${record.invoice.invoiceNumber}? It will be deleted and its number left unused.`)) {
+            onDiscard(record);
+        }
+    };
+
+    return (
+        <Modal title="Recurring Invoices" onClose={onClose} widthClassName="max-w-5xl">
+            {awaitingReview.length > 0 && (
+                <section className="mb-8">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Awaiting Review</h3>
+                    <p className="text-sm text-gray-600 mb-3">Generated from your schedules. Open one to check it, then approve it to take it out of the queue.</p>
+                    <div className="overflow-x-auto max-h-72 overflow-y-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                                <tr>
+                                    <th scope="col" className="p-3">Number</th>
+                                    <th scope="col" className="p-3">Client</th>
+                                    <th scope="col" className="p-3">Date</th>
+                                    <th scope="col" className="p-3">Schedule</th>
+                                    <th scope="col" className="p-3 text-right">Total</th>
+                                    <th scope="col" className="p-3"><span className="sr-only">Actions</span></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {awaitingReview.map(record => (
+                                    <tr key={record.id} className="hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-gray-900">{record.invoice.invoiceNumber}</td>
+                                        <td className="p-3 text-gray-700">{record.invoice.client.name || '—'}</td>
+                                        <td className="p-3 text-gray-700">{record.invoice.date}</td>
+                                        <td className="p-3 text-gray-700">{record.invoice.recurrence?.label}</td>
+                                        <td className="p-3 text-right text-gray-900">{formatCurrency(record.total, record.invoice.currency)}</td>
+                                        <td className="p-3">
+                                            <div className="flex items-center justify-end space-x-1">
+                                                <button onClick={() => onOpenInvoice(record)} className="px-3 py-1 text-green-700 font-semibold hover:bg-green-100 rounded-md transition">Open</button>
+                                                <button onClick={() => onApprove(record)} className={secondaryButtonClass}>Approve</button>
+                                                <button onClick={() => handleDiscard(record)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Discard ${record.invoice.invoiceNumber}`}>
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </section>
+            )}
+
+            <section>
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-lg font-semibold text-gray-800">Schedules</h3>
+                    <button
+                        onClick={handleNewSchedule}
+                        disabled={!canScheduleCurrent}
+                        title={canScheduleCurrent ? undefined : 'Open an invoice or tax invoice to repeat it'}
+                        className="flex items-center space-x-2 text-green-600 font-semibold hover:text-green-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <PlusIcon />
+                        <span>Repeat Current Invoice</span>
+                    </button>
+                </div>
+
+                {draft && (
+                    <form onSubmit={handleSave} className="mb-6 p-4 bg-gray-50 border rounded-lg">
+                        <p className="text-sm text-gray-600 mb-3">
+                            Repeats {draft.template.invoiceType.toLowerCase()} for {draft.template.client.name || 'an unnamed client'} totalling {formatCurrency(calculateInvoice(draft.template).total, draft.template.currency)}.
+                        </p>
+                        <InputGroup className="sm:grid-cols-6">
+                            <div className="sm:col-span-3">
+                                <FormInput label="Label" id="scheduleLabel" value={draft.label} onChange={(e) => handleDraftChange('label', e.target.value)} required autoFocus />
+                            </div>
+                            <div className="sm:col-span-3">
+                                <FormSelect label="Frequency" id="scheduleFrequency" value={draft.frequency} onChange={(e) => handleDraftChange('frequency', e.target.value as RecurrenceFrequency)}>
+                                    {RECURRENCE_FREQUENCIES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </FormSelect>
+                            </div>
+                            <div className="sm:col-span-2">
+                                <FormInput label="Start Date" id="scheduleStartDate" type="date" value={draft.startDate} onChange={(e) => handleDraftChange('startDate', e.target.value)} required />
+                            </div>
+                            <div className="sm:col-span-2">
+                                <FormInput label="End Date (optional)" id="scheduleEndDate" type="date" value={draft.endDate} min={draft.startDate} onChange={(e) => handleDraftChange('endDate', e.target.value)} />
+                            </div>
+                            <div className="sm:col-span-2">
+                                <FormInput
+                                    label="Day of Month (optional)"
+                                    id="scheduleDayOfMonth"
+                                    type="number"
+                                    min={1}
+                                    max={31}
+                                    value={draft.dayOfMonth ?? ''}
+                                    placeholder="Same as start date"
+                                    disabled={draft.frequency === 'weekly'}
+                                    onChange={(e) => handleDraftChange('dayOfMonth', e.target.value ? Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)) : null)}
+                                />
+                            </div>
+                        </InputGroup>
+                        <div className="flex justify-end space-x-2 mt-4">
+                            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-white transition">Cancel</button>
+                            <button type="submit" disabled={!draft.label.trim() || !draft.startDate} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50 disabled:cursor-not-allowed">Save Schedule</button>
+                        </div>
+                    </form>
+                )}
+
+                {schedules.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No schedules yet. Open an invoice you send regularly and repeat it.</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-gray-500 uppercase text-xs tracking-wider border-b">
+                                <tr>
+                                    <th scope="col" className="p-3">Label</th>
+                                    <th scope="col" className="p-3">Frequency</th>
+                                    <th scope="col" className="p-3">Next Run</th>
+                                    <th scope="col" className="p-3">Ends</th>
+                                    <th scope="col" className="p-3 text-right">Amount</th>
+                                    <th scope="col" className="p-3"><span className="sr-only">Actions</span></th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-100">
+                                {schedules.map(schedule => (
+                                    <tr key={schedule.id} className={draft?.id === schedule.id ? 'bg-green-50' : 'hover:bg-gray-50'}>
+                                        <td className="p-3 font-medium text-gray-900">{schedule.label}</td>
+                                        <td className="p-3 text-gray-700">{describeFrequency(schedule)}</td>
+                                        <td className="p-3 text-gray-700">{getNextRunDate(schedule) ?? 'Finished'}</td>
+                                        <td className="p-3 text-gray-700">{schedule.endDate || 'Never'}</td>
+                                        <td className="p-3 text-right text-gray-900">{formatCurrency(calculateInvoice(schedule.template).total, schedule.template.currency)}</td>
+                                        <td className="p-3">
+                                            <div className="flex items-center justify-end space-x-1">
+                                                <button onClick={() => setDraft(schedule)} className="px-3 py-1 text-green-700 font-semibold hover:bg-green-100 rounded-md transition">Edit</button>
+                                                <button onClick={() => handleDelete(schedule)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-full transition" aria-label={`Delete ${schedule.label}`}>
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </section>
+        </Modal>
+    );
+};
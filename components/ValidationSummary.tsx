@@ -0,0 +1,63 @@
+import React from 'react';
+import { ValidationIssue } from '../utils/validation';
+import { Modal } from './Modal';
+
+interface ValidationSummaryProps {
+    issues: ValidationIssue[];
+    onProceed: () => void;
+    onClose: () => void;
+}
+
+export const ValidationSummary: React.FC<ValidationSummaryProps> = ({ issues, onProceed, onClose }) => {
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+
+    const handleFocusField = (field: string) => {
+        onClose();
+        // Wait for the modal to unmount before moving focus back into the form
+        setTimeout(() => {
+            const element = document.getElementById(field);
+            element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            element?.focus();
+        }, 0);
+    };
+
+    const renderList = (list: ValidationIssue[], colorClass: string) => (
+        <ul className="space-y-1 mb-4">
+            {list.map((issue, index) => (
+                <li key={`${issue.field}-${index}`}>
+                    <button type="button" onClick={() => handleFocusField(issue.field)} className={`text-left text-sm hover:underline ${colorClass}`}>
+                        {issue.message}
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+
+    return (
+        <Modal title={errors.length ? 'Fix these before exporting' : 'Check before exporting'} onClose={onClose} widthClassName="max-w-xl">
+            {errors.length > 0 && (
+                <>
+                    <h3 className="font-semibold text-red-700 mb-2">{errors.length} error{errors.length === 1 ? '' : 's'}</h3>
+                    {renderList(errors, 'text-red-600')}
+                </>
+            )}
+            {warnings.length > 0 && (
+                <>
+                    <h3 className="font-semibold text-amber-700 mb-2">{warnings.length} warning{warnings.length === 1 ? '' : 's'}</h3>
+                    {renderList(warnings, 'text-amber-600')}
+                </>
+            )}
+            <div className="flex justify-end space-x-2 mt-2">
+                <button type="button" onClick={onClose} className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 transition">
+                    Back to editing
+                </button>
+                {errors.length === 0 && (
+                    <button type="button" onClick={onProceed} className="px-4 py-2 rounded-md bg-green-600 text-white hover:bg-green-700 transition">
+                        Export anyway
+                    </button>
+                )}
+            </div>
+        </Modal>
+    );
+};
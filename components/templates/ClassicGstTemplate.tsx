@@ -0,0 +1,146 @@
+import React, { forwardRef } from 'react';
+import { formatCurrency } from '../../utils/format';
+import { hasGstSummary } from '../../utils/calculations';
+import { getPlaceOfSupply, getTaxIdLabel } from '../../utils/gst';
+import { getStateName } from '../../utils/indianStates';
+import { getOriginalInvoiceLabel } from '../../utils/notes';
+import { getPaymentTermsText } from '../../utils/paymentTerms';
+import { TemplateProps, GstSummaryTable, UpiQrCode, AmountInWords, BankDetailsList, getTotalsRows, hasBankDetails, hasUpiQrCode, BaseCurrencyTotals, PaidWatermark, getPaymentRows, EInvoiceDetails } from './shared';
+
+const cellClass = 'border border-gray-800 p-2';
+
+export const ClassicGstTemplate = forwardRef<HTMLDivElement, TemplateProps>(({ invoice, calculations }, ref) => {
+    const { total, taxByRate, taxByHsn } = calculations;
+    const isIntraState = calculations.taxTreatment === 'intra-state';
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    const originalInvoiceLabel = getOriginalInvoiceLabel(invoice);
+    const paymentTermsText = getPaymentTermsText(invoice);
+
+    return (
+        <div ref={ref} id="invoice-preview" className="relative p-8 bg-white font-serif text-gray-900 max-w-4xl mx-auto text-sm">
+            <h1 className="text-center text-xl font-bold uppercase tracking-wide mb-3">{invoice.invoiceType}</h1>
+            {originalInvoiceLabel && <p className="text-center -mt-2 mb-3">{originalInvoiceLabel}</p>}
+            <EInvoiceDetails invoice={invoice} qrSize={104} className="mb-3" />
+            <div className="border border-gray-800">
+                <header className="grid grid-cols-2 border-b border-gray-800">
+                    <div className="p-3 border-r border-gray-800">
+                        {invoice.logo && <img src={invoice.logo} alt="Company Logo" className="h-14 w-auto mb-2" />}
+                        <h2 className="text-lg font-bold">{invoice.business.name || 'Your Business Name'}</h2>
+                        <p className="whitespace-pre-line">{invoice.business.address || 'Your Address'}</p>
+                        <p>{invoice.business.email || 'your.email@example.com'}</p>
+                        {invoice.business.gstin && <p><span className="font-semibold">GSTIN:</span> {invoice.business.gstin}</p>}
+                    </div>
+                    <dl className="grid grid-cols-2 content-start">
+                        <dt className="p-2 border-b border-r border-gray-800 font-semibold">Number</dt>
+                        <dd className="p-2 border-b border-gray-800">{invoice.invoiceNumber}</dd>
+                        <dt className="p-2 border-b border-r border-gray-800 font-semibold">Date</dt>
+                        <dd className="p-2 border-b border-gray-800">{invoice.date}</dd>
+                        <dt className="p-2 border-b border-r border-gray-800 font-semibold">Due Date</dt>
+                        <dd className="p-2 border-b border-gray-800">{invoice.dueDate}</dd>
+                        {paymentTermsText && (
+                            <>
+                                <dt className="p-2 border-b border-r border-gray-800 font-semibold">Terms</dt>
+                                <dd className="p-2 border-b border-gray-800">{paymentTermsText}</dd>
+                            </>
+                        )}
+                        <dt className="p-2 border-r border-gray-800 font-semibold">Place of Supply</dt>
+                        <dd className="p-2">{placeOfSupply ? `${placeOfSupply} - ${getStateName(placeOfSupply)}` : '—'}</dd>
+                    </dl>
+                </header>
+
+                <section className="p-3 border-b border-gray-800">
+                    <h3 className="text-xs font-bold uppercase mb-1">Bill To</h3>
+                    <p className="font-bold">{invoice.client.name || 'Client Name'}</p>
+                    <p className="whitespace-pre-line">{invoice.client.address || 'Client Address'}</p>
+                    <p>{invoice.client.email || 'client.email@example.com'}</p>
+                    {invoice.client.gstin && <p><span className="font-semibold">{getTaxIdLabel(invoice.client.gstin)}:</span> {invoice.client.gstin}</p>}
+                </section>
+
+                <table className="w-full text-left border-collapse">
+                    <thead className="bg-gray-100 text-xs uppercase">
+                        <tr>
+                            <th scope="col" className={`${cellClass} border-l-0 text-center w-10`}>#</th>
+                            <th scope="col" className={cellClass}>Item</th>
+                            <th scope="col" className={`${cellClass} text-center`}>HSN/SAC</th>
+                            <th scope="col" className={`${cellClass} text-center`}>Qty</th>
+                            <th scope="col" className={`${cellClass} text-right`}>Price</th>
+                            <th scope="col" className={`${cellClass} text-right`}>Tax</th>
+                            <th scope="col" className={`${cellClass} border-r-0 text-right`}>Total</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {invoice.items.map((item, index) => (
+                            <tr key={item.id}>
+                                <td className={`${cellClass} border-l-0 text-center`}>{index + 1}</td>
+                                <td className={cellClass}>{item.description}</td>
+                                <td className={`${cellClass} text-center`}>{item.hsn}</td>
+                                <td className={`${cellClass} text-center`}>{item.quantity}{item.unit ? ` ${item.unit}` : ''}</td>
+                                <td className={`${cellClass} text-right`}>{formatCurrency(item.price, invoice.currency)}</td>
+                                <td className={`${cellClass} text-right`}>{item.taxRate || 0}%</td>
+                                <td className={`${cellClass} border-r-0 text-right`}>{formatCurrency(calculations.lines[index].amount, invoice.currency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <div className="grid grid-cols-2">
+                    <div className="border-r border-gray-800">
+                        <AmountInWords invoice={invoice} total={total} className="p-3 border-b border-gray-800" />
+                        {hasBankDetails(invoice) && (
+                            <div className="p-3">
+                                <h4 className="text-xs font-bold uppercase mb-1">Bank Details</h4>
+                                <BankDetailsList invoice={invoice} />
+                            </div>
+                        )}
+                    </div>
+                    <table className="w-full border-collapse self-start">
+                        <tbody>
+                            {getTotalsRows(invoice, calculations).map(([label, value]) => (
+                                <tr key={label}>
+                                    <td className="p-2 border-b border-r border-gray-800">{label}</td>
+                                    <td className="p-2 border-b border-gray-800 text-right">{value}</td>
+                                </tr>
+                            ))}
+                            <tr className="font-bold bg-gray-100">
+                                <td className="p-2 border-r border-gray-800">Total</td>
+                                <td className="p-2 text-right">{formatCurrency(total, invoice.currency)}</td>
+                            </tr>
+                            {getPaymentRows(invoice, total).map(([label, value]) => (
+                                <tr key={label}>
+                                    <td className="p-2 border-t border-r border-gray-800">{label}</td>
+                                    <td className="p-2 border-t border-gray-800 text-right">{value}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <BaseCurrencyTotals invoice={invoice} calculations={calculations} className="p-3 border-t border-gray-800 text-xs space-y-1" />
+
+                {hasGstSummary(calculations) && (
+                    <section className="p-3 space-y-4 border-t border-gray-800">
+                        <GstSummaryTable title="GST Summary by Rate" rows={taxByRate} showHsn={false} invoice={invoice} isIntraState={isIntraState} tableClassName="border border-gray-800" />
+                        <GstSummaryTable title="GST Summary by HSN/SAC" rows={taxByHsn} showHsn={true} invoice={invoice} isIntraState={isIntraState} tableClassName="border border-gray-800" />
+                    </section>
+                )}
+
+                <div className="grid grid-cols-3 border-t border-gray-800">
+                    <div className="col-span-2 p-3 border-r border-gray-800">
+                        <h4 className="text-xs font-bold uppercase mb-1">Notes / Terms & Conditions</h4>
+                        <p className="whitespace-pre-line">{invoice.notes}</p>
+                    </div>
+                    <div className="p-3 text-center">
+                        {hasUpiQrCode(invoice, total) && (
+                            <>
+                                <h4 className="text-xs font-bold uppercase mb-2">Scan to Pay</h4>
+                                <UpiQrCode invoice={invoice} total={total} size={104} />
+                            </>
+                        )}
+                        <p className="mt-10 border-t border-gray-800 pt-1 text-xs">Authorised Signatory</p>
+                    </div>
+                </div>
+            </div>
+            <PaidWatermark invoice={invoice} total={total} />
+        </div>
+    );
+});
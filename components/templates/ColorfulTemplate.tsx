@@ -0,0 +1,148 @@
+import React, { forwardRef } from 'react';
+import { formatCurrency, getContrastColor } from '../../utils/format';
+import { hasGstSummary } from '../../utils/calculations';
+import { getPlaceOfSupply, getTaxIdLabel } from '../../utils/gst';
+import { getStateName } from '../../utils/indianStates';
+import { getOriginalInvoiceLabel } from '../../utils/notes';
+import { getPaymentTermsText } from '../../utils/paymentTerms';
+import { TemplateProps, GstSummaryTable, UpiQrCode, AmountInWords, BankDetailsList, getTotalsRows, hasBankDetails, hasUpiQrCode, BaseCurrencyTotals, PaidWatermark, getPaymentRows, EInvoiceDetails } from './shared';
+
+export const ColorfulTemplate = forwardRef<HTMLDivElement, TemplateProps>(({ invoice, calculations }, ref) => {
+    const { total, taxByRate, taxByHsn } = calculations;
+    const isIntraState = calculations.taxTreatment === 'intra-state';
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    const originalInvoiceLabel = getOriginalInvoiceLabel(invoice);
+    const paymentTermsText = getPaymentTermsText(invoice);
+
+    const themeColor = invoice.themeColor || '#10B981';
+    const contrastColor = getContrastColor(themeColor);
+
+    return (
+        <div ref={ref} id="invoice-preview" className="relative p-10 bg-white font-sans text-gray-800 max-w-4xl mx-auto">
+            <header className="flex justify-between items-start pb-6 border-b-2 border-gray-100">
+                <div>
+                    {invoice.logo && <img src={invoice.logo} alt="Company Logo" className="h-20 w-auto mb-4" />}
+                    <h2 className="text-2xl font-bold text-gray-900">{invoice.business.name || 'Your Business Name'}</h2>
+                    <p className="text-sm text-gray-600 whitespace-pre-line">{invoice.business.address || 'Your Address'}</p>
+                    <p className="text-sm text-gray-600">{invoice.business.email || 'your.email@example.com'}</p>
+                    {invoice.business.gstin && <p className="text-sm text-gray-600"><span className="font-semibold">GSTIN:</span> {invoice.business.gstin}</p>}
+                </div>
+                <div className="text-right">
+                    <h1 className="text-4xl font-bold uppercase" style={{ color: themeColor }}>{invoice.invoiceType}</h1>
+                    <p className="text-sm text-gray-600 mt-2"># {invoice.invoiceNumber}</p>
+                    {originalInvoiceLabel && <p className="text-sm text-gray-600">{originalInvoiceLabel}</p>}
+                </div>
+            </header>
+
+            <EInvoiceDetails invoice={invoice} />
+
+            <section className="grid grid-cols-2 gap-4 mt-8">
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Bill To</h3>
+                    <p className="font-bold text-lg text-gray-900">{invoice.client.name || 'Client Name'}</p>
+                    <p className="text-sm text-gray-600 whitespace-pre-line">{invoice.client.address || 'Client Address'}</p>
+                    <p className="text-sm text-gray-600">{invoice.client.email || 'client.email@example.com'}</p>
+                    {invoice.client.gstin && <p className="text-sm text-gray-600"><span className="font-semibold">{getTaxIdLabel(invoice.client.gstin)}:</span> {invoice.client.gstin}</p>}
+                </div>
+                <div className="text-right">
+                     <div className="grid grid-cols-2">
+                        <span className="font-semibold text-gray-700">Date:</span>
+                        <span className="text-gray-800">{invoice.date}</span>
+                    </div>
+                    <div className="grid grid-cols-2 mt-1">
+                         <span className="font-semibold text-gray-700">Due Date:</span>
+                        <span className="text-gray-800">{invoice.dueDate}</span>
+                    </div>
+                    {paymentTermsText && (
+                        <div className="grid grid-cols-2 mt-1">
+                            <span className="font-semibold text-gray-700">Terms:</span>
+                            <span className="text-gray-800">{paymentTermsText}</span>
+                        </div>
+                    )}
+                    {invoice.invoiceType === 'Tax Invoice' && placeOfSupply && (
+                        <div className="grid grid-cols-2 mt-1">
+                            <span className="font-semibold text-gray-700">Place of Supply:</span>
+                            <span className="text-gray-800">{placeOfSupply} - {getStateName(placeOfSupply)}</span>
+                        </div>
+                    )}
+                </div>
+            </section>
+            
+            <section className="mt-10">
+                <table className="w-full text-left">
+                    <thead style={{ backgroundColor: themeColor, color: contrastColor }}>
+                        <tr>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider">Item</th>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider text-center">HSN/SAC</th>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider text-center">Qty</th>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider text-right">Price</th>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider text-right">Tax</th>
+                            <th scope="col" className="p-3 text-sm font-semibold uppercase tracking-wider text-right">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {invoice.items.map((item, index) => (
+                            <tr key={item.id}>
+                                <td className="p-3 text-gray-800">{item.description}</td>
+                                <td className="p-3 text-center text-gray-800">{item.hsn}</td>
+                                <td className="p-3 text-center text-gray-800">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</td>
+                                <td className="p-3 text-right text-gray-800">{formatCurrency(item.price, invoice.currency)}</td>
+                                <td className="p-3 text-right text-gray-800">{item.taxRate || 0}%</td>
+                                <td className="p-3 text-right font-medium text-gray-800">{formatCurrency(calculations.lines[index].amount, invoice.currency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+            
+            <section className="flex justify-end mt-8">
+                <div className="w-full max-w-sm space-y-2 text-sm">
+                    {getTotalsRows(invoice, calculations).map(([label, value]) => (
+                        <div key={label} className="flex justify-between"><span className="text-gray-600">{label}:</span><span className="font-medium text-gray-800">{value}</span></div>
+                    ))}
+                    <div className="flex justify-between items-center p-3 mt-2 rounded-md" style={{ backgroundColor: themeColor, color: contrastColor }}><span className="font-bold text-lg">Total:</span><span className="font-bold text-lg">{formatCurrency(total, invoice.currency)}</span></div>
+                    {getPaymentRows(invoice, total).map(([label, value]) => (
+                        <div key={label} className="flex justify-between"><span className="text-gray-600">{label}:</span><span className="font-semibold text-gray-800">{value}</span></div>
+                    ))}
+                    <BaseCurrencyTotals invoice={invoice} calculations={calculations} />
+                </div>
+            </section>
+            
+            {hasGstSummary(calculations) && (
+                <section className="mt-8 space-y-4 text-sm">
+                    <GstSummaryTable title="GST Summary by Rate" rows={taxByRate} showHsn={false} invoice={invoice} isIntraState={isIntraState} />
+                    <GstSummaryTable title="GST Summary by HSN/SAC" rows={taxByHsn} showHsn={true} invoice={invoice} isIntraState={isIntraState} />
+                </section>
+            )}
+
+            <AmountInWords invoice={invoice} total={total} />
+
+            {invoice.notes && (
+                <section className="mt-8 text-sm text-gray-600">
+                    <h4 className="font-semibold text-gray-800 mb-2">Notes / Terms & Conditions:</h4>
+                    <p className="whitespace-pre-line">{invoice.notes}</p>
+                </section>
+            )}
+
+            <div className="mt-12 border-t pt-6 text-sm text-gray-600">
+                <div className="flex justify-between items-start">
+                    {hasBankDetails(invoice) && (
+                        <div>
+                            <h4 className="font-semibold text-gray-800 mb-1">Bank Details:</h4>
+                            <BankDetailsList invoice={invoice} />
+                        </div>
+                    )}
+                    {hasUpiQrCode(invoice, total) && (
+                        <div className="text-center ml-4">
+                             <h4 className="font-semibold text-gray-800 mb-2">Scan to Pay</h4>
+                             <UpiQrCode invoice={invoice} total={total} />
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <footer className="mt-16 text-center text-xs text-gray-400 border-t pt-4"><p>Thank you for your business!</p></footer>
+            <PaidWatermark invoice={invoice} total={total} />
+        </div>
+    );
+});
@@ -0,0 +1,106 @@
+import React, { forwardRef } from 'react';
+import { formatCurrency } from '../../utils/format';
+import { hasGstSummary } from '../../utils/calculations';
+import { getPlaceOfSupply, getTaxIdLabel } from '../../utils/gst';
+import { getStateName } from '../../utils/indianStates';
+import { getOriginalInvoiceLabel } from '../../utils/notes';
+import { getPaymentTermsText } from '../../utils/paymentTerms';
+import { TemplateProps, GstSummaryTable, UpiQrCode, AmountInWords, BankDetailsList, getTotalsRows, hasBankDetails, hasUpiQrCode, BaseCurrencyTotals, PaidWatermark, getPaymentRows, EInvoiceDetails } from './shared';
+
+// Narrow single-column receipt; the HSN-wise summary is left out to keep it short
+export const CompactTemplate = forwardRef<HTMLDivElement, TemplateProps>(({ invoice, calculations }, ref) => {
+    const { total, taxByRate } = calculations;
+    const isIntraState = calculations.taxTreatment === 'intra-state';
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    const originalInvoiceLabel = getOriginalInvoiceLabel(invoice);
+    const paymentTermsText = getPaymentTermsText(invoice);
+
+    return (
+        <div ref={ref} id="invoice-preview" className="relative p-5 bg-white font-sans text-gray-900 max-w-sm mx-auto text-xs">
+            <header className="text-center pb-3 border-b border-dashed border-gray-400">
+                {invoice.logo && <img src={invoice.logo} alt="Company Logo" className="h-10 w-auto mx-auto mb-2" />}
+                <h2 className="text-base font-bold">{invoice.business.name || 'Your Business Name'}</h2>
+                <p className="whitespace-pre-line text-gray-600">{invoice.business.address || 'Your Address'}</p>
+                {invoice.business.gstin && <p>GSTIN: {invoice.business.gstin}</p>}
+                <h1 className="mt-2 font-bold uppercase tracking-wider">{invoice.invoiceType}</h1>
+            </header>
+
+            <EInvoiceDetails invoice={invoice} qrSize={96} className="py-2 border-b border-dashed border-gray-400" />
+
+            <section className="py-2 border-b border-dashed border-gray-400 space-y-0.5">
+                <div className="flex justify-between"><span>No.</span><span>{invoice.invoiceNumber}</span></div>
+                <div className="flex justify-between"><span>Date</span><span>{invoice.date}</span></div>
+                {originalInvoiceLabel && <p>{originalInvoiceLabel}</p>}
+                {invoice.dueDate && <div className="flex justify-between"><span>Due</span><span>{invoice.dueDate}</span></div>}
+                {paymentTermsText && <div className="flex justify-between"><span>Terms</span><span className="text-right">{paymentTermsText}</span></div>}
+                {invoice.invoiceType === 'Tax Invoice' && placeOfSupply && (
+                    <div className="flex justify-between"><span>Place of Supply</span><span>{placeOfSupply} - {getStateName(placeOfSupply)}</span></div>
+                )}
+                <div className="pt-1">
+                    <span className="font-semibold">To: </span>{invoice.client.name || 'Client Name'}
+                    {invoice.client.gstin && <span className="block">{getTaxIdLabel(invoice.client.gstin)}: {invoice.client.gstin}</span>}
+                </div>
+            </section>
+
+            <table className="w-full text-left my-2">
+                <thead className="border-b border-gray-400">
+                    <tr>
+                        <th scope="col" className="py-1 font-semibold">Item</th>
+                        <th scope="col" className="py-1 font-semibold text-right">Qty</th>
+                        <th scope="col" className="py-1 font-semibold text-right">Amount</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {invoice.items.map((item, index) => (
+                        <tr key={item.id} className="align-top">
+                            <td className="py-1">
+                                {item.description}
+                                <span className="block text-gray-500">
+                                    {formatCurrency(item.price, invoice.currency)}{item.hsn ? ` · HSN ${item.hsn}` : ''} · {item.taxRate || 0}%
+                                </span>
+                            </td>
+                            <td className="py-1 text-right">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</td>
+                            <td className="py-1 text-right">{formatCurrency(calculations.lines[index].amount, invoice.currency)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <section className="border-t border-dashed border-gray-400 pt-2 space-y-0.5">
+                {getTotalsRows(invoice, calculations).map(([label, value]) => (
+                    <div key={label} className="flex justify-between"><span>{label}</span><span>{value}</span></div>
+                ))}
+                <div className="flex justify-between font-bold text-sm border-t border-gray-900 pt-1 mt-1"><span>Total</span><span>{formatCurrency(total, invoice.currency)}</span></div>
+                {getPaymentRows(invoice, total).map(([label, value]) => (
+                    <div key={label} className="flex justify-between"><span>{label}</span><span>{value}</span></div>
+                ))}
+                <BaseCurrencyTotals invoice={invoice} calculations={calculations} className="mt-2 text-gray-600 space-y-0.5" />
+            </section>
+
+            {hasGstSummary(calculations) && (
+                <section className="mt-3">
+                    <GstSummaryTable title="GST Summary" rows={taxByRate} showHsn={false} invoice={invoice} isIntraState={isIntraState} tableClassName="border-t border-b border-gray-300" />
+                </section>
+            )}
+
+            <AmountInWords invoice={invoice} total={total} className="mt-3" />
+
+            {hasBankDetails(invoice) && (
+                <section className="mt-3 text-gray-700">
+                    <BankDetailsList invoice={invoice} />
+                </section>
+            )}
+
+            {hasUpiQrCode(invoice, total) && (
+                <section className="mt-3 flex flex-col items-center">
+                    <h4 className="font-semibold mb-1">Scan to Pay</h4>
+                    <UpiQrCode invoice={invoice} total={total} size={96} />
+                </section>
+            )}
+
+            {invoice.notes && <p className="mt-3 whitespace-pre-line text-gray-600">{invoice.notes}</p>}
+            <p className="mt-3 text-center text-gray-500 border-t border-dashed border-gray-400 pt-2">Thank you for your business!</p>
+            <PaidWatermark invoice={invoice} total={total} />
+        </div>
+    );
+});
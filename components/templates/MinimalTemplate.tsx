@@ -0,0 +1,139 @@
+import React, { forwardRef } from 'react';
+import { formatCurrency } from '../../utils/format';
+import { hasGstSummary } from '../../utils/calculations';
+import { getPlaceOfSupply, getTaxIdLabel } from '../../utils/gst';
+import { getStateName } from '../../utils/indianStates';
+import { getOriginalInvoiceLabel } from '../../utils/notes';
+import { getPaymentTermsText } from '../../utils/paymentTerms';
+import { TemplateProps, GstSummaryTable, UpiQrCode, AmountInWords, BankDetailsList, getTotalsRows, hasBankDetails, hasUpiQrCode, BaseCurrencyTotals, PaidWatermark, getPaymentRows, EInvoiceDetails } from './shared';
+
+export const MinimalTemplate = forwardRef<HTMLDivElement, TemplateProps>(({ invoice, calculations }, ref) => {
+    const { total, taxByRate, taxByHsn } = calculations;
+    const isIntraState = calculations.taxTreatment === 'intra-state';
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    const originalInvoiceLabel = getOriginalInvoiceLabel(invoice);
+    const paymentTermsText = getPaymentTermsText(invoice);
+
+    return (
+        <div ref={ref} id="invoice-preview" className="relative p-12 bg-white font-sans text-gray-900 max-w-4xl mx-auto">
+            <header className="flex justify-between items-start pb-6 border-b border-gray-900">
+                <div>
+                    {invoice.logo && <img src={invoice.logo} alt="Company Logo" className="h-16 w-auto mb-4 grayscale" />}
+                    <h2 className="text-xl font-semibold">{invoice.business.name || 'Your Business Name'}</h2>
+                    <p className="text-sm text-gray-600 whitespace-pre-line">{invoice.business.address || 'Your Address'}</p>
+                    <p className="text-sm text-gray-600">{invoice.business.email || 'your.email@example.com'}</p>
+                    {invoice.business.gstin && <p className="text-sm text-gray-600">GSTIN {invoice.business.gstin}</p>}
+                </div>
+                <div className="text-right">
+                    <h1 className="text-2xl font-light uppercase tracking-widest">{invoice.invoiceType}</h1>
+                    <p className="text-sm text-gray-600 mt-2">{invoice.invoiceNumber}</p>
+                    {originalInvoiceLabel && <p className="text-sm text-gray-600">{originalInvoiceLabel}</p>}
+                </div>
+            </header>
+
+            <EInvoiceDetails invoice={invoice} />
+
+            <section className="grid grid-cols-2 gap-4 mt-8 text-sm">
+                <div>
+                    <h3 className="text-xs text-gray-500 uppercase tracking-widest mb-2">Bill To</h3>
+                    <p className="font-semibold">{invoice.client.name || 'Client Name'}</p>
+                    <p className="text-gray-600 whitespace-pre-line">{invoice.client.address || 'Client Address'}</p>
+                    <p className="text-gray-600">{invoice.client.email || 'client.email@example.com'}</p>
+                    {invoice.client.gstin && <p className="text-gray-600">{getTaxIdLabel(invoice.client.gstin)} {invoice.client.gstin}</p>}
+                </div>
+                <dl className="grid grid-cols-2 gap-y-1 text-right">
+                    <dt className="text-gray-500">Date</dt>
+                    <dd>{invoice.date}</dd>
+                    <dt className="text-gray-500">Due Date</dt>
+                    <dd>{invoice.dueDate}</dd>
+                    {paymentTermsText && (
+                        <>
+                            <dt className="text-gray-500">Terms</dt>
+                            <dd>{paymentTermsText}</dd>
+                        </>
+                    )}
+                    {invoice.invoiceType === 'Tax Invoice' && placeOfSupply && (
+                        <>
+                            <dt className="text-gray-500">Place of Supply</dt>
+                            <dd>{placeOfSupply} - {getStateName(placeOfSupply)}</dd>
+                        </>
+                    )}
+                </dl>
+            </section>
+
+            <section className="mt-10">
+                <table className="w-full text-left text-sm">
+                    <thead className="border-b border-gray-900 text-xs uppercase tracking-widest">
+                        <tr>
+                            <th scope="col" className="py-2 font-medium">Item</th>
+                            <th scope="col" className="py-2 font-medium text-center">HSN/SAC</th>
+                            <th scope="col" className="py-2 font-medium text-center">Qty</th>
+                            <th scope="col" className="py-2 font-medium text-right">Price</th>
+                            <th scope="col" className="py-2 font-medium text-right">Tax</th>
+                            <th scope="col" className="py-2 font-medium text-right">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {invoice.items.map((item, index) => (
+                            <tr key={item.id}>
+                                <td className="py-2">{item.description}</td>
+                                <td className="py-2 text-center">{item.hsn}</td>
+                                <td className="py-2 text-center">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</td>
+                                <td className="py-2 text-right">{formatCurrency(item.price, invoice.currency)}</td>
+                                <td className="py-2 text-right">{item.taxRate || 0}%</td>
+                                <td className="py-2 text-right">{formatCurrency(calculations.lines[index].amount, invoice.currency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+
+            <section className="flex justify-end mt-8">
+                <div className="w-full max-w-xs space-y-1 text-sm">
+                    {getTotalsRows(invoice, calculations).map(([label, value]) => (
+                        <div key={label} className="flex justify-between"><span className="text-gray-600">{label}</span><span>{value}</span></div>
+                    ))}
+                    <div className="flex justify-between border-t border-gray-900 pt-2 mt-2 font-semibold text-base"><span>Total</span><span>{formatCurrency(total, invoice.currency)}</span></div>
+                    {getPaymentRows(invoice, total).map(([label, value]) => (
+                        <div key={label} className="flex justify-between"><span className="text-gray-600">{label}</span><span>{value}</span></div>
+                    ))}
+                    <BaseCurrencyTotals invoice={invoice} calculations={calculations} />
+                </div>
+            </section>
+
+            {hasGstSummary(calculations) && (
+                <section className="mt-8 space-y-4 text-sm">
+                    <GstSummaryTable title="GST Summary by Rate" rows={taxByRate} showHsn={false} invoice={invoice} isIntraState={isIntraState} tableClassName="border-t border-b border-gray-300" />
+                    <GstSummaryTable title="GST Summary by HSN/SAC" rows={taxByHsn} showHsn={true} invoice={invoice} isIntraState={isIntraState} tableClassName="border-t border-b border-gray-300" />
+                </section>
+            )}
+
+            <AmountInWords invoice={invoice} total={total} className="mt-8 text-sm" />
+
+            {invoice.notes && (
+                <section className="mt-8 text-sm text-gray-600">
+                    <h4 className="text-xs text-gray-500 uppercase tracking-widest mb-2">Notes / Terms & Conditions</h4>
+                    <p className="whitespace-pre-line">{invoice.notes}</p>
+                </section>
+            )}
+
+            {(hasBankDetails(invoice) || hasUpiQrCode(invoice, total)) && (
+                <div className="mt-10 border-t border-gray-300 pt-6 text-sm text-gray-600 flex justify-between items-start">
+                    {hasBankDetails(invoice) && (
+                        <div>
+                            <h4 className="text-xs text-gray-500 uppercase tracking-widest mb-1">Bank Details</h4>
+                            <BankDetailsList invoice={invoice} />
+                        </div>
+                    )}
+                    {hasUpiQrCode(invoice, total) && (
+                        <div className="text-center ml-4">
+                            <h4 className="text-xs text-gray-500 uppercase tracking-widest mb-2">Scan to Pay</h4>
+                            <UpiQrCode invoice={invoice} total={total} size={112} />
+                        </div>
+                    )}
+                </div>
+            )}
+            <PaidWatermark invoice={invoice} total={total} />
+        </div>
+    );
+});
@@ -0,0 +1,180 @@
+import React, { useRef, useEffect } from 'react';
+import { Invoice } from '../../types';
+import { formatCurrency } from '../../utils/format';
+import { toWords } from '../../utils/amountInWords';
+import { buildUpiPaymentUri, hasUpiPayment } from '../../utils/upi';
+import { InvoiceCalculations, TaxSummaryRow } from '../../utils/calculations';
+import { BASE_CURRENCY, getCurrency } from '../../utils/currencies';
+import { getBaseAmounts, isForeignCurrency } from '../../utils/exchangeRates';
+import { getBalanceDue, getInvoiceStatus, getSettlementRows } from '../../utils/payments';
+
+declare const QRious: any;
+
+export interface TemplateProps {
+    invoice: Invoice;
+    calculations: InvoiceCalculations;
+}
+
+export const hasUpiQrCode = (invoice: Invoice, total: number): boolean => hasUpiPayment(invoice, total);
+
+export const hasBankDetails = (invoice: Invoice): boolean => Boolean(invoice.bankDetails.bankName || invoice.bankDetails.accountNumber);
+
+// Label/amount pairs between the subtotal and the grand total, shared so every template lists the same lines
+export const getTotalsRows = (invoice: Invoice, calculations: InvoiceCalculations): [string, string][] => {
+    const { subtotal, discountAmount, cgstAmount, sgstAmount, igstAmount, genericTaxAmount, roundOff } = calculations;
+    const rows: [string, string][] = [
+        ['Subtotal', formatCurrency(subtotal, invoice.currency)],
+        [`Discount (${invoice.discountRate}%)`, `-${formatCurrency(discountAmount, invoice.currency)}`],
+    ];
+    if (cgstAmount > 0) rows.push(['CGST', formatCurrency(cgstAmount, invoice.currency)]);
+    if (sgstAmount > 0) rows.push(['SGST', formatCurrency(sgstAmount, invoice.currency)]);
+    if (igstAmount > 0) rows.push(['IGST', formatCurrency(igstAmount, invoice.currency)]);
+    if (genericTaxAmount > 0) rows.push(['Tax', formatCurrency(genericTaxAmount, invoice.currency)]);
+    if (roundOff !== 0) rows.push(['Round Off', `${roundOff < 0 ? '-' : '+'}${formatCurrency(Math.abs(roundOff), invoice.currency)}`]);
+    return rows;
+};
+
+export const getPaymentRows = (invoice: Invoice, total: number): [string, string][] =>
+    getSettlementRows(invoice, total).map(row => [row.label, `${row.isDeduction ? '-' : ''}${formatCurrency(row.amount, invoice.currency)}`]);
+
+// Sits over the whole page, so the template's root element needs to be positioned
+export const PaidWatermark: React.FC<{ invoice: Invoice; total: number }> = ({ invoice, total }) => {
+    if (!invoice.showPaidWatermark || getInvoiceStatus(invoice, total) !== 'Paid') return null;
+    return (
+        <div aria-hidden="true" className="pointer-events-none absolute inset-0 flex items-center justify-center overflow-hidden">
+            <span className="-rotate-[30deg] select-none rounded-xl border-8 border-green-600/20 px-10 py-2 text-8xl font-extrabold tracking-widest text-green-600/20">PAID</span>
+        </div>
+    );
+};
+
+// Foreign-currency invoices repeat the tax and total in the base currency at the invoice's exchange rate
+export const BaseCurrencyTotals: React.FC<TemplateProps & { className?: string }> = ({ invoice, calculations, className = 'mt-3 text-xs text-gray-600 space-y-1' }) => {
+    const base = isForeignCurrency(invoice) ? getBaseAmounts(invoice, calculations) : undefined;
+    if (!base) return null;
+    const rows: [string, number][] = [['Taxable Value', base.taxableAmount]];
+    if (base.cgstAmount > 0) rows.push(['CGST', base.cgstAmount]);
+    if (base.sgstAmount > 0) rows.push(['SGST', base.sgstAmount]);
+    if (base.igstAmount > 0) rows.push(['IGST', base.igstAmount]);
+    if (base.genericTaxAmount > 0) rows.push(['Tax', base.genericTaxAmount]);
+    rows.push(['Total', base.total]);
+    return (
+        <div className={className}>
+            <p className="font-semibold text-gray-700">
+                In {BASE_CURRENCY} at 1 {invoice.currency} = {getCurrency(BASE_CURRENCY).symbol}{base.exchangeRate}{base.rateDate ? ` (${base.rateDate})` : ''}
+            </p>
+            {rows.map(([label, amount]) => (
+                <div key={label} className="flex justify-between"><span>{label}</span><span>{formatCurrency(amount, BASE_CURRENCY)}</span></div>
+            ))}
+        </div>
+    );
+};
+
+// Drawn on a canvas with QRious; 'H' error correction suits short payloads, long ones such as signed JWTs need a lower level to fit
+const QrCanvas: React.FC<{ value: string; size: number; level?: 'L' | 'M' | 'Q' | 'H' }> = ({ value, size, level = 'H' }) => {
+    const qrCodeRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        if (qrCodeRef.current && value && typeof QRious !== 'undefined') {
+            new QRious({
+                element: qrCodeRef.current,
+                value,
+                size,
+                level,
+            });
+        }
+    }, [value, size, level]);
+
+    if (!value) return null;
+    return <canvas ref={qrCodeRef}></canvas>;
+};
+
+export const UpiQrCode: React.FC<{ invoice: Invoice; total: number; size?: number }> = ({ invoice, total, size = 128 }) => (
+    <QrCanvas value={hasUpiQrCode(invoice, total) ? buildUpiPaymentUri(invoice, getBalanceDue(invoice, total)) : ''} size={size} />
+);
+
+// IRN and acknowledgement of a registered e-invoice, with the signed QR code the portal issued
+export const EInvoiceDetails: React.FC<{ invoice: Invoice; qrSize?: number; className?: string }> = ({ invoice, qrSize = 112, className = 'mt-6' }) => {
+    const { eInvoice } = invoice;
+    if (!eInvoice) return null;
+    return (
+        <section className={`flex items-center justify-between gap-4 text-xs text-gray-700 ${className}`}>
+            <dl className="min-w-0 space-y-0.5">
+                <div><dt className="inline font-semibold">IRN: </dt><dd className="inline break-all">{eInvoice.irn}</dd></div>
+                {eInvoice.ackNumber && <div><dt className="inline font-semibold">Ack No.: </dt><dd className="inline">{eInvoice.ackNumber}</dd></div>}
+                {eInvoice.ackDate && <div><dt className="inline font-semibold">Ack Date: </dt><dd className="inline">{eInvoice.ackDate}</dd></div>}
+            </dl>
+            <div className="shrink-0">
+                <QrCanvas value={eInvoice.signedQrCode} size={qrSize} level="M" />
+            </div>
+        </section>
+    );
+};
+
+export const AmountInWords: React.FC<{ invoice: Invoice; total: number; className?: string }> = ({ invoice, total, className = 'mt-8 bg-gray-50 p-4 rounded-md text-sm' }) => (
+    <section className={className}>
+        <p className="font-semibold text-gray-600">Amount in words:</p>
+        <p className="font-medium italic text-gray-800 mt-1" lang={invoice.wordsLanguage}>{toWords(total, invoice.currency, invoice.wordsLanguage)}</p>
+    </section>
+);
+
+export const BankDetailsList: React.FC<{ invoice: Invoice }> = ({ invoice }) => (
+    <>
+        <p><strong>Account Holder:</strong> {invoice.bankDetails.name}</p>
+        <p><strong>Account Number:</strong> {invoice.bankDetails.accountNumber}</p>
+        <p><strong>Bank Name:</strong> {invoice.bankDetails.bankName}</p>
+        <p><strong>IFSC Code:</strong> {invoice.bankDetails.ifscCode}</p>
+    </>
+);
+
+export const GstSummaryTable: React.FC<{ title: string; rows: TaxSummaryRow[]; showHsn: boolean; invoice: Invoice; isIntraState: boolean; tableClassName?: string }> = ({
+    title,
+    rows,
+    showHsn,
+    invoice,
+    isIntraState,
+    tableClassName = 'border border-gray-200'
+}) => {
+    const cellClass = 'p-2 text-right text-gray-800';
+    const sum = (pick: (row: TaxSummaryRow) => number) => rows.reduce((acc, row) => acc + pick(row), 0);
+    return (
+        <div>
+            <h4 className="font-semibold text-gray-800 mb-2">{title}</h4>
+            <table className={`w-full text-left text-xs ${tableClassName}`}>
+                <thead className="bg-gray-50 text-gray-600 uppercase tracking-wider">
+                    <tr>
+                        {showHsn && <th scope="col" className="p-2">HSN/SAC</th>}
+                        <th scope="col" className="p-2 text-right">Rate</th>
+                        <th scope="col" className="p-2 text-right">Taxable Value</th>
+                        {isIntraState && <th scope="col" className="p-2 text-right">CGST</th>}
+                        {isIntraState && <th scope="col" className="p-2 text-right">SGST</th>}
+                        {!isIntraState && <th scope="col" className="p-2 text-right">IGST</th>}
+                        <th scope="col" className="p-2 text-right">Total Tax</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {rows.map(row => (
+                        <tr key={`${row.hsn}|${row.taxRate}`}>
+                            {showHsn && <td className="p-2 text-gray-800">{row.hsn || '—'}</td>}
+                            <td className={cellClass}>{row.taxRate}%</td>
+                            <td className={cellClass}>{formatCurrency(row.taxableValue, invoice.currency)}</td>
+                            {isIntraState && <td className={cellClass}>{formatCurrency(row.cgstAmount, invoice.currency)}</td>}
+                            {isIntraState && <td className={cellClass}>{formatCurrency(row.sgstAmount, invoice.currency)}</td>}
+                            {!isIntraState && <td className={cellClass}>{formatCurrency(row.igstAmount, invoice.currency)}</td>}
+                            <td className={`${cellClass} font-medium`}>{formatCurrency(row.taxAmount, invoice.currency)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+                <tfoot className="border-t border-gray-200 font-semibold">
+                    <tr>
+                        <td className="p-2 text-gray-800" colSpan={showHsn ? 2 : 1}>Total</td>
+                        <td className={cellClass}>{formatCurrency(sum(row => row.taxableValue), invoice.currency)}</td>
+                        {isIntraState && <td className={cellClass}>{formatCurrency(sum(row => row.cgstAmount), invoice.currency)}</td>}
+                        {isIntraState && <td className={cellClass}>{formatCurrency(sum(row => row.sgstAmount), invoice.currency)}</td>}
+                        {!isIntraState && <td className={cellClass}>{formatCurrency(sum(row => row.igstAmount), invoice.currency)}</td>}
+                        <td className={cellClass}>{formatCurrency(sum(row => row.taxAmount), invoice.currency)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import { BusinessProfile, Invoice } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord } from './db';
+
+type ProfileFields = Pick<BusinessProfile, 'business' | 'bankDetails' | 'logo' | 'themeColor' | 'notes'>;
+
+// Works on both an invoice and a profile, since they share these fields
+export const pickProfileFields = (source: ProfileFields): ProfileFields => ({
+    business: { ...source.business },
+    bankDetails: { ...source.bankDetails },
+    logo: source.logo,
+    themeColor: source.themeColor,
+    notes: source.notes,
+});
+
+export const createBusinessProfile = (label: string, invoice: Invoice): BusinessProfile => ({
+    id: crypto.randomUUID(),
+    label,
+    ...pickProfileFields(invoice),
+    updatedAt: new Date().toISOString(),
+});
+
+export const listBusinessProfiles = async (): Promise<BusinessProfile[]> => {
+    const records = await getAllRecords<BusinessProfile>(STORES.businessProfiles);
+    return records.sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const saveBusinessProfile = async (profile: BusinessProfile): Promise<BusinessProfile> => {
+    const saved = { ...profile, updatedAt: new Date().toISOString() };
+    await putRecord(STORES.businessProfiles, saved);
+    return saved;
+};
+
+export const deleteBusinessProfile = (id: string): Promise<void> => deleteRecord(STORES.businessProfiles, id);
@@ -0,0 +1,86 @@
+import { CatalogItem } from '../types';
+import { parseCsv } from '../utils/csv';
+import { STORES, getAllRecords, putRecord, putRecords, deleteRecord } from './db';
+
+export const createCatalogItem = (fields: Partial<CatalogItem> = {}): CatalogItem => ({
+    id: crypto.randomUUID(),
+    description: '',
+    price: 0,
+    hsn: '',
+    unit: '',
+    taxRate: 0,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+});
+
+export const listCatalogItems = async (): Promise<CatalogItem[]> => {
+    const records = await getAllRecords<CatalogItem>(STORES.catalog);
+    return records.sort((a, b) => a.description.localeCompare(b.description));
+};
+
+export const saveCatalogItem = async (item: CatalogItem): Promise<CatalogItem> => {
+    const saved = { ...item, updatedAt: new Date().toISOString() };
+    await putRecord(STORES.catalog, saved);
+    return saved;
+};
+
+export const deleteCatalogItem = (id: string): Promise<void> => deleteRecord(STORES.catalog, id);
+
+export const findCatalogItem = (items: CatalogItem[], description: string): CatalogItem | undefined => {
+    const needle = description.trim().toLowerCase();
+    return needle ? items.find(item => item.description.trim().toLowerCase() === needle) : undefined;
+};
+
+// Header names accepted for each catalog column, compared case-insensitively
+const CSV_COLUMNS: Record<'description' | 'price' | 'hsn' | 'unit' | 'taxRate', string[]> = {
+    description: ['description', 'name', 'item', 'product'],
+    price: ['price', 'unit price', 'rate'],
+    hsn: ['hsn', 'sac', 'hsn/sac', 'hsn code'],
+    unit: ['unit', 'uom', 'unit of measure'],
+    taxRate: ['tax rate', 'taxrate', 'gst', 'gst rate', 'tax'],
+};
+
+const parseNumber = (value: string | undefined): number => {
+    const parsed = parseFloat((value ?? '').replace(/[^0-9.\-]/g, ''));
+    return isFinite(parsed) ? parsed : 0;
+};
+
+// Rows matching an existing description update that entry instead of adding a duplicate
+export const importCatalogCsv = async (text: string, existing: CatalogItem[]): Promise<{ imported: number; skipped: number }> => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('The file is empty.');
+
+    const normalizedHeader = header.map(cell => cell.trim().toLowerCase());
+    const columnIndex = Object.fromEntries(
+        Object.entries(CSV_COLUMNS).map(([key, aliases]) => [key, normalizedHeader.findIndex(cell => aliases.includes(cell))])
+    ) as Record<keyof typeof CSV_COLUMNS, number>;
+    if (columnIndex.description === -1) {
+        throw new Error('The file needs a "description" column.');
+    }
+
+    const cell = (row: string[], key: keyof typeof CSV_COLUMNS) =>
+        columnIndex[key] === -1 ? undefined : row[columnIndex[key]]?.trim();
+
+    const byDescription = new Map<string, CatalogItem>();
+    let skipped = 0;
+    rows.forEach(row => {
+        const description = cell(row, 'description');
+        if (!description) {
+            skipped++;
+            return;
+        }
+        const current = byDescription.get(description.toLowerCase()) ?? findCatalogItem(existing, description);
+        byDescription.set(description.toLowerCase(), {
+            ...(current ?? createCatalogItem()),
+            description,
+            price: columnIndex.price === -1 ? current?.price ?? 0 : parseNumber(cell(row, 'price')),
+            hsn: cell(row, 'hsn') ?? current?.hsn ?? '',
+            unit: cell(row, 'unit') ?? current?.unit ?? '',
+            taxRate: columnIndex.taxRate === -1 ? current?.taxRate ?? 0 : parseNumber(cell(row, 'taxRate')),
+            updatedAt: new Date().toISOString(),
+        });
+    });
+
+    await putRecords(STORES.catalog, [...byDescription.values()]);
+    return { imported: byDescription.size, skipped };
+};
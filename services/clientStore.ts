@@ -0,0 +1,35 @@
+import { Client, ClientRecord, Currency } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord } from './db';
+
+export const createClientRecord = (client: Client, defaultCurrency: Currency): ClientRecord => ({
+    ...client,
+    id: crypto.randomUUID(),
+    phone: '',
+    defaultCurrency,
+    updatedAt: new Date().toISOString(),
+});
+
+export const listClients = async (): Promise<ClientRecord[]> => {
+    const records = await getAllRecords<ClientRecord>(STORES.clients);
+    return records.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveClient = async (record: ClientRecord): Promise<ClientRecord> => {
+    const saved = { ...record, updatedAt: new Date().toISOString() };
+    await putRecord(STORES.clients, saved);
+    return saved;
+};
+
+export const deleteClient = (id: string): Promise<void> => deleteRecord(STORES.clients, id);
+
+export const findClientByName = (records: ClientRecord[], name: string): ClientRecord | undefined => {
+    const needle = name.trim().toLowerCase();
+    return needle ? records.find(record => record.name.trim().toLowerCase() === needle) : undefined;
+};
+
+export const matchesClientSearch = (record: ClientRecord, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return [record.name, record.email, record.gstin, record.phone]
+        .some(value => value && value.toLowerCase().includes(needle));
+};
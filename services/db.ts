@@ -0,0 +1,93 @@
+const DB_NAME = 'sayinvoice';
+const DB_VERSION = 6;
+
+export const STORES = {
+    invoices: 'invoices',
+    clients: 'clients',
+    businessProfiles: 'businessProfiles',
+    catalog: 'catalog',
+    sequences: 'sequences',
+    schedules: 'schedules',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            // Each store is created only if missing, so bumping DB_VERSION just adds new stores
+            Object.values(STORES).forEach(name => {
+                if (!db.objectStoreNames.contains(name)) {
+                    db.createObjectStore(name, { keyPath: 'id' });
+                }
+            });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const runRequest = async <T>(storeName: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openDb();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+    runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const getRecord = <T>(storeName: StoreName, id: string): Promise<T | undefined> =>
+    runRequest<T | undefined>(storeName, 'readonly', store => store.get(id));
+
+export const putRecord = async <T>(storeName: StoreName, record: T): Promise<void> => {
+    await runRequest(storeName, 'readwrite', store => store.put(record));
+};
+
+export const putRecords = async <T>(storeName: StoreName, records: T[]): Promise<void> => {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        records.forEach(record => store.put(record));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+// Reads and rewrites a record inside one transaction, so concurrent updates can't interleave
+// `update` may return undefined to leave the store as it is, e.g. when the record is gone
+export const updateRecord = async <T>(storeName: StoreName, id: string, update: (current: T | undefined) => T | undefined): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise<T | undefined>((resolve, reject) => {
+        const transaction = db.transaction(storeName, 'readwrite');
+        const store = transaction.objectStore(storeName);
+        let updated: T | undefined;
+        const request = store.get(id);
+        request.onsuccess = () => {
+            updated = update(request.result as T | undefined);
+            if (updated !== undefined) store.put(updated);
+        };
+        transaction.oncomplete = () => resolve(updated);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const deleteRecord = async (storeName: StoreName, id: string): Promise<void> => {
+    await runRequest(storeName, 'readwrite', store => store.delete(id));
+};
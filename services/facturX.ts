@@ -0,0 +1,194 @@
+import { Invoice } from '../types';
+import { InvoiceCalculations } from '../utils/calculations';
+import { FACTUR_X_CONFORMANCE_LEVEL, FACTUR_X_FILE_NAME, toCiiXml } from '../utils/cii';
+import { escapeXml } from '../utils/xml';
+import { arePdfFontsAvailable } from './pdfFonts';
+
+// These would be available on the window object from the CDN scripts in index.html
+declare const PDFLib: any;
+
+const PRODUCER = 'Sayinvoice';
+const FACTUR_X_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+const OUTPUT_CONDITION = 'sRGB IEC61966-2.1';
+
+// D50-adapted sRGB primaries and white point, as in the ICC's own sRGB profile
+const SRGB_XYZ = {
+    wtpt: [0.9642, 1.0, 0.8249],
+    rXYZ: [0.4361, 0.2225, 0.0139],
+    gXYZ: [0.3851, 0.7169, 0.0971],
+    bXYZ: [0.1431, 0.0606, 0.7141],
+};
+
+// A minimal ICC v2 RGB display profile for sRGB with a 2.2 gamma, for the PDF/A output intent.
+// Built here rather than shipped as a binary file; it is under 600 bytes.
+const buildSrgbProfile = (): Uint8Array => {
+    const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+    const uint32 = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    const s15Fixed16 = (value: number) => uint32(Math.round(value * 65536) >>> 0);
+    const pad = (bytes: number[]) => [...bytes, ...new Array((4 - (bytes.length % 4)) % 4).fill(0)];
+    const xyz = (values: number[]) => [...ascii('XYZ '), 0, 0, 0, 0, ...values.flatMap(s15Fixed16)];
+    const description = ascii(OUTPUT_CONDITION);
+
+    const tagData: [string, number[]][] = [
+        ['desc', [
+            ...ascii('desc'), 0, 0, 0, 0, ...uint32(description.length + 1), ...description, 0,
+            // Empty Unicode and ScriptCode descriptions
+            ...uint32(0), ...uint32(0), 0, 0, 0, ...new Array(67).fill(0),
+        ]],
+        ['cprt', [...ascii('text'), 0, 0, 0, 0, ...ascii('No copyright, use freely'), 0]],
+        ...Object.entries(SRGB_XYZ).map(([signature, values]): [string, number[]] => [signature, xyz(values)]),
+        // curveType with one entry is a gamma, as u8Fixed8: 2.2 is 0x0233
+        ['rTRC', [...ascii('curv'), 0, 0, 0, 0, ...uint32(1), 0x02, 0x33]],
+    ];
+    // The three channels share one curve
+    const tags: [string, string][] = [...tagData.map(([signature]): [string, string] => [signature, signature]), ['gTRC', 'rTRC'], ['bTRC', 'rTRC']];
+
+    // Tag data starts on 4-byte boundaries, while the table records each tag's unpadded size
+    const offsets = new Map<string, number>();
+    let offset = 128 + 4 + tags.length * 12;
+    tagData.forEach(([signature, data]) => {
+        offsets.set(signature, offset);
+        offset += pad(data).length;
+    });
+    const size = offset;
+    const sizes = new Map(tagData.map(([signature, data]) => [signature, data.length]));
+
+    const header = [
+        ...uint32(size), 0, 0, 0, 0, 0x02, 0x10, 0, 0, ...ascii('mntr'), ...ascii('RGB '), ...ascii('XYZ '),
+        // Creation date: 2024-01-01 00:00:00
+        0x07, 0xe8, 0, 1, 0, 1, 0, 0, 0, 0, 0, 0,
+        ...ascii('acsp'), ...new Array(24).fill(0), ...uint32(0),
+        ...SRGB_XYZ.wtpt.flatMap(s15Fixed16),
+    ];
+    const table = [
+        ...uint32(tags.length),
+        ...tags.flatMap(([signature, dataOf]) => [...ascii(signature), ...uint32(offsets.get(dataOf)!), ...uint32(sizes.get(dataOf)!)]),
+    ];
+    return new Uint8Array([...header, ...new Array(128 - header.length).fill(0), ...table, ...tagData.flatMap(([, data]) => pad(data))]);
+};
+
+interface DocumentInfo {
+    title: string;
+    author: string;
+    date: Date;
+}
+
+const FACTUR_X_PROPERTIES: [string, string][] = [
+    ['DocumentFileName', 'The name of the embedded XML document'],
+    ['DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER'],
+    ['Version', 'The actual version of the standard applying to the embedded XML document'],
+    ['ConformanceLevel', 'The conformance level of the embedded XML document'],
+];
+
+// XMP metadata declaring PDF/A-3B and the Factur-X profile. PDF/A only allows properties from known schemas, so the
+// fx schema is described in the extension block too.
+const buildXmp = ({ title, author, date }: DocumentInfo): string => {
+    const timestamp = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const properties = FACTUR_X_PROPERTIES.map(([name, description]) => `<rdf:li rdf:parseType="Resource">
+<pdfaProperty:name>${name}</pdfaProperty:name>
+<pdfaProperty:valueType>Text</pdfaProperty:valueType>
+<pdfaProperty:category>external</pdfaProperty:category>
+<pdfaProperty:description>${description}</pdfaProperty:description>
+</rdf:li>`).join('\n');
+    return `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+<pdfaid:part>3</pdfaid:part>
+<pdfaid:conformance>B</pdfaid:conformance>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+<xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>
+<xmp:CreateDate>${timestamp}</xmp:CreateDate>
+<xmp:ModifyDate>${timestamp}</xmp:ModifyDate>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+<pdf:Producer>${PRODUCER}</pdf:Producer>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:fx="${FACTUR_X_NAMESPACE}">
+<fx:DocumentType>INVOICE</fx:DocumentType>
+<fx:DocumentFileName>${FACTUR_X_FILE_NAME}</fx:DocumentFileName>
+<fx:Version>1.0</fx:Version>
+<fx:ConformanceLevel>${FACTUR_X_CONFORMANCE_LEVEL}</fx:ConformanceLevel>
+</rdf:Description>
+<rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/" xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+<pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">
+<pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+<pdfaSchema:namespaceURI>${FACTUR_X_NAMESPACE}</pdfaSchema:namespaceURI>
+<pdfaSchema:prefix>fx</pdfaSchema:prefix>
+<pdfaSchema:property><rdf:Seq>
+${properties}
+</rdf:Seq></pdfaSchema:property>
+</rdf:li></rdf:Bag></pdfaExtension:schemas>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
+
+// Turns the rendered invoice PDF into a Factur-X (ZUGFeRD 2) hybrid: a PDF/A-3B file with the invoice as Cross
+// Industry Invoice XML embedded under the name readers look for, linked from the catalog as its data source.
+// PDF/A needs every font embedded, so this fails when the Unicode fonts couldn't be downloaded and the PDF fell back
+// to Helvetica.
+export const toFacturXPdf = async (pdf: Blob, invoice: Invoice, calculations: InvoiceCalculations): Promise<Blob> => {
+    if (!(await arePdfFontsAvailable())) {
+        throw new Error('The PDF fonts could not be downloaded, and PDF/A needs them embedded. Check your connection and try again.');
+    }
+    const { PDFDict, PDFDocument, PDFHeader, PDFHexString, PDFName, PDFString } = PDFLib;
+    const doc = await PDFDocument.load(await pdf.arrayBuffer(), { updateMetadata: false });
+    const { context, catalog } = doc;
+    // Whole seconds, so the info dictionary and the XMP metadata give the same dates
+    const info: DocumentInfo = {
+        title: `${invoice.invoiceType} ${invoice.invoiceNumber}`.trim(),
+        author: invoice.business.name,
+        date: new Date(Math.floor(Date.now() / 1000) * 1000),
+    };
+
+    const xml = new TextEncoder().encode(toCiiXml(invoice, calculations));
+    const embeddedFile = context.register(context.flateStream(xml, {
+        Type: 'EmbeddedFile',
+        Subtype: 'text/xml',
+        Params: { Size: xml.length, ModDate: PDFString.fromDate(info.date) },
+    }));
+    const fileSpec = context.register(context.obj({
+        Type: 'Filespec',
+        F: PDFString.of(FACTUR_X_FILE_NAME),
+        UF: PDFHexString.fromText(FACTUR_X_FILE_NAME),
+        EF: { F: embeddedFile, UF: embeddedFile },
+        Desc: PDFString.of('Factur-X invoice data'),
+        AFRelationship: 'Data',
+    }));
+    const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict) ?? context.obj({});
+    names.set(PDFName.of('EmbeddedFiles'), context.obj({ Names: [PDFString.of(FACTUR_X_FILE_NAME), fileSpec] }));
+    catalog.set(PDFName.of('Names'), names);
+    catalog.set(PDFName.of('AF'), context.obj([fileSpec]));
+
+    const profile = context.register(context.flateStream(buildSrgbProfile(), { N: 3 }));
+    const outputIntent = context.register(context.obj({
+        Type: 'OutputIntent',
+        S: 'GTS_PDFA1',
+        OutputConditionIdentifier: PDFString.of(OUTPUT_CONDITION),
+        Info: PDFString.of(OUTPUT_CONDITION),
+        RegistryName: PDFString.of('http://www.color.org'),
+        DestOutputProfile: profile,
+    }));
+    catalog.set(PDFName.of('OutputIntents'), context.obj([outputIntent]));
+
+    // Metadata streams stay uncompressed so the XMP packet can be found by scanning the file
+    const xmp = context.register(context.stream(new TextEncoder().encode(buildXmp(info)), { Type: 'Metadata', Subtype: 'XML' }));
+    catalog.set(PDFName.of('Metadata'), xmp);
+    doc.setTitle(info.title);
+    doc.setAuthor(info.author);
+    doc.setCreator(PRODUCER);
+    doc.setProducer(PRODUCER);
+    doc.setCreationDate(info.date);
+    doc.setModificationDate(info.date);
+    context.header = PDFHeader.forVersion(1, 7);
+
+    const bytes: Uint8Array = await doc.save({ useObjectStreams: false });
+    return new Blob([bytes], { type: 'application/pdf' });
+};
@@ -0,0 +1,163 @@
+import { Invoice, InvoiceType, NoteAdjustment, StoredInvoice } from '../types';
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './db';
+import { reserveNextNumber } from './sequenceStore';
+import { InvoiceCalculations, calculateInvoice } from '../utils/calculations';
+import { getBaseAmounts } from '../utils/exchangeRates';
+import { toDocumentLink } from '../utils/conversion';
+import { isNote, prefillNoteFromInvoice, toOriginalInvoiceLink } from '../utils/notes';
+import { isPayable } from '../utils/payments';
+import { applyPaymentTerms } from '../utils/paymentTerms';
+import { getToday } from '../utils/dates';
+
+export const createInvoiceId = (): string => crypto.randomUUID();
+
+export const listInvoices = async (): Promise<StoredInvoice[]> => {
+    const records = await getAllRecords<StoredInvoice>(STORES.invoices);
+    return records.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getStoredInvoice = (id: string): Promise<StoredInvoice | undefined> =>
+    getRecord<StoredInvoice>(STORES.invoices, id);
+
+export const saveInvoice = async (id: string, invoice: Invoice, calculations: InvoiceCalculations): Promise<StoredInvoice> => {
+    const existing = await getStoredInvoice(id);
+    const now = new Date().toISOString();
+    const record: StoredInvoice = {
+        id,
+        invoice,
+        total: calculations.total,
+        baseAmounts: getBaseAmounts(invoice, calculations),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+    await putRecord(STORES.invoices, record);
+    await syncNoteAdjustment(existing, record);
+    return record;
+};
+
+export const duplicateInvoice = async (source: StoredInvoice): Promise<StoredInvoice> => {
+    // The copy takes the next number in its sequence so it can't collide with the original
+    const invoiceNumber = await reserveNextNumber(source.invoice.invoiceType, source.invoice.date);
+    // A copy is a new, unrelated document, so it doesn't inherit links, notes, status, payments or e-invoice registration
+    const { convertedFrom, convertedTo, adjustments, recurrence, eInvoice, ...copy } = structuredClone(source.invoice);
+    const invoice: Invoice = { ...copy, invoiceNumber, issueStatus: 'Draft', payments: [] };
+    return saveInvoice(createInvoiceId(), invoice, calculateInvoice(invoice));
+};
+
+const updateLinks = async (id: string, update: (invoice: Invoice) => Invoice): Promise<void> => {
+    const record = await getStoredInvoice(id);
+    if (!record) return;
+    const invoice = update(record.invoice);
+    await saveInvoice(id, invoice, calculateInvoice(invoice));
+};
+
+// Keeps the original invoice's list of notes in step with a note as it is saved. Only a Sent note counts against the
+// balance: a new note is a draft copy of every line, so counting it would settle or double the invoice before
+// anyone has edited it. A note that goes back to Draft, is voided, changes type or is pointed at another invoice is
+// taken off the old one.
+const syncNoteAdjustment = async (previous: StoredInvoice | undefined, note: StoredInvoice): Promise<void> => {
+    const { originalInvoice, invoiceType, invoiceNumber, issueStatus } = note.invoice;
+    const previousOriginalId = previous?.invoice.originalInvoice?.id;
+    const counts = Boolean(originalInvoice) && isNote(invoiceType) && issueStatus === 'Sent';
+    const entry: NoteAdjustment = { id: note.id, invoiceType, invoiceNumber, amount: note.total };
+
+    if (previousOriginalId && previousOriginalId !== originalInvoice?.id) {
+        await updateLinks(previousOriginalId, invoice => ({ ...invoice, adjustments: invoice.adjustments?.filter(item => item.id !== note.id) }));
+    }
+    if (!originalInvoice) return;
+    const original = await getStoredInvoice(originalInvoice.id);
+    if (!original) return;
+    const current = original.invoice.adjustments?.find(item => item.id === note.id);
+    const isUpToDate = counts
+        ? JSON.stringify(current) === JSON.stringify(entry)
+        : !current;
+    if (isUpToDate) return;
+    const others = (original.invoice.adjustments ?? []).filter(item => item.id !== note.id);
+    await updateLinks(original.id, invoice => ({ ...invoice, adjustments: counts ? [...others, entry] : others }));
+};
+
+// Raises a credit or debit note against a saved invoice, prefilled with its parties and lines
+export const createNote = async (original: StoredInvoice, invoiceType: InvoiceType): Promise<StoredInvoice> => {
+    const date = getToday();
+    const invoiceNumber = await reserveNextNumber(invoiceType, date);
+    const { convertedFrom, convertedTo, adjustments, recurrence, eInvoice, ...copy } = structuredClone(original.invoice);
+    const invoice: Invoice = prefillNoteFromInvoice(
+        {
+            ...copy,
+            invoiceType,
+            invoiceNumber,
+            date,
+            dueDate: '',
+            paymentTerms: { code: 'manual', customDays: 0 },
+            lateFee: { type: 'none', value: 0 },
+            issueStatus: 'Draft',
+            payments: [],
+            showPaidWatermark: false,
+        },
+        original
+    );
+    return saveInvoice(createInvoiceId(), invoice, calculateInvoice(invoice));
+};
+
+// Creates a new document of the target type from a quotation, estimate or proforma. Parties, items and terms are
+// copied, the new document gets the next number in its own sequence and is dated today, and both sides are linked.
+export const convertDocument = async (source: StoredInvoice, invoiceType: InvoiceType): Promise<StoredInvoice> => {
+    const date = getToday();
+    const invoiceNumber = await reserveNextNumber(invoiceType, date);
+    const { convertedFrom, convertedTo, recurrence, eInvoice, ...copy } = structuredClone(source.invoice);
+    const invoice: Invoice = applyPaymentTerms({ ...copy, invoiceType, invoiceNumber, date, dueDate: '', issueStatus: 'Draft', payments: [], convertedFrom: toDocumentLink(source) });
+    const converted = await saveInvoice(createInvoiceId(), invoice, calculateInvoice(invoice));
+    await updateLinks(source.id, sourceInvoice => ({
+        ...sourceInvoice,
+        convertedTo: [...(sourceInvoice.convertedTo ?? []), toDocumentLink(converted)],
+    }));
+    return converted;
+};
+
+// Saves a document read from a file as a new one. A note is linked to the saved invoice with the number it quotes,
+// if there is one.
+export const importInvoice = async (invoice: Invoice): Promise<StoredInvoice> => {
+    const reference = invoice.originalInvoice;
+    const original = reference && (await listInvoices()).find(record =>
+        isPayable(record.invoice.invoiceType) && record.invoice.invoiceNumber === reference.invoiceNumber);
+    const imported: Invoice = original ? { ...invoice, originalInvoice: toOriginalInvoiceLink(original) } : invoice;
+    return saveInvoice(createInvoiceId(), imported, calculateInvoice(imported));
+};
+
+// Links pointing at the deleted document are removed from the other side, so a quotation whose invoice was
+// deleted reads as open again. An invoice with credit or debit notes against it can't be deleted: the notes quote
+// it and count towards its balance, so they have to go first.
+export const deleteInvoice = async (id: string): Promise<void> => {
+    const notes = (await listInvoices()).filter(other => other.invoice.originalInvoice?.id === id);
+    if (notes.length > 0) {
+        const numbers = notes.map(note => `${note.invoice.invoiceType} ${note.invoice.invoiceNumber}`).join(', ');
+        throw new Error(`${numbers} ${notes.length === 1 ? 'adjusts' : 'adjust'} this invoice. Delete ${notes.length === 1 ? 'it' : 'them'} first.`);
+    }
+    const record = await getStoredInvoice(id);
+    await deleteRecord(STORES.invoices, id);
+    if (!record) return;
+    const { convertedFrom, convertedTo = [], originalInvoice } = record.invoice;
+    if (originalInvoice) {
+        await updateLinks(originalInvoice.id, invoice => ({
+            ...invoice,
+            adjustments: invoice.adjustments?.filter(item => item.id !== id),
+        }));
+    }
+    if (convertedFrom) {
+        await updateLinks(convertedFrom.id, invoice => ({
+            ...invoice,
+            convertedTo: invoice.convertedTo?.filter(link => link.id !== id),
+        }));
+    }
+    for (const link of convertedTo) {
+        await updateLinks(link.id, ({ convertedFrom: _, ...invoice }) => invoice);
+    }
+};
+
+export const matchesInvoiceSearch = (record: StoredInvoice, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    const { invoiceNumber, client, date, invoiceType } = record.invoice;
+    return [invoiceNumber, client.name, client.email, date, invoiceType]
+        .some(value => value && value.toLowerCase().includes(needle));
+};
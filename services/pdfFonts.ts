@@ -0,0 +1,61 @@
+// Noto Sans covers Latin text and the ₹ sign, which jsPDF's built-in Helvetica lacks. jsPDF needs TrueType files, so
+// they come from a pinned npm package that ships them; the @fontsource packages only have woff and woff2.
+// When the download fails the PDF is still produced, in Helvetica with "Rs." in place of ₹ (see pdfRenderer), but
+// Factur-X export is refused because PDF/A needs every font embedded.
+const FONT_BASE_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans@0.4.2';
+const FONT_FILES = {
+    normal: '400Regular/NotoSans_400Regular.ttf',
+    bold: '700Bold/NotoSans_700Bold.ttf',
+} as const;
+
+export const PDF_FONT_FAMILY = 'NotoSans';
+export const FALLBACK_FONT_FAMILY = 'helvetica';
+
+type FontStyle = keyof typeof FONT_FILES;
+type FontData = Record<FontStyle, string>;
+
+let fontDataPromise: Promise<FontData | null> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Chunked so large font files don't overflow the argument limit of fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fetchFont = async (file: string): Promise<string> => {
+    const response = await fetch(`${FONT_BASE_URL}/${file}`);
+    if (!response.ok) throw new Error(`Font request failed with ${response.status}`);
+    return toBase64(await response.arrayBuffer());
+};
+
+// Fonts are downloaded once per session. Resolves to null when they can't be fetched, e.g. offline.
+const loadFontData = (): Promise<FontData | null> => {
+    if (!fontDataPromise) {
+        fontDataPromise = Promise.all([fetchFont(FONT_FILES.normal), fetchFont(FONT_FILES.bold)])
+            .then(([normal, bold]) => ({ normal, bold }))
+            .catch(error => {
+                console.error("Error loading PDF fonts, falling back to Helvetica", error);
+                fontDataPromise = null;
+                return null;
+            });
+    }
+    return fontDataPromise;
+};
+
+// Embeds the Unicode fonts in a jsPDF document and returns the family to draw with
+export const registerPdfFonts = async (pdf: any): Promise<string> => {
+    const data = await loadFontData();
+    if (!data) return FALLBACK_FONT_FAMILY;
+    (Object.keys(FONT_FILES) as FontStyle[]).forEach(style => {
+        pdf.addFileToVFS(FONT_FILES[style], data[style]);
+        pdf.addFont(FONT_FILES[style], PDF_FONT_FAMILY, style);
+    });
+    return PDF_FONT_FAMILY;
+};
+
+// Whether PDFs will carry embedded fonts rather than the Helvetica fallback, which PDF/A doesn't allow
+export const arePdfFontsAvailable = async (): Promise<boolean> => (await loadFontData()) !== null;
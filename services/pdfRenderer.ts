@@ -0,0 +1,755 @@
+import { Invoice, Item } from '../types';
+import { InvoiceCalculations, TaxSummaryRow, hasGstSummary } from '../utils/calculations';
+import { formatCurrency, getContrastColor } from '../utils/format';
+import { toWords } from '../utils/amountInWords';
+import { buildUpiPaymentUri, hasUpiPayment } from '../utils/upi';
+import { getPlaceOfSupply, getTaxIdLabel } from '../utils/gst';
+import { getStateName } from '../utils/indianStates';
+import { PdfLayout, getTemplate } from '../utils/templates';
+import { BASE_CURRENCY, getCurrency } from '../utils/currencies';
+import { getBaseAmounts, isForeignCurrency } from '../utils/exchangeRates';
+import { getBalanceDue, getInvoiceStatus, getSettlementRows } from '../utils/payments';
+import { getOriginalInvoiceLabel } from '../utils/notes';
+import { getPaymentTermsText } from '../utils/paymentTerms';
+import { PDF_FONT_FAMILY, registerPdfFonts } from './pdfFonts';
+
+// These would be available on the window object from the CDN scripts in index.html
+declare const jspdf: any;
+declare const qrcode: any;
+
+// All measurements are in PDF points. Fixed column widths are for the content width of A4 with
+// 40pt margins, and are scaled to the page the template uses.
+const REFERENCE_CONTENT_WIDTH = 515;
+const LINE_HEIGHT = 1.3;
+const CELL_PADDING = 6;
+const LOGO_MAX_HEIGHT = 56;
+const LOGO_MAX_WIDTH = 160;
+const QR_SIZE = 96;
+// Kept clear at the bottom of every page for the "Page x of y" line
+const PAGE_FOOTER_HEIGHT = 20;
+
+const GRID_COLOR = '#1f2937';
+const GRAY_900 = '#111827';
+const GRAY_800 = '#1f2937';
+const GRAY_600 = '#4b5563';
+const GRAY_500 = '#6b7280';
+const GRAY_400 = '#9ca3af';
+const GRAY_200 = '#e5e7eb';
+const GRAY_100 = '#f3f4f6';
+const GRAY_50 = '#f9fafb';
+const PAID_COLOR = '#16a34a';
+
+type Align = 'left' | 'center' | 'right';
+
+interface TextStyle {
+    size?: number;
+    bold?: boolean;
+    color?: string;
+    align?: Align;
+}
+
+interface PdfImage {
+    dataUrl: string;
+    format: 'PNG' | 'JPEG';
+    width: number;
+    height: number;
+}
+
+interface PdfContext {
+    pdf: any;
+    // Second document with the same fonts, used to measure blocks before placing them
+    scratchPdf: any;
+    invoice: Invoice;
+    layout: PdfLayout;
+    fontFamily: string;
+    margin: number;
+    pageWidth: number;
+    pageHeight: number;
+    contentWidth: number;
+    // Theme color for the colorful template, near-black for the monochrome ones
+    accentColor: string;
+    y: number;
+}
+
+interface TableColumn<Row> {
+    header: string;
+    width: number;
+    align: Align;
+    value: (row: Row) => string;
+    bold?: boolean;
+}
+
+// Helvetica has no ₹ glyph, so amounts are spelled with "Rs." when the Unicode font is unavailable
+const toPdfText = (ctx: PdfContext, value: string): string =>
+    ctx.fontFamily === PDF_FONT_FAMILY ? value : value.replace(/₹\s?/g, 'Rs. ');
+
+const money = (ctx: PdfContext, amount: number): string => formatCurrency(amount, ctx.invoice.currency);
+
+const lineHeight = (ctx: PdfContext, size: number): number => size * ctx.layout.fontScale * LINE_HEIGHT;
+
+const setTextStyle = (ctx: PdfContext, { size = 10, bold = false, color = GRAY_800 }: TextStyle) => {
+    ctx.pdf.setFont(ctx.fontFamily, bold ? 'bold' : 'normal');
+    ctx.pdf.setFontSize(size * ctx.layout.fontScale);
+    ctx.pdf.setTextColor(color);
+};
+
+const wrapText = (ctx: PdfContext, value: string, width: number, style: TextStyle): string[] => {
+    if (!value) return [];
+    setTextStyle(ctx, style);
+    return ctx.pdf.splitTextToSize(toPdfText(ctx, value), width);
+};
+
+const measureText = (ctx: PdfContext, value: string, width: number, style: TextStyle = {}): number =>
+    wrapText(ctx, value, width, style).length * lineHeight(ctx, style.size ?? 10);
+
+// Draws text wrapped to `width` with its top edge at `y`, and returns the height it took
+const drawText = (ctx: PdfContext, value: string, x: number, y: number, width: number, style: TextStyle = {}): number => {
+    const lines = wrapText(ctx, value, width, style);
+    if (lines.length === 0) return 0;
+    const align = style.align ?? 'left';
+    const anchor = align === 'right' ? x + width : align === 'center' ? x + width / 2 : x;
+    ctx.pdf.text(lines, anchor, y, { align, baseline: 'top', lineHeightFactor: LINE_HEIGHT });
+    return lines.length * lineHeight(ctx, style.size ?? 10);
+};
+
+const drawRule = (ctx: PdfContext, y: number, color: string = GRAY_200, width = 0.75) => {
+    ctx.pdf.setDrawColor(color);
+    ctx.pdf.setLineWidth(width);
+    ctx.pdf.line(ctx.margin, y, ctx.margin + ctx.contentWidth, y);
+};
+
+const fitsOnPage = (ctx: PdfContext, height: number): boolean =>
+    ctx.y + height <= ctx.pageHeight - ctx.margin - PAGE_FOOTER_HEIGHT;
+
+const startNewPage = (ctx: PdfContext) => {
+    ctx.pdf.addPage();
+    ctx.y = ctx.margin;
+};
+
+const drawBox = (ctx: PdfContext, x: number, y: number, width: number, height: number) => {
+    ctx.pdf.setDrawColor(GRID_COLOR);
+    ctx.pdf.setLineWidth(0.5);
+    ctx.pdf.rect(x, y, width, height, 'S');
+};
+
+// Background for call-out blocks such as the amount in words, following the template's table style
+const drawPanel = (ctx: PdfContext, y: number, height: number) => {
+    if (ctx.layout.tableStyle === 'filled') {
+        ctx.pdf.setFillColor(GRAY_50);
+        ctx.pdf.roundedRect(ctx.margin, y, ctx.contentWidth, height, 3, 3, 'F');
+    } else if (ctx.layout.tableStyle === 'grid') {
+        drawBox(ctx, ctx.margin, y, ctx.contentWidth, height);
+    }
+};
+
+// Starts a new page when the next block would run past the bottom margin
+const ensureSpace = (ctx: PdfContext, height: number) => {
+    if (!fitsOnPage(ctx, height)) startNewPage(ctx);
+};
+
+// Height a block would take, found by drawing it on the scratch document on an endless page
+const measureBlock = (ctx: PdfContext, draw: (probe: PdfContext) => void): number => {
+    const probe: PdfContext = { ...ctx, pdf: ctx.scratchPdf, y: 0, pageHeight: Infinity };
+    draw(probe);
+    return probe.y;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the logo image'));
+    image.src = src;
+});
+
+// jsPDF only embeds PNG and JPEG reliably, so other formats (SVG, WebP, GIF) are redrawn as PNG
+const loadLogo = async (src: string): Promise<PdfImage> => {
+    const image = await loadImage(src);
+    const width = image.naturalWidth || image.width;
+    const height = image.naturalHeight || image.height;
+    if (src.startsWith('data:image/png')) return { dataUrl: src, format: 'PNG', width, height };
+    if (/^data:image\/jpe?g/.test(src)) return { dataUrl: src, format: 'JPEG', width, height };
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), format: 'PNG', width, height };
+};
+
+// Each dark module becomes a filled rectangle, so the code stays sharp at any zoom
+const drawQrCode = (ctx: PdfContext, value: string, x: number, y: number, size: number, level: 'L' | 'M' | 'Q' | 'H' = 'H') => {
+    const qr = qrcode(0, level);
+    qr.addData(value);
+    qr.make();
+    const count: number = qr.getModuleCount();
+    const cell = size / count;
+    ctx.pdf.setFillColor('#000000');
+    for (let row = 0; row < count; row++) {
+        let runStart = -1;
+        for (let col = 0; col <= count; col++) {
+            const isDark = col < count && qr.isDark(row, col);
+            if (isDark && runStart < 0) runStart = col;
+            if (!isDark && runStart >= 0) {
+                // Adjacent dark modules in a row are merged into one rectangle to keep the file small
+                ctx.pdf.rect(x + runStart * cell, y + row * cell, (col - runStart) * cell, cell, 'F');
+                runStart = -1;
+            }
+        }
+    }
+};
+
+// In the grid style the header and party sections are drawn inside a box, inset by this much
+const getSectionInset = (ctx: PdfContext): number => (ctx.layout.tableStyle === 'grid' ? 8 : 0);
+
+// Boxes the section that started at `top` in the grid style, otherwise separates it with a rule
+const closeSection = (ctx: PdfContext, top: number, bottom: number, spacing: number, ruleColor?: string) => {
+    const inset = getSectionInset(ctx);
+    if (inset) {
+        drawBox(ctx, ctx.margin, top, ctx.contentWidth, bottom + inset - top);
+        ctx.y = bottom + inset + spacing / 2;
+        return;
+    }
+    if (ruleColor) {
+        const isRuled = ctx.layout.tableStyle === 'ruled';
+        drawRule(ctx, bottom + 14, isRuled ? GRAY_900 : ruleColor, isRuled ? 0.75 : 1.5);
+    }
+    ctx.y = bottom + spacing;
+};
+
+const drawHeader = (ctx: PdfContext, logo: PdfImage | null) => {
+    const { invoice } = ctx;
+    const inset = getSectionInset(ctx);
+    const left = ctx.margin + inset;
+    const columnWidth = (ctx.contentWidth - inset * 2) / 2;
+    const infoStyle: TextStyle = { size: 9, color: GRAY_600 };
+    const top = ctx.y;
+
+    let leftY = top + inset;
+    if (logo) {
+        const scale = Math.min(LOGO_MAX_HEIGHT / logo.height, LOGO_MAX_WIDTH / logo.width) * ctx.layout.fontScale;
+        ctx.pdf.addImage(logo.dataUrl, logo.format, left, leftY, logo.width * scale, logo.height * scale);
+        leftY += logo.height * scale + 10;
+    }
+    leftY += drawText(ctx, invoice.business.name || 'Your Business Name', left, leftY, columnWidth, { size: 16, bold: true, color: GRAY_900 }) + 2;
+    leftY += drawText(ctx, invoice.business.address || 'Your Address', left, leftY, columnWidth, infoStyle);
+    leftY += drawText(ctx, invoice.business.email || 'your.email@example.com', left, leftY, columnWidth, infoStyle);
+    if (invoice.business.gstin) {
+        leftY += drawText(ctx, `GSTIN: ${invoice.business.gstin}`, left, leftY, columnWidth, infoStyle);
+    }
+
+    const rightX = left + columnWidth;
+    let rightY = top + inset;
+    rightY += drawText(ctx, invoice.invoiceType.toUpperCase(), rightX, rightY, columnWidth, { size: 24, bold: true, color: ctx.accentColor, align: 'right' }) + 4;
+    rightY += drawText(ctx, `# ${invoice.invoiceNumber}`, rightX, rightY, columnWidth, { ...infoStyle, size: 10, align: 'right' });
+    const originalInvoiceLabel = getOriginalInvoiceLabel(invoice);
+    if (originalInvoiceLabel) {
+        rightY += drawText(ctx, originalInvoiceLabel, rightX, rightY, columnWidth, { ...infoStyle, align: 'right' });
+    }
+
+    closeSection(ctx, top, Math.max(leftY, rightY), 36, GRAY_100);
+};
+
+// IRN and acknowledgement of a registered e-invoice, with the portal's signed QR code beside them.
+// The signed code is too long for high error correction, so it is drawn at medium.
+const drawEInvoiceDetails = (ctx: PdfContext) => {
+    const { eInvoice } = ctx.invoice;
+    if (!eInvoice) return;
+    const hasQr = Boolean(eInvoice.signedQrCode) && typeof qrcode !== 'undefined';
+    const qrSize = QR_SIZE * ctx.layout.fontScale;
+    const textWidth = ctx.contentWidth - (hasQr ? qrSize + 16 : 0);
+    const rows: [string, string][] = [['IRN:', eInvoice.irn], ['Ack No.:', eInvoice.ackNumber], ['Ack Date:', eInvoice.ackDate]];
+    const top = ctx.y;
+    let y = top;
+    rows.filter(([, value]) => value).forEach(([label, value]) => {
+        y += drawText(ctx, `${label} ${value}`, ctx.margin, y, textWidth, { size: 8.5, color: GRAY_600 }) + 2;
+    });
+    if (hasQr) {
+        drawQrCode(ctx, eInvoice.signedQrCode, ctx.margin + ctx.contentWidth - qrSize, top, qrSize, 'M');
+    }
+    ctx.y = Math.max(y, hasQr ? top + qrSize : top) + 24;
+};
+
+const drawParties = (ctx: PdfContext) => {
+    const { invoice } = ctx;
+    const inset = getSectionInset(ctx);
+    const left = ctx.margin + inset;
+    const columnWidth = (ctx.contentWidth - inset * 2) / 2;
+    const infoStyle: TextStyle = { size: 9, color: GRAY_600 };
+    const top = ctx.y;
+
+    let leftY = top + inset;
+    leftY += drawText(ctx, 'BILL TO', left, leftY, columnWidth, { size: 8, bold: true, color: GRAY_500 }) + 4;
+    leftY += drawText(ctx, invoice.client.name || 'Client Name', left, leftY, columnWidth, { size: 13, bold: true, color: GRAY_900 }) + 2;
+    leftY += drawText(ctx, invoice.client.address || 'Client Address', left, leftY, columnWidth, infoStyle);
+    leftY += drawText(ctx, invoice.client.email || 'client.email@example.com', left, leftY, columnWidth, infoStyle);
+    if (invoice.client.gstin) {
+        leftY += drawText(ctx, `${getTaxIdLabel(invoice.client.gstin)}: ${invoice.client.gstin}`, left, leftY, columnWidth, infoStyle);
+    }
+
+    const rows: [string, string][] = [['Date:', invoice.date], ['Due Date:', invoice.dueDate]];
+    const paymentTermsText = getPaymentTermsText(invoice);
+    if (paymentTermsText) rows.push(['Terms:', paymentTermsText]);
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    if (invoice.invoiceType === 'Tax Invoice' && placeOfSupply) {
+        rows.push(['Place of Supply:', `${placeOfSupply} - ${getStateName(placeOfSupply)}`]);
+    }
+    const labelX = left + columnWidth + 20;
+    const labelWidth = 90 * ctx.layout.fontScale;
+    const valueWidth = columnWidth - 20 - labelWidth;
+    let rightY = top + inset;
+    rows.forEach(([label, value]) => {
+        const labelHeight = drawText(ctx, label, labelX, rightY, labelWidth, { bold: true, color: GRAY_600 });
+        const valueHeight = drawText(ctx, value, labelX + labelWidth, rightY, valueWidth, { align: 'right' });
+        rightY += Math.max(labelHeight, valueHeight, lineHeight(ctx, 10)) + 3;
+    });
+
+    closeSection(ctx, top, Math.max(leftY, rightY), 24);
+};
+
+const layoutColumns = <Row>(columns: TableColumn<Row>[], totalWidth: number): TableColumn<Row>[] => {
+    const scale = Math.min(1, totalWidth / REFERENCE_CONTENT_WIDTH);
+    const scaled = columns.map(column => ({ ...column, width: column.width * scale }));
+    // A column with width 0 takes whatever the fixed-width columns leave over
+    const fixed = scaled.reduce((acc, column) => acc + column.width, 0);
+    return scaled.map(column => (column.width === 0 ? { ...column, width: totalWidth - fixed } : column));
+};
+
+const drawCellBorders = <Row>(ctx: PdfContext, columns: TableColumn<Row>[], top: number, height: number) => {
+    let x = ctx.margin;
+    columns.forEach(column => {
+        drawBox(ctx, x, top, column.width, height);
+        x += column.width;
+    });
+};
+
+const measureTableRow = <Row>(ctx: PdfContext, columns: TableColumn<Row>[], row: Row, size: number): number =>
+    Math.max(...columns.map(column =>
+        measureText(ctx, column.value(row), column.width - CELL_PADDING * 2, { size, bold: column.bold })
+    ), lineHeight(ctx, size)) + CELL_PADDING * 2;
+
+// Draws one row at ctx.y and returns its height; the caller advances ctx.y
+const drawTableRow = <Row>(ctx: PdfContext, columns: TableColumn<Row>[], row: Row, size: number): number => {
+    const height = measureTableRow(ctx, columns, row, size);
+    let x = ctx.margin;
+    columns.forEach(column => {
+        drawText(ctx, column.value(row), x + CELL_PADDING, ctx.y + CELL_PADDING, column.width - CELL_PADDING * 2, { size, bold: column.bold, align: column.align });
+        x += column.width;
+    });
+    if (ctx.layout.tableStyle === 'grid') {
+        drawCellBorders(ctx, columns, ctx.y, height);
+    }
+    return height;
+};
+
+// `fill` and `color` apply to the filled style; ruled and grid headers are always monochrome
+const drawTableHeader = <Row>(ctx: PdfContext, columns: TableColumn<Row>[], fill: string, color: string, size: number) => {
+    const { tableStyle } = ctx.layout;
+    const height = lineHeight(ctx, size) + CELL_PADDING * 2;
+    if (tableStyle !== 'ruled') {
+        ctx.pdf.setFillColor(tableStyle === 'grid' ? GRAY_100 : fill);
+        ctx.pdf.rect(ctx.margin, ctx.y, ctx.contentWidth, height, 'F');
+    }
+    const textColor = tableStyle === 'filled' ? color : GRAY_900;
+    let x = ctx.margin;
+    columns.forEach(column => {
+        drawText(ctx, column.header.toUpperCase(), x + CELL_PADDING, ctx.y + CELL_PADDING, column.width - CELL_PADDING * 2, { size, bold: true, color: textColor, align: column.align });
+        x += column.width;
+    });
+    if (tableStyle === 'grid') {
+        drawCellBorders(ctx, columns, ctx.y, height);
+    } else if (tableStyle === 'ruled') {
+        drawRule(ctx, ctx.y + height, GRAY_900, 1);
+    }
+    ctx.y += height;
+};
+
+// Separator under a body row; grid rows already have their own borders
+const drawRowRule = (ctx: PdfContext, color: string) => {
+    if (ctx.layout.tableStyle !== 'grid') drawRule(ctx, ctx.y, color);
+};
+
+const getItemColumns = (ctx: PdfContext, calculations: InvoiceCalculations): TableColumn<Item>[] => layoutColumns<Item>([
+    { header: 'Item', width: 0, align: 'left', value: item => item.description },
+    { header: 'HSN/SAC', width: 62, align: 'center', value: item => item.hsn },
+    { header: 'Qty', width: 58, align: 'center', value: item => `${item.quantity}${item.unit ? ` ${item.unit}` : ''}` },
+    { header: 'Price', width: 84, align: 'right', value: item => money(ctx, item.price) },
+    { header: 'Tax', width: 44, align: 'right', value: item => `${item.taxRate || 0}%` },
+    { header: 'Total', width: 92, align: 'right', value: item => money(ctx, calculations.lines.find(line => line.itemId === item.id)?.amount ?? 0), bold: true },
+], ctx.contentWidth);
+
+// Running subtotal row at the foot and head of pages where the item table breaks
+const drawCarryRow = (ctx: PdfContext, columns: TableColumn<Item>[], label: string, amount: number, size: number) => {
+    const height = lineHeight(ctx, size) + CELL_PADDING * 2;
+    const amountWidth = columns[columns.length - 1].width;
+    const labelWidth = ctx.contentWidth - amountWidth;
+    ctx.pdf.setFillColor(GRAY_50);
+    ctx.pdf.rect(ctx.margin, ctx.y, ctx.contentWidth, height, 'F');
+    drawText(ctx, label, ctx.margin + CELL_PADDING, ctx.y + CELL_PADDING, labelWidth - CELL_PADDING * 2, { size, bold: true, color: GRAY_600, align: 'right' });
+    drawText(ctx, money(ctx, amount), ctx.margin + labelWidth + CELL_PADDING, ctx.y + CELL_PADDING, amountWidth - CELL_PADDING * 2, { size, bold: true, align: 'right' });
+    if (ctx.layout.tableStyle === 'grid') {
+        drawBox(ctx, ctx.margin, ctx.y, labelWidth, height);
+        drawBox(ctx, ctx.margin + labelWidth, ctx.y, amountWidth, height);
+    }
+    ctx.y += height;
+    drawRowRule(ctx, GRAY_200);
+};
+
+const drawItemsTable = (ctx: PdfContext, calculations: InvoiceCalculations) => {
+    const columns = getItemColumns(ctx, calculations);
+    const headerSize = 8.5;
+    const bodySize = 9.5;
+    const carryRowHeight = lineHeight(ctx, bodySize) + CELL_PADDING * 2;
+    const drawHeaderRow = () => drawTableHeader(ctx, columns, ctx.accentColor, getContrastColor(ctx.accentColor), headerSize);
+
+    drawHeaderRow();
+    let carried = 0;
+    ctx.invoice.items.forEach((item, index) => {
+        const rowHeight = measureTableRow(ctx, columns, item, bodySize);
+        // Every row but the last leaves room below it for the carried-forward line
+        const isLastRow = index === ctx.invoice.items.length - 1;
+        if (!fitsOnPage(ctx, rowHeight + (isLastRow ? 0 : carryRowHeight))) {
+            if (index > 0) drawCarryRow(ctx, columns, 'Carried forward', carried, bodySize);
+            startNewPage(ctx);
+            drawHeaderRow();
+            if (index > 0) drawCarryRow(ctx, columns, 'Brought forward', carried, bodySize);
+        }
+        ctx.y += drawTableRow(ctx, columns, item, bodySize);
+        drawRowRule(ctx, GRAY_100);
+        carried += calculations.lines[index]?.amount ?? 0;
+    });
+    ctx.y += 20;
+};
+
+const drawTotals = (ctx: PdfContext, calculations: InvoiceCalculations) => {
+    const { invoice } = ctx;
+    const { subtotal, discountAmount, cgstAmount, sgstAmount, igstAmount, genericTaxAmount, roundOff, total } = calculations;
+    const rows: [string, string][] = [
+        ['Subtotal:', money(ctx, subtotal)],
+        [`Discount (${invoice.discountRate}%):`, `-${money(ctx, discountAmount)}`],
+    ];
+    if (cgstAmount > 0) rows.push(['CGST:', money(ctx, cgstAmount)]);
+    if (sgstAmount > 0) rows.push(['SGST:', money(ctx, sgstAmount)]);
+    if (igstAmount > 0) rows.push(['IGST:', money(ctx, igstAmount)]);
+    if (genericTaxAmount > 0) rows.push(['Tax:', money(ctx, genericTaxAmount)]);
+    if (roundOff !== 0) rows.push(['Round Off:', `${roundOff < 0 ? '-' : '+'}${money(ctx, Math.abs(roundOff))}`]);
+
+    const paymentRows: [string, string][] = getSettlementRows(invoice, total)
+        .map(row => [`${row.label}:`, `${row.isDeduction ? '-' : ''}${money(ctx, row.amount)}`]);
+
+    // Foreign-currency invoices repeat the tax and total in the base currency under the total
+    const base = isForeignCurrency(invoice) ? getBaseAmounts(invoice, calculations) : undefined;
+    const baseRows: [string, string][] = [];
+    if (base) {
+        const baseMoney = (amount: number) => formatCurrency(amount, BASE_CURRENCY);
+        baseRows.push([`In ${BASE_CURRENCY} at 1 ${invoice.currency} = ${getCurrency(BASE_CURRENCY).symbol}${base.exchangeRate}${base.rateDate ? ` (${base.rateDate})` : ''}`, '']);
+        baseRows.push(['Taxable Value', baseMoney(base.taxableAmount)]);
+        if (base.taxAmount > 0) baseRows.push(['Tax', baseMoney(base.taxAmount)]);
+        baseRows.push(['Total', baseMoney(base.total)]);
+    }
+
+    const width = Math.min(230, ctx.contentWidth * 0.6);
+    const x = ctx.margin + ctx.contentWidth - width;
+    const rowHeight = lineHeight(ctx, 10) + 5;
+    const totalHeight = lineHeight(ctx, 13) + 13;
+    const baseRowHeight = lineHeight(ctx, 8) + 3;
+    ensureSpace(ctx, rows.length * rowHeight + totalHeight + 6 + (paymentRows.length ? paymentRows.length * rowHeight + 6 : 0) + (baseRows.length ? baseRows.length * baseRowHeight + 6 : 0));
+
+    rows.forEach(([label, value]) => {
+        drawText(ctx, label, x, ctx.y, width / 2, { color: GRAY_600 });
+        drawText(ctx, value, x + width / 2, ctx.y, width / 2, { align: 'right' });
+        ctx.y += rowHeight;
+    });
+
+    ctx.y += 4;
+    let contrastColor = GRAY_900;
+    if (ctx.layout.tableStyle === 'filled') {
+        contrastColor = getContrastColor(ctx.accentColor);
+        ctx.pdf.setFillColor(ctx.accentColor);
+        ctx.pdf.roundedRect(x, ctx.y, width, totalHeight, 3, 3, 'F');
+    } else if (ctx.layout.tableStyle === 'grid') {
+        drawBox(ctx, x, ctx.y, width, totalHeight);
+    } else {
+        ctx.pdf.setDrawColor(GRAY_900);
+        ctx.pdf.setLineWidth(1);
+        ctx.pdf.line(x, ctx.y, x + width, ctx.y);
+    }
+    const textY = ctx.y + (totalHeight - lineHeight(ctx, 13)) / 2;
+    drawText(ctx, 'Total:', x + 10, textY, width / 2, { size: 13, bold: true, color: contrastColor });
+    drawText(ctx, money(ctx, total), x + width / 2 - 10, textY, width / 2, { size: 13, bold: true, color: contrastColor, align: 'right' });
+    ctx.y += totalHeight;
+
+    if (paymentRows.length) {
+        ctx.y += 6;
+        paymentRows.forEach(([label, value]) => {
+            drawText(ctx, label, x, ctx.y, width / 2, { color: GRAY_600 });
+            drawText(ctx, value, x + width / 2, ctx.y, width / 2, { bold: true, align: 'right' });
+            ctx.y += rowHeight;
+        });
+    }
+
+    if (baseRows.length) {
+        ctx.y += 6;
+        baseRows.forEach(([label, value], index) => {
+            drawText(ctx, label, x, ctx.y, value ? width / 2 : width, { size: 8, bold: index === 0, color: GRAY_600 });
+            if (value) drawText(ctx, value, x + width / 2, ctx.y, width / 2, { size: 8, color: GRAY_600, align: 'right' });
+            ctx.y += baseRowHeight;
+        });
+    }
+    ctx.y += 24;
+};
+
+const drawGstSummaryTable = (ctx: PdfContext, title: string, rows: TaxSummaryRow[], showHsn: boolean, isIntraState: boolean) => {
+    const sum = (pick: (row: TaxSummaryRow) => number) => rows.reduce((acc, row) => acc + pick(row), 0);
+    const totalRow: TaxSummaryRow = {
+        hsn: 'Total',
+        taxRate: 0,
+        taxableValue: sum(row => row.taxableValue),
+        cgstAmount: sum(row => row.cgstAmount),
+        sgstAmount: sum(row => row.sgstAmount),
+        igstAmount: sum(row => row.igstAmount),
+        genericTaxAmount: sum(row => row.genericTaxAmount),
+        taxAmount: sum(row => row.taxAmount),
+    };
+    const isTotal = (row: TaxSummaryRow) => row === totalRow;
+    const columns = layoutColumns<TaxSummaryRow>([
+        ...(showHsn ? [{ header: 'HSN/SAC', width: 0, align: 'left' as Align, value: (row: TaxSummaryRow) => row.hsn || '—' }] : []),
+        { header: 'Rate', width: showHsn ? 50 : 0, align: showHsn ? 'right' : 'left', value: row => (isTotal(row) ? (showHsn ? '' : 'Total') : `${row.taxRate}%`) },
+        { header: 'Taxable Value', width: 95, align: 'right', value: row => money(ctx, row.taxableValue) },
+        ...(isIntraState
+            ? [
+                { header: 'CGST', width: 85, align: 'right' as Align, value: (row: TaxSummaryRow) => money(ctx, row.cgstAmount) },
+                { header: 'SGST', width: 85, align: 'right' as Align, value: (row: TaxSummaryRow) => money(ctx, row.sgstAmount) },
+            ]
+            : [{ header: 'IGST', width: 85, align: 'right' as Align, value: (row: TaxSummaryRow) => money(ctx, row.igstAmount) }]),
+        { header: 'Total Tax', width: 90, align: 'right', value: row => money(ctx, row.taxAmount), bold: true },
+    ], ctx.contentWidth);
+
+    const size = 8;
+    ensureSpace(ctx, lineHeight(ctx, 10) + 6 + (lineHeight(ctx, size) + CELL_PADDING * 2) * 3);
+    ctx.y += drawText(ctx, title, ctx.margin, ctx.y, ctx.contentWidth, { bold: true }) + 6;
+    const top = ctx.y;
+    const startPage = ctx.pdf.getNumberOfPages();
+    drawTableHeader(ctx, columns, GRAY_50, GRAY_600, size);
+    [...rows, totalRow].forEach(row => {
+        ensureSpace(ctx, measureTableRow(ctx, columns, row, size));
+        drawRowRule(ctx, isTotal(row) ? GRAY_200 : GRAY_100);
+        ctx.y += drawTableRow(ctx, isTotal(row) ? columns.map(column => ({ ...column, bold: true })) : columns, row, size);
+    });
+    // The outline is only drawn when the table did not break across pages
+    if (ctx.layout.tableStyle === 'filled' && ctx.pdf.getNumberOfPages() === startPage) {
+        ctx.pdf.setDrawColor(GRAY_200);
+        ctx.pdf.rect(ctx.margin, top, ctx.contentWidth, ctx.y - top, 'S');
+    }
+    ctx.y += 16;
+};
+
+// Scripts such as Devanagari need glyph shaping that jsPDF doesn't do, so text outside the Latin ranges
+// is laid out by the browser on a canvas and embedded as an image instead
+const needsRasterizing = (value: string): boolean => /[^\u0000-\u024f\u2000-\u20cf]/.test(value);
+
+const RASTER_SCALE = 4;
+
+const rasterizeText = (ctx: PdfContext, value: string, width: number, style: TextStyle): { dataUrl: string; height: number } => {
+    const fontSize = (style.size ?? 10) * ctx.layout.fontScale * RASTER_SCALE;
+    const font = `${style.bold ? 'bold ' : ''}${fontSize}px "Noto Sans Devanagari", "Nirmala UI", Mangal, sans-serif`;
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return { dataUrl: '', height: 0 };
+    context.font = font;
+
+    const lines: string[] = [];
+    value.split(/\s+/).forEach(word => {
+        const current = lines[lines.length - 1];
+        if (current !== undefined && context.measureText(`${current} ${word}`).width <= width * RASTER_SCALE) {
+            lines[lines.length - 1] = `${current} ${word}`;
+        } else {
+            lines.push(word);
+        }
+    });
+
+    const linePixels = fontSize * LINE_HEIGHT;
+    canvas.width = Math.ceil(width * RASTER_SCALE);
+    canvas.height = Math.ceil(lines.length * linePixels);
+    // Resizing the canvas resets its drawing state
+    context.font = font;
+    context.fillStyle = style.color ?? GRAY_800;
+    context.textBaseline = 'top';
+    lines.forEach((line, index) => context.fillText(line, 0, index * linePixels));
+    return { dataUrl: canvas.toDataURL('image/png'), height: canvas.height / RASTER_SCALE };
+};
+
+const drawAmountInWords = (ctx: PdfContext, total: number) => {
+    const { invoice } = ctx;
+    const words = toWords(total, invoice.currency, invoice.wordsLanguage);
+    const innerWidth = ctx.contentWidth - 24;
+    const raster = needsRasterizing(words) ? rasterizeText(ctx, words, innerWidth, {}) : null;
+    const wordsHeight = raster ? raster.height : measureText(ctx, words, innerWidth);
+    const height = 24 + lineHeight(ctx, 10) + wordsHeight;
+    ensureSpace(ctx, height);
+    drawPanel(ctx, ctx.y, height);
+    const labelHeight = drawText(ctx, 'Amount in words:', ctx.margin + 12, ctx.y + 12, innerWidth, { bold: true, color: GRAY_600 });
+    if (raster) {
+        if (raster.dataUrl) ctx.pdf.addImage(raster.dataUrl, 'PNG', ctx.margin + 12, ctx.y + 12 + labelHeight, innerWidth, raster.height);
+    } else {
+        drawText(ctx, words, ctx.margin + 12, ctx.y + 12 + labelHeight, innerWidth);
+    }
+    ctx.y += height + 20;
+};
+
+const drawNotes = (ctx: PdfContext) => {
+    const style: TextStyle = { size: 9, color: GRAY_600 };
+    ensureSpace(ctx, lineHeight(ctx, 10) + 6 + measureText(ctx, ctx.invoice.notes, ctx.contentWidth, style));
+    ctx.y += drawText(ctx, 'Notes / Terms & Conditions:', ctx.margin, ctx.y, ctx.contentWidth, { bold: true }) + 6;
+    ctx.y += drawText(ctx, ctx.invoice.notes, ctx.margin, ctx.y, ctx.contentWidth, style) + 20;
+};
+
+const drawPaymentDetails = (ctx: PdfContext, total: number) => {
+    const { bankDetails } = ctx.invoice;
+    const hasBank = Boolean(bankDetails.bankName || bankDetails.accountNumber);
+    const hasQr = hasUpiPayment(ctx.invoice, total) && typeof qrcode !== 'undefined';
+    if (!hasBank && !hasQr) return;
+
+    const style: TextStyle = { size: 9, color: GRAY_600 };
+    const bankLines = hasBank ? [
+        `Account Holder: ${bankDetails.name}`,
+        `Account Number: ${bankDetails.accountNumber}`,
+        `Bank Name: ${bankDetails.bankName}`,
+        `IFSC Code: ${bankDetails.ifscCode}`,
+    ] : [];
+    const bankHeight = hasBank ? lineHeight(ctx, 10) + 4 + bankLines.length * lineHeight(ctx, 9) : 0;
+    const qrSize = QR_SIZE * ctx.layout.fontScale;
+    const qrHeight = hasQr ? lineHeight(ctx, 10) + 6 + qrSize : 0;
+    ensureSpace(ctx, 20 + Math.max(bankHeight, qrHeight));
+
+    drawRule(ctx, ctx.y);
+    ctx.y += 16;
+    if (hasBank) {
+        let y = ctx.y + drawText(ctx, 'Bank Details:', ctx.margin, ctx.y, ctx.contentWidth / 2, { bold: true }) + 4;
+        bankLines.forEach(line => {
+            y += drawText(ctx, line, ctx.margin, y, ctx.contentWidth / 2, style);
+        });
+    }
+    if (hasQr) {
+        const x = ctx.margin + ctx.contentWidth - qrSize;
+        const labelHeight = drawText(ctx, 'Scan to Pay', x - 20, ctx.y, qrSize + 40, { bold: true, align: 'center' }) + 6;
+        drawQrCode(ctx, buildUpiPaymentUri(ctx.invoice, getBalanceDue(ctx.invoice, total)), x, ctx.y + labelHeight, qrSize);
+    }
+    ctx.y += Math.max(bankHeight, qrHeight) + 20;
+};
+
+const drawGstSummaries = (ctx: PdfContext, calculations: InvoiceCalculations) => {
+    if (!hasGstSummary(calculations)) return;
+    const isIntraState = calculations.taxTreatment === 'intra-state';
+    drawGstSummaryTable(ctx, 'GST Summary by Rate', calculations.taxByRate, false, isIntraState);
+    if (ctx.layout.showHsnSummary) {
+        drawGstSummaryTable(ctx, 'GST Summary by HSN/SAC', calculations.taxByHsn, true, isIntraState);
+    }
+};
+
+const drawFooter = (ctx: PdfContext) => {
+    ensureSpace(ctx, 40);
+    ctx.y += 12;
+    drawRule(ctx, ctx.y);
+    ctx.y += 10;
+    ctx.y += drawText(ctx, 'Thank you for your business!', ctx.margin, ctx.y, ctx.contentWidth, { size: 8, color: GRAY_400, align: 'center' });
+};
+
+// Everything after the item table, which should land on the last page as one block
+const drawClosingSections = (ctx: PdfContext, calculations: InvoiceCalculations, includeGstSummaries: boolean) => {
+    drawTotals(ctx, calculations);
+    if (includeGstSummaries) {
+        drawGstSummaries(ctx, calculations);
+    }
+    drawAmountInWords(ctx, calculations.total);
+    if (ctx.invoice.notes) {
+        drawNotes(ctx);
+    }
+    drawPaymentDetails(ctx, calculations.total);
+    drawFooter(ctx);
+};
+
+const drawClosing = (ctx: PdfContext, calculations: InvoiceCalculations) => {
+    const pageContentHeight = ctx.pageHeight - ctx.margin * 2 - PAGE_FOOTER_HEIGHT;
+    const fullHeight = measureBlock(ctx, probe => drawClosingSections(probe, calculations, true));
+    if (fullHeight <= pageContentHeight) {
+        ensureSpace(ctx, fullHeight);
+        drawClosingSections(ctx, calculations, true);
+        return;
+    }
+    // GST summaries too long to share a page are moved ahead, so the totals, bank details and QR still stay together
+    drawGstSummaries(ctx, calculations);
+    ensureSpace(ctx, measureBlock(ctx, probe => drawClosingSections(probe, calculations, false)));
+    drawClosingSections(ctx, calculations, false);
+};
+
+// Stamped on every page at low opacity so the content underneath stays readable
+const drawPaidWatermark = (ctx: PdfContext, total: number) => {
+    if (!ctx.invoice.showPaidWatermark || getInvoiceStatus(ctx.invoice, total) !== 'Paid') return;
+    const pageCount: number = ctx.pdf.getNumberOfPages();
+    const size = 110 * ctx.layout.fontScale;
+    for (let page = 1; page <= pageCount; page++) {
+        ctx.pdf.setPage(page);
+        ctx.pdf.saveGraphicsState();
+        ctx.pdf.setGState(new ctx.pdf.GState({ opacity: 0.15 }));
+        ctx.pdf.setFont(ctx.fontFamily, 'bold');
+        ctx.pdf.setFontSize(size);
+        ctx.pdf.setTextColor(PAID_COLOR);
+        ctx.pdf.text('PAID', ctx.pageWidth / 2, ctx.pageHeight / 2, { align: 'center', baseline: 'middle', angle: 30 });
+        ctx.pdf.restoreGraphicsState();
+    }
+};
+
+const drawPageNumbers = (ctx: PdfContext) => {
+    const pageCount: number = ctx.pdf.getNumberOfPages();
+    const y = ctx.pageHeight - ctx.margin - lineHeight(ctx, 8) + 6;
+    const label = `${ctx.invoice.invoiceType} ${ctx.invoice.invoiceNumber}`.trim();
+    for (let page = 1; page <= pageCount; page++) {
+        ctx.pdf.setPage(page);
+        drawText(ctx, label, ctx.margin, y, ctx.contentWidth / 2, { size: 8, color: GRAY_400 });
+        drawText(ctx, `Page ${page} of ${pageCount}`, ctx.margin + ctx.contentWidth / 2, y, ctx.contentWidth / 2, { size: 8, color: GRAY_400, align: 'right' });
+    }
+};
+
+// Builds the invoice as a vector PDF from the invoice data, so text stays selectable and sharp.
+// The invoice's template decides the page size, colors and table style.
+export const renderInvoicePdf = async (invoice: Invoice, calculations: InvoiceCalculations): Promise<Blob> => {
+    const { jsPDF } = jspdf;
+    const layout = getTemplate(invoice.templateId).pdf;
+    // Only the fonts actually drawn with go into the file; jsPDF otherwise lists all 14 standard fonts, unembedded,
+    // which PDF/A forbids
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: layout.pageFormat, putOnlyUsedFonts: true });
+    const scratchPdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: layout.pageFormat });
+    const [fontFamily, , logo] = await Promise.all([
+        registerPdfFonts(pdf),
+        registerPdfFonts(scratchPdf),
+        invoice.logo ? loadLogo(invoice.logo).catch(error => {
+            console.error("Error embedding logo in PDF", error);
+            return null;
+        }) : Promise.resolve(null),
+    ]);
+
+    const pageWidth: number = pdf.internal.pageSize.getWidth();
+    const ctx: PdfContext = {
+        pdf,
+        scratchPdf,
+        invoice,
+        layout,
+        fontFamily,
+        margin: layout.margin,
+        pageWidth,
+        pageHeight: pdf.internal.pageSize.getHeight(),
+        contentWidth: pageWidth - layout.margin * 2,
+        accentColor: layout.accent === 'theme' ? invoice.themeColor || '#10B981' : GRAY_900,
+        y: layout.margin,
+    };
+    pdf.setProperties({ title: `${invoice.invoiceType} ${invoice.invoiceNumber}`.trim(), author: invoice.business.name, creator: 'Sayinvoice' });
+
+    drawHeader(ctx, logo);
+    drawEInvoiceDetails(ctx);
+    drawParties(ctx);
+    drawItemsTable(ctx, calculations);
+    drawClosing(ctx, calculations);
+    drawPaidWatermark(ctx, calculations.total);
+    drawPageNumbers(ctx);
+
+    return pdf.output('blob');
+};
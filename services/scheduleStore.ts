@@ -0,0 +1,93 @@
+import { Invoice, RecurringSchedule, StoredInvoice } from '../types';
+import { STORES, getAllRecords, putRecord, updateRecord, deleteRecord } from './db';
+import { reserveNextNumber } from './sequenceStore';
+import { createInvoiceId, getStoredInvoice, saveInvoice } from './invoiceStore';
+import { calculateInvoice } from '../utils/calculations';
+import { getNextRunDate } from '../utils/recurrence';
+import { addDays, daysBetween, getToday } from '../utils/dates';
+import { applyPaymentTerms } from '../utils/paymentTerms';
+
+// A schedule started far in the past catches up a year of monthly runs per app start rather than flooding the review queue
+const MAX_RUNS_PER_START = 12;
+
+// The template keeps the parties, lines, tax setup and terms; everything that belongs to one issued document is dropped
+export const createSchedule = (invoice: Invoice, fields: Partial<RecurringSchedule> = {}): RecurringSchedule => {
+    const { convertedFrom, convertedTo, originalInvoice, adjustments, recurrence, eInvoice, ...template } = structuredClone(invoice);
+    return {
+        id: crypto.randomUUID(),
+        label: invoice.client.name,
+        template: { ...template, invoiceNumber: '', issueStatus: 'Draft', payments: [], showPaidWatermark: false },
+        frequency: 'monthly',
+        startDate: invoice.date,
+        endDate: '',
+        dayOfMonth: null,
+        lastRunDate: '',
+        ...fields,
+        updatedAt: new Date().toISOString(),
+    };
+};
+
+export const listSchedules = async (): Promise<RecurringSchedule[]> => {
+    const records = await getAllRecords<RecurringSchedule>(STORES.schedules);
+    return records.sort((a, b) => a.label.localeCompare(b.label));
+};
+
+export const saveSchedule = async (schedule: RecurringSchedule): Promise<RecurringSchedule> => {
+    const saved = { ...schedule, updatedAt: new Date().toISOString() };
+    await putRecord(STORES.schedules, saved);
+    return saved;
+};
+
+// Invoices already generated stay in the library and keep the schedule's label
+export const deleteSchedule = (id: string): Promise<void> => deleteRecord(STORES.schedules, id);
+
+// Moves the schedule past `runDate` only if no one else has, so two tabs starting together can't both generate the run.
+// Returns the claimed schedule, or null when another tab got there first or the schedule was deleted meanwhile.
+const claimRun = async (schedule: RecurringSchedule, runDate: string): Promise<RecurringSchedule | null> => {
+    let claimed: RecurringSchedule | null = null;
+    await updateRecord<RecurringSchedule>(STORES.schedules, schedule.id, current => {
+        if (!current || current.lastRunDate !== schedule.lastRunDate) return current;
+        claimed = { ...current, lastRunDate: runDate };
+        return claimed;
+    });
+    return claimed;
+};
+
+const generateInvoice = async (schedule: RecurringSchedule, runDate: string): Promise<StoredInvoice> => {
+    const { template } = schedule;
+    const invoiceNumber = await reserveNextNumber(template.invoiceType, runDate);
+    // Payment terms work the due date out from the run date; a hand-entered one keeps the original invoice's gap
+    const invoice: Invoice = applyPaymentTerms({
+        ...structuredClone(template),
+        invoiceNumber,
+        date: runDate,
+        dueDate: template.date && template.dueDate ? addDays(runDate, daysBetween(template.date, template.dueDate)) : '',
+        // The original invoice's rate would be stale; the reviewer enters the one for the run date
+        exchangeRate: { rate: 0, date: '', source: 'manual' },
+        recurrence: { scheduleId: schedule.id, label: schedule.label, pendingReview: true },
+    });
+    return saveInvoice(createInvoiceId(), invoice, calculateInvoice(invoice));
+};
+
+// Generates every run that has fallen due by `today`, oldest first. The invoices are saved as drafts awaiting review.
+export const generateDueInvoices = async (today: string = getToday()): Promise<StoredInvoice[]> => {
+    const generated: StoredInvoice[] = [];
+    for (let schedule of await listSchedules()) {
+        for (let run = 0; run < MAX_RUNS_PER_START; run++) {
+            const runDate = getNextRunDate(schedule);
+            if (!runDate || runDate > today) break;
+            const claimed = await claimRun(schedule, runDate);
+            if (!claimed) break;
+            generated.push(await generateInvoice(claimed, runDate));
+            schedule = claimed;
+        }
+    }
+    return generated;
+};
+
+export const approveGeneratedInvoice = async (id: string): Promise<void> => {
+    const record = await getStoredInvoice(id);
+    if (!record?.invoice.recurrence) return;
+    const invoice: Invoice = { ...record.invoice, recurrence: { ...record.invoice.recurrence, pendingReview: false } };
+    await saveInvoice(id, invoice, calculateInvoice(invoice));
+};
@@ -0,0 +1,23 @@
+import { InvoiceType, NumberingSequence } from '../types';
+import { DEFAULT_SEQUENCES, advanceSequence, createDefaultSequence, formatDocumentNumber, getNextCounter } from '../utils/numbering';
+import { STORES, getAllRecords, putRecord, updateRecord } from './db';
+
+// Types that have never been configured come back with their default template
+export const listSequences = async (): Promise<NumberingSequence[]> => {
+    const saved = await getAllRecords<NumberingSequence>(STORES.sequences);
+    return (Object.keys(DEFAULT_SEQUENCES) as InvoiceType[]).map(type => saved.find(sequence => sequence.id === type) ?? createDefaultSequence(type));
+};
+
+export const saveSequence = (sequence: NumberingSequence): Promise<void> => putRecord(STORES.sequences, sequence);
+
+// Takes the next number for a document dated `date` and advances the counter
+export const reserveNextNumber = async (type: InvoiceType, date?: string): Promise<string> => {
+    let reserved = '';
+    await updateRecord<NumberingSequence>(STORES.sequences, type, current => {
+        const sequence = current ?? createDefaultSequence(type, date);
+        const counter = getNextCounter(sequence, date);
+        reserved = formatDocumentNumber(sequence, counter, date);
+        return advanceSequence(sequence, counter, date);
+    });
+    return reserved;
+};
@@ -2,12 +2,16 @@ export interface Business {
     name: string;
     address: string;
     email: string;
+    gstin: string;
+    state: string;
 }
 
 export interface Client {
     name: string;
     address: string;
     email: string;
+    gstin: string;
+    state: string;
 }
 
 export interface Item {
@@ -16,6 +20,8 @@ export interface Item {
     quantity: number;
     price: number;
     hsn: string;
+    unit?: string;
+    taxRate: number;
 }
 
 export interface BankDetails {
@@ -26,8 +32,88 @@ export interface BankDetails {
     upiId?: string;
 }
 
-export type InvoiceType = 'Invoice' | 'Tax Invoice' | 'Quotation' | 'Proforma Invoice' | 'Estimate';
-export type Currency = 'INR' | 'USD' | 'EUR' | 'GBP';
+export type InvoiceType = 'Invoice' | 'Tax Invoice' | 'Quotation' | 'Proforma Invoice' | 'Estimate' | 'Credit Note' | 'Debit Note';
+// ISO 4217 code; the supported codes and how each is formatted live in utils/currencies
+export type Currency = string;
+// Intra-state supplies split GST into CGST + SGST, inter-state supplies charge IGST
+export type TaxTreatment = 'intra-state' | 'inter-state' | 'non-gst';
+export type TemplateId = 'colorful' | 'minimal' | 'classic-gst' | 'compact';
+// Language the amount in words is written in
+export type WordsLanguage = 'en' | 'hi';
+
+// Units of the base currency (INR) per one unit of the invoice currency, as on `date`
+export interface ExchangeRate {
+    rate: number;
+    date: string;
+    source: 'manual' | 'rates-file';
+}
+
+// Status the user sets; Partially Paid, Paid and Overdue are worked out from payments and the due date
+export type IssueStatus = 'Draft' | 'Sent' | 'Void';
+export type InvoiceStatus = IssueStatus | 'Partially Paid' | 'Paid' | 'Overdue';
+export type PaymentMode = 'Bank Transfer' | 'UPI' | 'Cash' | 'Cheque' | 'Card' | 'Other';
+
+export interface Payment {
+    id: string;
+    date: string;
+    amount: number;
+    mode: PaymentMode;
+    // UTR, cheque number or similar
+    reference: string;
+}
+
+// 'manual' keeps the due date as entered; every other code works it out from the invoice date
+export type PaymentTermsCode = 'manual' | 'due-on-receipt' | 'net-7' | 'net-15' | 'net-30' | 'net-45' | 'net-60' | 'end-of-month' | 'custom';
+
+export interface PaymentTerms {
+    code: PaymentTermsCode;
+    // Days after the invoice date, for 'custom'
+    customDays: number;
+}
+
+// Charged on an overdue invoice: `value` is an amount in the invoice currency for 'flat', a percentage for 'percent-per-month'
+export interface LateFeeRule {
+    type: 'none' | 'flat' | 'percent-per-month';
+    value: number;
+}
+
+// 'per-line' rounds each line's value and tax to the smallest coin before totalling; 'per-total' rounds only the totals
+export type RoundingMode = 'per-line' | 'per-total';
+
+// Points at another saved document; conversions keep one on each side so either can open the other
+export interface DocumentLink {
+    id: string;
+    invoiceType: InvoiceType;
+    // Number at the time of linking, shown if the linked document can't be looked up
+    invoiceNumber: string;
+}
+
+// The invoice a credit or debit note adjusts, with the number and date it is quoted by on the note
+export interface OriginalInvoiceLink extends DocumentLink {
+    date: string;
+}
+
+// A credit or debit note issued against an invoice, with the note's total as last saved
+export interface NoteAdjustment extends DocumentLink {
+    amount: number;
+}
+
+// Set on invoices a recurring schedule generated, until they are approved from the review queue
+export interface RecurrenceLink {
+    scheduleId: string;
+    // Schedule label at the time of generation, shown if the schedule has since been deleted
+    label: string;
+    pendingReview: boolean;
+}
+
+// What the Invoice Registration Portal returns once an e-invoice is registered; printed on the invoice
+export interface EInvoiceRegistration {
+    irn: string;
+    ackNumber: string;
+    ackDate: string;
+    // Signed JWT the e-invoice QR code encodes
+    signedQrCode: string;
+}
 
 export interface Invoice {
     logo: string | null;
@@ -35,16 +121,125 @@ export interface Invoice {
     invoiceNumber: string;
     date: string;
     dueDate: string;
+    paymentTerms: PaymentTerms;
+    lateFee: LateFeeRule;
     business: Business;
     client: Client;
+    // The client's purchase order number or other reference, quoted back to them in e-invoices
+    buyerReference: string;
     items: Item[];
-    cgstRate: number;
-    sgstRate: number;
-    igstRate: number;
-    taxRate: number;
+    taxTreatment: TaxTreatment;
+    placeOfSupply: string;
     discountRate: number;
+    roundingMode: RoundingMode;
+    // Rounds the grand total to a whole rupee (or other major unit), showing the difference as a "Round Off" line
+    roundOff: boolean;
     currency: Currency;
+    // Only used when the invoice currency differs from the base currency
+    exchangeRate: ExchangeRate;
     bankDetails: BankDetails;
     notes: string;
     themeColor: string;
-}
\ No newline at end of file
+    templateId: TemplateId;
+    wordsLanguage: WordsLanguage;
+    issueStatus: IssueStatus;
+    payments: Payment[];
+    showPaidWatermark: boolean;
+    businessProfileId?: string;
+    // Quotation or estimate this document was converted from
+    convertedFrom?: DocumentLink;
+    // Documents created from this one; a converted quotation counts as accepted
+    convertedTo?: DocumentLink[];
+    // Set on credit and debit notes
+    originalInvoice?: OriginalInvoiceLink;
+    // Notes issued against this invoice; they change its balance due
+    adjustments?: NoteAdjustment[];
+    recurrence?: RecurrenceLink;
+    eInvoice?: EInvoiceRegistration;
+}
+
+// Invoice amounts converted to the base currency, kept with the saved invoice for reports and exports
+export interface BaseCurrencyAmounts {
+    currency: Currency;
+    exchangeRate: number;
+    rateDate: string;
+    subtotal: number;
+    discountAmount: number;
+    taxableAmount: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    genericTaxAmount: number;
+    taxAmount: number;
+    total: number;
+}
+
+export interface StoredInvoice {
+    id: string;
+    invoice: Invoice;
+    total: number;
+    // Missing while a foreign-currency invoice has no exchange rate yet
+    baseAmounts?: BaseCurrencyAmounts;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ClientRecord extends Client {
+    id: string;
+    phone: string;
+    defaultCurrency: Currency;
+    updatedAt: string;
+}
+
+export interface BusinessProfile {
+    id: string;
+    label: string;
+    business: Business;
+    bankDetails: BankDetails;
+    logo: string | null;
+    themeColor: string;
+    notes: string;
+    updatedAt: string;
+}
+
+export interface CatalogItem {
+    id: string;
+    description: string;
+    price: number;
+    hsn: string;
+    unit: string;
+    taxRate: number;
+    updatedAt: string;
+}
+
+export interface NumberingSequence {
+    // One sequence per document type, keyed by the type itself
+    id: InvoiceType;
+    prefix: string;
+    suffix: string;
+    padding: number;
+    resetEachFinancialYear: boolean;
+    nextNumber: number;
+    // Financial year the counter belongs to, e.g. "2026-27"
+    financialYear: string;
+    // Next counter of each earlier financial year, for documents back-dated into it
+    counters?: Record<string, number>;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Raises a copy of `template` each period from startDate, up to endDate when one is set
+export interface RecurringSchedule {
+    id: string;
+    label: string;
+    // Snapshot of the invoice the schedule was built from, without its number, status or links
+    template: Invoice;
+    frequency: RecurrenceFrequency;
+    startDate: string;
+    endDate: string;
+    // Day monthly, quarterly and yearly runs fall on, clamped to short months; the start date's day when null
+    dayOfMonth: number | null;
+    // Date of the last invoice generated; the next run is worked out from it
+    lastRunDate: string;
+    updatedAt: string;
+}
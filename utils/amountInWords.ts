@@ -0,0 +1,148 @@
+import { Currency, WordsLanguage } from '../types';
+import { getCurrency } from './currencies';
+
+export const WORDS_LANGUAGES: { id: WordsLanguage; label: string }[] = [
+    { id: 'en', label: 'English' },
+    { id: 'hi', label: 'हिन्दी (Hindi)' },
+];
+
+// [singular, plural] names of a currency's main and fractional units
+interface CurrencyUnitNames {
+    major: [string, string];
+    minor: [string, string];
+}
+
+interface LanguageWords {
+    // Words for 0-99; Hindi has an irregular word for each of these, English builds 21-99 from tens
+    belowHundred: (n: number) => string;
+    hundred: string;
+    // English says "one hundred and five", Hindi runs the words together
+    andAfterHundred: boolean;
+    // Largest first, in the order they are taken off the number
+    indianScale: [number, string][];
+    internationalScale: [number, string][];
+    and: string;
+    only: string;
+    minus: string;
+    zero: string;
+    // Translated unit names; currencies missing here fall back to the English names in the currency registry
+    units: Partial<Record<Currency, CurrencyUnitNames>>;
+    capitalize: boolean;
+}
+
+const ENGLISH_ONES = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const ENGLISH_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const HINDI_BELOW_HUNDRED = [
+    'शून्य', 'एक', 'दो', 'तीन', 'चार', 'पाँच', 'छह', 'सात', 'आठ', 'नौ',
+    'दस', 'ग्यारह', 'बारह', 'तेरह', 'चौदह', 'पंद्रह', 'सोलह', 'सत्रह', 'अठारह', 'उन्नीस',
+    'बीस', 'इक्कीस', 'बाईस', 'तेईस', 'चौबीस', 'पच्चीस', 'छब्बीस', 'सत्ताईस', 'अट्ठाईस', 'उनतीस',
+    'तीस', 'इकतीस', 'बत्तीस', 'तैंतीस', 'चौंतीस', 'पैंतीस', 'छत्तीस', 'सैंतीस', 'अड़तीस', 'उनतालीस',
+    'चालीस', 'इकतालीस', 'बयालीस', 'तैंतालीस', 'चवालीस', 'पैंतालीस', 'छियालीस', 'सैंतालीस', 'अड़तालीस', 'उनचास',
+    'पचास', 'इक्यावन', 'बावन', 'तिरपन', 'चौवन', 'पचपन', 'छप्पन', 'सत्तावन', 'अट्ठावन', 'उनसठ',
+    'साठ', 'इकसठ', 'बासठ', 'तिरसठ', 'चौंसठ', 'पैंसठ', 'छियासठ', 'सड़सठ', 'अड़सठ', 'उनहत्तर',
+    'सत्तर', 'इकहत्तर', 'बहत्तर', 'तिहत्तर', 'चौहत्तर', 'पचहत्तर', 'छिहत्तर', 'सतहत्तर', 'अठहत्तर', 'उन्यासी',
+    'अस्सी', 'इक्यासी', 'बयासी', 'तिरासी', 'चौरासी', 'पचासी', 'छियासी', 'सत्तासी', 'अट्ठासी', 'नवासी',
+    'नब्बे', 'इक्यानबे', 'बानबे', 'तिरानबे', 'चौरानबे', 'पंचानबे', 'छियानबे', 'सत्तानबे', 'अट्ठानबे', 'निन्यानबे',
+];
+
+const LANGUAGES: Record<WordsLanguage, LanguageWords> = {
+    en: {
+        belowHundred: n => (n < 20 ? ENGLISH_ONES[n] : `${ENGLISH_TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ENGLISH_ONES[n % 10]}` : ''}`),
+        hundred: 'hundred',
+        andAfterHundred: true,
+        indianScale: [[10000000, 'crore'], [100000, 'lakh'], [1000, 'thousand']],
+        internationalScale: [[1000000000, 'billion'], [1000000, 'million'], [1000, 'thousand']],
+        and: 'and',
+        only: 'Only',
+        minus: 'Minus',
+        zero: 'Zero',
+        units: {},
+        capitalize: true,
+    },
+    hi: {
+        belowHundred: n => HINDI_BELOW_HUNDRED[n],
+        hundred: 'सौ',
+        andAfterHundred: false,
+        indianScale: [[10000000, 'करोड़'], [100000, 'लाख'], [1000, 'हज़ार']],
+        // Hindi is written with lakh and crore whatever the currency
+        internationalScale: [[10000000, 'करोड़'], [100000, 'लाख'], [1000, 'हज़ार']],
+        and: 'और',
+        only: 'मात्र',
+        minus: 'ऋण',
+        zero: 'शून्य',
+        units: {
+            INR: { major: ['रुपया', 'रुपये'], minor: ['पैसा', 'पैसे'] },
+            USD: { major: ['डॉलर', 'डॉलर'], minor: ['सेंट', 'सेंट'] },
+            EUR: { major: ['यूरो', 'यूरो'], minor: ['सेंट', 'सेंट'] },
+            GBP: { major: ['पाउंड', 'पाउंड'], minor: ['पेनी', 'पेंस'] },
+            AED: { major: ['दिरहम', 'दिरहम'], minor: ['फ़िल्स', 'फ़िल्स'] },
+            SGD: { major: ['सिंगापुर डॉलर', 'सिंगापुर डॉलर'], minor: ['सेंट', 'सेंट'] },
+            AUD: { major: ['ऑस्ट्रेलियाई डॉलर', 'ऑस्ट्रेलियाई डॉलर'], minor: ['सेंट', 'सेंट'] },
+            JPY: { major: ['येन', 'येन'], minor: ['सेन', 'सेन'] },
+        },
+        capitalize: false,
+    },
+};
+
+const convertBelowThousand = (n: number, words: LanguageWords): string => {
+    const parts: string[] = [];
+    if (n >= 100) {
+        parts.push(`${words.belowHundred(Math.floor(n / 100))} ${words.hundred}`);
+        n %= 100;
+        if (n > 0 && words.andAfterHundred) parts.push(words.and);
+    }
+    if (n > 0) parts.push(words.belowHundred(n));
+    return parts.join(' ');
+};
+
+const convertWhole = (n: number, words: LanguageWords, scale: [number, string][]): string => {
+    const parts: string[] = [];
+    let remaining = n;
+    scale.forEach(([size, name]) => {
+        const count = Math.floor(remaining / size);
+        if (count > 0) {
+            // Counts above the top of the scale, like "two hundred crore", are spelled out recursively
+            parts.push(`${count >= 1000 ? convertWhole(count, words, scale) : convertBelowThousand(count, words)} ${name}`);
+            remaining %= size;
+        }
+    });
+    if (remaining > 0) parts.push(convertBelowThousand(remaining, words));
+    return parts.join(' ');
+};
+
+const capitalizeFirst = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Spells out an amount the way it is written on Indian invoices, e.g. "One thousand Rupees and Fifty Paise Only".
+// Currencies with Indian grouping use lakh/crore, the rest use million/billion.
+export const toWords = (amount: number, currency: Currency, language: WordsLanguage = 'en'): string => {
+    const words = LANGUAGES[language] ?? LANGUAGES.en;
+    if (!isFinite(amount)) return 'Invalid Number'; // Handles NaN and Infinity
+    if (amount < 0) return `${words.minus} ${toWords(Math.abs(amount), currency, language)}`;
+
+    const definition = getCurrency(currency);
+    const scale = definition.grouping === 'indian' ? words.indianScale : words.internationalScale;
+    const units = words.units[currency] ?? definition.unitNames;
+    const minorPerMajor = 10 ** definition.minorUnits;
+    const minor = Math.round(amount * minorPerMajor);
+    const whole = Math.floor(minor / minorPerMajor);
+    const fraction = minor % minorPerMajor;
+
+    // Unknown currencies have no minor unit name, which is left out rather than leaving a double space
+    const unitName = ([singular, plural]: [string, string], count: number) => (count === 1 ? singular : plural);
+    const withUnit = (text: string, names: [string, string], count: number) => [text, unitName(names, count)].filter(Boolean).join(' ');
+    const spell = (n: number) => {
+        const text = convertWhole(n, words, scale);
+        return words.capitalize ? capitalizeFirst(text) : text;
+    };
+
+    if (whole === 0 && fraction === 0) return `${words.zero} ${units.major[1]} ${words.only}`;
+
+    const parts: string[] = [];
+    if (whole > 0) parts.push(withUnit(spell(whole), units.major, whole));
+    if (fraction > 0) {
+        if (parts.length) parts.push(words.and);
+        parts.push(withUnit(spell(fraction), units.minor, fraction));
+    }
+    return `${parts.join(' ')} ${words.only}`;
+};
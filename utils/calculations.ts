@@ -0,0 +1,156 @@
+import { Invoice, Item, TaxTreatment } from '../types';
+import { resolveTaxTreatment } from './gst';
+import { getCurrency } from './currencies';
+import { fromMinorUnits, multiplyRounded, roundOffDigits } from './money';
+
+export interface LineCalculation {
+    itemId: number;
+    hsn: string;
+    taxRate: number;
+    amount: number;
+    discountAmount: number;
+    taxableValue: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    genericTaxAmount: number;
+    taxAmount: number;
+    total: number;
+}
+
+export interface TaxSummaryRow {
+    hsn: string;
+    taxRate: number;
+    taxableValue: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    genericTaxAmount: number;
+    taxAmount: number;
+}
+
+export interface InvoiceCalculations {
+    taxTreatment: TaxTreatment;
+    subtotal: number;
+    discountAmount: number;
+    taxableAmount: number;
+    cgstAmount: number;
+    sgstAmount: number;
+    igstAmount: number;
+    genericTaxAmount: number;
+    taxAmount: number;
+    // Added to reach a whole-rupee total when the invoice rounds off; negative when rounding down
+    roundOff: number;
+    total: number;
+    lines: LineCalculation[];
+    taxByRate: TaxSummaryRow[];
+    taxByHsn: TaxSummaryRow[];
+}
+
+// Line values are kept this many digits below the smallest coin when only the totals are rounded
+const TOTAL_ROUNDING_DIGITS = 4;
+
+const TAX_HEADS = ['cgstAmount', 'sgstAmount', 'igstAmount', 'genericTaxAmount'] as const;
+type TaxHead = typeof TAX_HEADS[number];
+
+// Amounts in whole units of 10^-(minor units + extra digits), so sums are exact integer additions
+interface ScaledLine extends Record<TaxHead, number> {
+    item: Item;
+    amount: number;
+    taxableValue: number;
+}
+
+// Intra-state supplies charge half the rate as CGST and half as SGST, each rounded on its own as the law reads
+const getTaxHeads = (taxableValue: number, taxRate: number, treatment: TaxTreatment): Record<TaxHead, number> => {
+    const taxOf = (rate: number) => multiplyRounded(taxableValue, rate, -2);
+    const halfTax = treatment === 'intra-state' ? taxOf(taxRate / 2) : 0;
+    return {
+        cgstAmount: halfTax,
+        sgstAmount: halfTax,
+        igstAmount: treatment === 'inter-state' ? taxOf(taxRate) : 0,
+        genericTaxAmount: treatment === 'non-gst' ? taxOf(taxRate) : 0,
+    };
+};
+
+const sumOf = (lines: ScaledLine[], pick: (line: ScaledLine) => number): number => lines.reduce((acc, line) => acc + pick(line), 0);
+
+const mapTaxHeads = (pick: (head: TaxHead) => number): Record<TaxHead, number> =>
+    Object.fromEntries(TAX_HEADS.map(head => [head, pick(head)])) as Record<TaxHead, number>;
+
+// Rounds a group of lines (one line, a summary row or the whole invoice) to minor units and converts it back to
+// amounts. Each tax head is rounded on its own and the tax is their sum, so the printed heads add up.
+const totalLines = (lines: ScaledLine[], toMinor: (scaled: number) => number, minorUnits: number) => {
+    const toAmount = (units: number) => fromMinorUnits(units, minorUnits);
+    const amount = toMinor(sumOf(lines, line => line.amount));
+    const taxableValue = toMinor(sumOf(lines, line => line.taxableValue));
+    const heads = mapTaxHeads(head => toMinor(sumOf(lines, line => line[head])));
+    const taxAmount = TAX_HEADS.reduce((acc, head) => acc + heads[head], 0);
+    return {
+        amount: toAmount(amount),
+        // Whatever separates the amount from the taxable value, so the printed rows always add up
+        discountAmount: toAmount(amount - taxableValue),
+        taxableValue: toAmount(taxableValue),
+        ...mapTaxHeads(head => toAmount(heads[head])),
+        taxAmount: toAmount(taxAmount),
+        totalUnits: taxableValue + taxAmount,
+    };
+};
+
+const summarize = (lines: ScaledLine[], keyOf: (line: ScaledLine) => string, toMinor: (scaled: number) => number, minorUnits: number): TaxSummaryRow[] => {
+    const groups = new Map<string, ScaledLine[]>();
+    lines.forEach(line => groups.set(keyOf(line), [...(groups.get(keyOf(line)) ?? []), line]));
+    return [...groups.values()]
+        .map(group => {
+            const { amount, discountAmount, totalUnits, ...row } = totalLines(group, toMinor, minorUnits);
+            return { hsn: group[0].item.hsn.trim(), taxRate: group[0].item.taxRate || 0, ...row };
+        })
+        .sort((a, b) => a.taxRate - b.taxRate || a.hsn.localeCompare(b.hsn));
+};
+
+// All arithmetic is on integers in the currency's minor units, so totals match accounting software to the paisa.
+// Rounding 'per-line' rounds every line's value and tax before adding them up; 'per-total' keeps line values
+// unrounded and rounds each total once. The invoice-wide discount is spread over the lines so tax is charged on
+// each line's discounted value.
+export const calculateInvoice = (invoice: Invoice): InvoiceCalculations => {
+    const treatment = resolveTaxTreatment(invoice);
+    const { minorUnits } = getCurrency(invoice.currency);
+    const extraDigits = invoice.roundingMode === 'per-total' ? TOTAL_ROUNDING_DIGITS : 0;
+    const toMinor = (scaled: number) => roundOffDigits(scaled, extraDigits);
+
+    const scaledLines: ScaledLine[] = invoice.items.map(item => {
+        const amount = multiplyRounded(item.quantity, item.price, minorUnits + extraDigits);
+        const taxableValue = amount - multiplyRounded(amount, invoice.discountRate, -2);
+        return { item, amount, taxableValue, ...getTaxHeads(taxableValue, item.taxRate || 0, treatment) };
+    });
+
+    const lines: LineCalculation[] = scaledLines.map(line => {
+        const { totalUnits, ...values } = totalLines([line], toMinor, minorUnits);
+        return {
+            itemId: line.item.id,
+            hsn: line.item.hsn.trim(),
+            taxRate: line.item.taxRate || 0,
+            ...values,
+            total: fromMinorUnits(totalUnits, minorUnits),
+        };
+    });
+
+    const { amount, taxableValue, totalUnits, ...totals } = totalLines(scaledLines, toMinor, minorUnits);
+    // GST invoices show the difference to the nearest rupee as its own "Round off" line
+    const roundedUnits = invoice.roundOff ? roundOffDigits(totalUnits, minorUnits) * 10 ** minorUnits : totalUnits;
+
+    return {
+        taxTreatment: treatment,
+        subtotal: amount,
+        taxableAmount: taxableValue,
+        ...totals,
+        roundOff: fromMinorUnits(roundedUnits - totalUnits, minorUnits),
+        total: fromMinorUnits(roundedUnits, minorUnits),
+        lines,
+        taxByRate: summarize(scaledLines, line => String(line.item.taxRate || 0), toMinor, minorUnits),
+        taxByHsn: summarize(scaledLines, line => `${line.item.hsn.trim()}|${line.item.taxRate || 0}`, toMinor, minorUnits),
+    };
+};
+
+// The CGST/SGST/IGST breakdown tables are only printed when GST is actually charged
+export const hasGstSummary = (calculations: InvoiceCalculations): boolean =>
+    calculations.taxTreatment !== 'non-gst' && calculations.taxAmount > 0;
@@ -0,0 +1,164 @@
+import { BankDetails, Business, Invoice } from '../types';
+import { InvoiceCalculations } from './calculations';
+import { getStateName } from './indianStates';
+import { getCurrency } from './currencies';
+import { getPaymentTermsText } from './paymentTerms';
+import { ValidationIssue } from './validation';
+import { isNote } from './notes';
+import { field, group } from './xml';
+import { PAYMENT_MEANS_CODES, getCountryCode, getDocumentTypeCode, getTaxCategoryCode, isIban, toUnitCode, validateEn16931 } from './en16931';
+
+const NAMESPACES = {
+    'xmlns:rsm': 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100',
+    'xmlns:ram': 'urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100',
+    'xmlns:qdt': 'urn:un:unece:uncefact:data:standard:QualifiedDataType:100',
+    'xmlns:udt': 'urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100',
+};
+
+// Factur-X 1.0 / ZUGFeRD 2 EN 16931 profile
+export const FACTUR_X_GUIDELINE_ID = 'urn:cen.eu:en16931:2017';
+export const FACTUR_X_CONFORMANCE_LEVEL = 'EN 16931';
+// The name the embedded XML must have inside the PDF
+export const FACTUR_X_FILE_NAME = 'factur-x.xml';
+
+const BIC_PATTERN = /^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+
+// Dates are written as yyyymmdd, format 102
+const dateTime = (name: string, date: string, type: 'udt' | 'qdt' = 'udt'): string =>
+    date ? group(name, [field(`${type}:DateTimeString`, date.replace(/-/g, ''), { format: '102' })]) : '';
+
+const renderTradeParty = (name: string, party: Business): string => {
+    const lines = party.address.split('\n').map(line => line.trim()).filter(Boolean);
+    const email = party.email.trim();
+    return group(name, [
+        field('ram:Name', party.name.trim()),
+        group('ram:DefinedTradeContact', [group('ram:EmailURIUniversalCommunication', [field('ram:URIID', email)])]),
+        group('ram:PostalTradeAddress', [
+            field('ram:LineOne', lines[0]),
+            field('ram:LineTwo', lines[1]),
+            field('ram:LineThree', lines.slice(2).join('\n')),
+            field('ram:CountryID', getCountryCode(party)),
+            field('ram:CountrySubDivisionName', getStateName(party.state)),
+        ]),
+        group('ram:URIUniversalCommunication', [field('ram:URIID', email, { schemeID: 'EM' })]),
+        group('ram:SpecifiedTaxRegistration', [field('ram:ID', party.gstin.trim().toUpperCase(), { schemeID: 'VA' })]),
+    ]);
+};
+
+const renderPaymentMeans = (bank: BankDetails): string[] => {
+    const accountNumber = bank.accountNumber.replace(/\s/g, '').toUpperCase();
+    const bic = bank.ifscCode.trim().toUpperCase();
+    const transfer = accountNumber && group('ram:SpecifiedTradeSettlementPaymentMeans', [
+        field('ram:TypeCode', isIban(accountNumber) ? PAYMENT_MEANS_CODES.sepa : PAYMENT_MEANS_CODES.creditTransfer),
+        group('ram:PayeePartyCreditorFinancialAccount', [
+            field(isIban(accountNumber) ? 'ram:IBANID' : 'ram:ProprietaryID', accountNumber),
+            field('ram:AccountName', bank.name.trim()),
+        ]),
+        // An IFSC code isn't a BIC, so only a BIC is passed on
+        BIC_PATTERN.test(bic) ? group('ram:PayeeSpecifiedCreditorFinancialInstitution', [field('ram:BICID', bic)]) : '',
+    ]);
+    const upi = bank.upiId?.trim() && group('ram:SpecifiedTradeSettlementPaymentMeans', [
+        field('ram:TypeCode', PAYMENT_MEANS_CODES.online),
+        field('ram:Information', `UPI ${bank.upiId.trim()}`),
+    ]);
+    return [transfer || '', upi || ''];
+};
+
+// Serializes an invoice as a Cross Industry Invoice (D16B) following the Factur-X EN 16931 profile, with the same
+// mapping as the UBL export: GST goes in as VAT at the line's combined rate and the discount as a line allowance.
+export const toCiiXml = (invoice: Invoice, calculations: InvoiceCalculations): string => {
+    const { currency } = invoice;
+    const { minorUnits } = getCurrency(currency);
+    const amount = (name: string, value: number, attributes: Record<string, string> = {}) => field(name, value.toFixed(minorUnits), attributes);
+    const original = invoice.originalInvoice;
+    const paymentTerms = getPaymentTermsText(invoice);
+
+    const lines = invoice.items
+        .map((item, index) => ({ item, line: calculations.lines[index] }))
+        .filter(({ item }) => item.description.trim() || item.price)
+        .map(({ item, line }, index) => group('ram:IncludedSupplyChainTradeLineItem', [
+            group('ram:AssociatedDocumentLineDocument', [field('ram:LineID', String(index + 1))]),
+            group('ram:SpecifiedTradeProduct', [
+                field('ram:Name', item.description.trim()),
+                group('ram:DesignatedProductClassification', [field('ram:ClassCode', item.hsn.trim(), { listID: 'HS' })]),
+            ]),
+            group('ram:SpecifiedLineTradeAgreement', [group('ram:NetPriceProductTradePrice', [field('ram:ChargeAmount', String(item.price))])]),
+            group('ram:SpecifiedLineTradeDelivery', [field('ram:BilledQuantity', String(item.quantity), { unitCode: toUnitCode(item.unit) })]),
+            group('ram:SpecifiedLineTradeSettlement', [
+                group('ram:ApplicableTradeTax', [
+                    field('ram:TypeCode', 'VAT'),
+                    field('ram:CategoryCode', getTaxCategoryCode(line.taxRate)),
+                    field('ram:RateApplicablePercent', String(line.taxRate)),
+                ]),
+                line.discountAmount ? group('ram:SpecifiedTradeAllowanceCharge', [
+                    group('ram:ChargeIndicator', [field('udt:Indicator', 'false')]),
+                    field('ram:CalculationPercent', String(invoice.discountRate)),
+                    amount('ram:BasisAmount', line.amount),
+                    amount('ram:ActualAmount', line.discountAmount),
+                    field('ram:ReasonCode', '95'),
+                    field('ram:Reason', 'Discount'),
+                ]) : '',
+                group('ram:SpecifiedTradeSettlementLineMonetarySummation', [amount('ram:LineTotalAmount', line.taxableValue)]),
+            ]),
+        ]));
+
+    const transaction = [
+        ...lines,
+        group('ram:ApplicableHeaderTradeAgreement', [
+            field('ram:BuyerReference', invoice.buyerReference.trim()),
+            renderTradeParty('ram:SellerTradeParty', invoice.business),
+            renderTradeParty('ram:BuyerTradeParty', invoice.client),
+        ]),
+        // Required even when empty
+        invoice.placeOfSupply
+            ? group('ram:ApplicableHeaderTradeDelivery', [group('ram:ShipToTradeParty', [group('ram:PostalTradeAddress', [
+                field('ram:CountryID', 'IN'),
+                field('ram:CountrySubDivisionName', getStateName(invoice.placeOfSupply)),
+            ])])])
+            : '<ram:ApplicableHeaderTradeDelivery></ram:ApplicableHeaderTradeDelivery>',
+        group('ram:ApplicableHeaderTradeSettlement', [
+            field('ram:PaymentReference', invoice.invoiceNumber.trim()),
+            field('ram:InvoiceCurrencyCode', currency),
+            ...renderPaymentMeans(invoice.bankDetails),
+            ...calculations.taxByRate.map(row => group('ram:ApplicableTradeTax', [
+                amount('ram:CalculatedAmount', row.taxAmount),
+                field('ram:TypeCode', 'VAT'),
+                amount('ram:BasisAmount', row.taxableValue),
+                field('ram:CategoryCode', getTaxCategoryCode(row.taxRate)),
+                field('ram:RateApplicablePercent', String(row.taxRate)),
+            ])),
+            group('ram:SpecifiedTradePaymentTerms', [
+                field('ram:Description', paymentTerms ?? undefined),
+                dateTime('ram:DueDateDateTime', invoice.dueDate),
+            ]),
+            group('ram:SpecifiedTradeSettlementHeaderMonetarySummation', [
+                amount('ram:LineTotalAmount', calculations.taxableAmount),
+                amount('ram:TaxBasisTotalAmount', calculations.taxableAmount),
+                amount('ram:TaxTotalAmount', calculations.taxAmount, { currencyID: currency }),
+                calculations.roundOff ? amount('ram:RoundingAmount', calculations.roundOff) : '',
+                amount('ram:GrandTotalAmount', calculations.total),
+                amount('ram:DuePayableAmount', calculations.total),
+            ]),
+            original && isNote(invoice.invoiceType) ? group('ram:InvoiceReferencedDocument', [
+                field('ram:IssuerAssignedID', original.invoiceNumber),
+                dateTime('ram:FormattedIssueDateTime', original.date, 'qdt'),
+            ]) : '',
+        ]),
+    ];
+
+    const content = [
+        group('rsm:ExchangedDocumentContext', [
+            group('ram:GuidelineSpecifiedDocumentContextParameter', [field('ram:ID', FACTUR_X_GUIDELINE_ID)]),
+        ]),
+        group('rsm:ExchangedDocument', [
+            field('ram:ID', invoice.invoiceNumber.trim()),
+            field('ram:TypeCode', getDocumentTypeCode(invoice.invoiceType)),
+            dateTime('ram:IssueDateTime', invoice.date),
+            group('ram:IncludedNote', [field('ram:Content', invoice.notes.trim())]),
+        ]),
+        group('rsm:SupplyChainTradeTransaction', transaction),
+    ];
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${group('rsm:CrossIndustryInvoice', content, NAMESPACES)}\n`;
+};
+
+export const validateCii = (invoice: Invoice): ValidationIssue[] => validateEn16931(invoice, 'a Factur-X invoice');
@@ -0,0 +1,27 @@
+import { DocumentLink, Invoice, InvoiceType, StoredInvoice } from '../types';
+
+// Which document types each type can be turned into, in the order the actions are offered
+const CONVERSION_TARGETS: Partial<Record<InvoiceType, InvoiceType[]>> = {
+    'Quotation': ['Proforma Invoice', 'Tax Invoice', 'Invoice'],
+    'Estimate': ['Proforma Invoice', 'Tax Invoice', 'Invoice'],
+    'Proforma Invoice': ['Tax Invoice', 'Invoice'],
+};
+
+export const getConversionTargets = (invoiceType: InvoiceType): InvoiceType[] => CONVERSION_TARGETS[invoiceType] ?? [];
+
+// A quotation or estimate that has been turned into another document has been accepted by the client
+export const isConverted = (invoice: Invoice): boolean => Boolean(invoice.convertedTo?.length);
+
+export const toDocumentLink = (record: StoredInvoice): DocumentLink => ({
+    id: record.id,
+    invoiceType: record.invoice.invoiceType,
+    invoiceNumber: record.invoice.invoiceNumber,
+});
+
+// Prefers the linked document's current number, in case it was renumbered after the link was made
+export const describeLink = (link: DocumentLink, savedInvoices: StoredInvoice[]): string => {
+    const linked = savedInvoices.find(record => record.id === link.id);
+    const invoiceType = linked?.invoice.invoiceType ?? link.invoiceType;
+    const invoiceNumber = linked?.invoice.invoiceNumber ?? link.invoiceNumber;
+    return `${invoiceType} ${invoiceNumber || '(unnumbered)'}`;
+};
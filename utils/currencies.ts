@@ -0,0 +1,48 @@
+import { Currency } from '../types';
+
+export interface CurrencyDefinition {
+    code: Currency;
+    name: string;
+    symbol: string;
+    // Digits after the decimal point, e.g. 2 for paise/cents and 0 for yen
+    minorUnits: number;
+    // Locale used to format amounts, which decides separator placement and symbol position
+    locale: string;
+    // Indian grouping reads amounts in lakh/crore (12,34,567), standard grouping in thousands/millions (1,234,567)
+    grouping: 'indian' | 'standard';
+    // English [singular, plural] unit names used when spelling an amount in words
+    unitNames: {
+        major: [string, string];
+        minor: [string, string];
+    };
+}
+
+// Currency that reports and returns are filed in; foreign-currency invoices carry a rate to it
+export const BASE_CURRENCY: Currency = 'INR';
+
+// Adding a currency only needs a new entry here; the form, preview, PDF and amount-in-words all read from this list
+export const CURRENCIES: CurrencyDefinition[] = [
+    { code: 'INR', name: 'Indian Rupee', symbol: '₹', minorUnits: 2, locale: 'en-IN', grouping: 'indian', unitNames: { major: ['Rupee', 'Rupees'], minor: ['Paisa', 'Paise'] } },
+    { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2, locale: 'en-US', grouping: 'standard', unitNames: { major: ['Dollar', 'Dollars'], minor: ['Cent', 'Cents'] } },
+    { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2, locale: 'en-IE', grouping: 'standard', unitNames: { major: ['Euro', 'Euros'], minor: ['Cent', 'Cents'] } },
+    { code: 'GBP', name: 'Pound Sterling', symbol: '£', minorUnits: 2, locale: 'en-GB', grouping: 'standard', unitNames: { major: ['Pound', 'Pounds'], minor: ['Penny', 'Pence'] } },
+    { code: 'AED', name: 'UAE Dirham', symbol: 'AED', minorUnits: 2, locale: 'en-AE', grouping: 'standard', unitNames: { major: ['Dirham', 'Dirhams'], minor: ['Fils', 'Fils'] } },
+    { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$', minorUnits: 2, locale: 'en-SG', grouping: 'standard', unitNames: { major: ['Singapore Dollar', 'Singapore Dollars'], minor: ['Cent', 'Cents'] } },
+    { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', minorUnits: 2, locale: 'en-AU', grouping: 'standard', unitNames: { major: ['Australian Dollar', 'Australian Dollars'], minor: ['Cent', 'Cents'] } },
+    // en-JP rather than ja-JP so the yen sign is the ordinary ¥ that the PDF fonts carry, not the full-width ￥
+    { code: 'JPY', name: 'Japanese Yen', symbol: '¥', minorUnits: 0, locale: 'en-JP', grouping: 'standard', unitNames: { major: ['Yen', 'Yen'], minor: ['Sen', 'Sen'] } },
+];
+
+const CURRENCY_BY_CODE = new Map(CURRENCIES.map(currency => [currency.code, currency]));
+
+// Codes saved by another version of the app still format sensibly, with the code standing in for the symbol
+export const getCurrency = (code: Currency): CurrencyDefinition =>
+    CURRENCY_BY_CODE.get(code) ?? {
+        code,
+        name: code,
+        symbol: code,
+        minorUnits: 2,
+        locale: 'en-US',
+        grouping: 'standard',
+        unitNames: { major: [code, code], minor: ['', ''] },
+    };
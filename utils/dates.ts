@@ -0,0 +1,24 @@
+// Dates are handled as UTC midnight so stepping them never crosses a daylight-saving boundary
+export const toUtcDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+export const toIsoDate = (date: Date): string => date.toISOString().split('T')[0];
+
+// The calendar date in the user's time zone, for today or a day picked on a calendar. toIsoDate would give the UTC
+// date, which in India is still yesterday until 05:30.
+export const toLocalIsoDate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getToday = (): string => toLocalIsoDate(new Date());
+
+export const addDays = (date: string, days: number): string => {
+    const shifted = toUtcDate(date);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return toIsoDate(shifted);
+};
+
+export const daysBetween = (from: string, to: string): number =>
+    Math.round((toUtcDate(to).getTime() - toUtcDate(from).getTime()) / 86_400_000);
+
+export const getEndOfMonth = (date: string): string => {
+    const start = toUtcDate(date);
+    return toIsoDate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)));
+};
@@ -0,0 +1,308 @@
+import { Business, Client, EInvoiceRegistration, Invoice, InvoiceType } from '../types';
+import { InvoiceCalculations } from './calculations';
+import { getPlaceOfSupply, getSupplierState, isServiceCode, stateFromGstin, toUqc } from './gst';
+import { getStateName } from './indianStates';
+import { BASE_CURRENCY, getCurrency } from './currencies';
+import { fromMinorUnits, multiplyRounded, toMinorUnits } from './money';
+import { ValidationIssue, isValidGstin } from './validation';
+import { isNote } from './notes';
+
+// Version of the INV-01 schema the export follows
+const SCHEMA_VERSION = '1.1';
+
+export type EInvoiceDocumentType = 'INV' | 'CRN' | 'DBN';
+
+const DOCUMENT_TYPES: Partial<Record<InvoiceType, EInvoiceDocumentType>> = {
+    'Tax Invoice': 'INV',
+    'Credit Note': 'CRN',
+    'Debit Note': 'DBN',
+};
+
+// GST rates the portal accepts on a line
+const GST_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+
+export interface EInvoiceParty {
+    Gstin: string;
+    LglNm: string;
+    Addr1: string;
+    Addr2?: string;
+    Loc: string;
+    // Left out when no PIN code can be found in the address
+    Pin?: number;
+    Stcd: string;
+    Em?: string;
+}
+
+export interface EInvoiceItem {
+    SlNo: string;
+    PrdDesc: string;
+    IsServc: 'Y' | 'N';
+    HsnCd: string;
+    Qty: number;
+    Unit: string;
+    UnitPrice: number;
+    TotAmt: number;
+    Discount: number;
+    AssAmt: number;
+    GstRt: number;
+    IgstAmt: number;
+    CgstAmt: number;
+    SgstAmt: number;
+    TotItemVal: number;
+}
+
+// The parts of the INV-01 schema this app has data for; cess, e-way bill and export details are left out
+export interface EInvoiceDocument {
+    Version: string;
+    TranDtls: { TaxSch: 'GST'; SupTyp: 'B2B'; RegRev: 'N'; IgstOnIntra: 'N' };
+    DocDtls: { Typ: EInvoiceDocumentType; No: string; Dt: string };
+    SellerDtls: EInvoiceParty;
+    BuyerDtls: EInvoiceParty & { Pos: string };
+    ItemList: EInvoiceItem[];
+    ValDtls: {
+        AssVal: number;
+        CgstVal: number;
+        SgstVal: number;
+        IgstVal: number;
+        Discount: number;
+        RndOffAmt: number;
+        TotInvVal: number;
+    };
+    // Invoice a credit or debit note adjusts
+    RefDtls?: { PrecDocDtls: { InvNo: string; InvDt: string }[] };
+}
+
+export const isEInvoiceable = (invoiceType: InvoiceType): boolean => invoiceType in DOCUMENT_TYPES;
+
+const PIN_PATTERN = /\b[1-9]\d{5}\b/g;
+
+// The form keeps one free-text address, while the schema wants it in parts. The PIN code is picked out of it,
+// the state and country are dropped, the last line left is taken as the locality and the lines before it as the street.
+const splitAddress = (address: string, stateCode: string) => {
+    const pin = address.match(PIN_PATTERN)?.pop() ?? '';
+    const dropped = [getStateName(stateCode).toLowerCase(), 'india'];
+    const parts = address
+        .replace(PIN_PATTERN, '')
+        .split(/[\n,]/)
+        .map(part => part.replace(/^[\s-]+|[\s-]+$/g, ''))
+        .filter(part => part && !dropped.includes(part.toLowerCase()));
+    const street = parts.length > 1 ? parts.slice(0, -1) : parts;
+    return { addr1: street[0] ?? '', addr2: street.slice(1).join(', '), loc: parts[parts.length - 1] ?? '', pin };
+};
+
+const toParty = (party: Business | Client, stateCode: string): EInvoiceParty => {
+    const { addr1, addr2, loc, pin } = splitAddress(party.address, stateCode);
+    return {
+        Gstin: party.gstin.trim().toUpperCase(),
+        LglNm: party.name.trim(),
+        Addr1: addr1,
+        ...(addr2 && { Addr2: addr2 }),
+        Loc: loc,
+        ...(pin && { Pin: Number(pin) }),
+        Stcd: stateCode,
+        ...(party.email.trim() && { Em: party.email.trim() }),
+    };
+};
+
+// The portal takes dates as dd/mm/yyyy
+const toPortalDate = (date: string): string => (date ? date.split('-').reverse().join('/') : '');
+
+// Quantities and unit prices are allowed three decimals
+const toThreeDecimals = (value: number): number => fromMinorUnits(multiplyRounded(value, 1, 3), 3);
+
+const sumAmounts = (amounts: number[]): number => {
+    const { minorUnits } = getCurrency(BASE_CURRENCY);
+    return fromMinorUnits(amounts.reduce((acc, amount) => acc + toMinorUnits(amount, minorUnits), 0), minorUnits);
+};
+
+// Maps an invoice to the INV-01 e-invoice JSON. Blank lines are left out; the invoice-wide discount is already
+// spread over the lines, so it is reported per item and the invoice-level discount is zero.
+export const buildEInvoice = (invoice: Invoice, calculations: InvoiceCalculations): EInvoiceDocument => {
+    const sellerState = getSupplierState(invoice);
+    const buyerState = invoice.client.state || stateFromGstin(invoice.client.gstin);
+
+    const itemList: EInvoiceItem[] = invoice.items
+        .map((item, index) => ({ item, line: calculations.lines[index] }))
+        .filter(({ item }) => item.description.trim() || item.price)
+        .map(({ item, line }, index) => ({
+            SlNo: String(index + 1),
+            PrdDesc: item.description.trim(),
+            IsServc: isServiceCode(item.hsn) ? 'Y' : 'N',
+            HsnCd: item.hsn.trim(),
+            Qty: toThreeDecimals(item.quantity),
+            Unit: toUqc(item.unit),
+            UnitPrice: toThreeDecimals(item.price),
+            TotAmt: line.amount,
+            Discount: line.discountAmount,
+            AssAmt: line.taxableValue,
+            GstRt: line.taxRate,
+            IgstAmt: line.igstAmount,
+            CgstAmt: line.cgstAmount,
+            SgstAmt: line.sgstAmount,
+            TotItemVal: line.total,
+        }));
+
+    const sumItems = (pick: (item: EInvoiceItem) => number) => sumAmounts(itemList.map(pick));
+    const itemsTotal = sumItems(item => item.TotItemVal);
+    const original = invoice.originalInvoice;
+
+    return {
+        Version: SCHEMA_VERSION,
+        TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+        DocDtls: {
+            Typ: DOCUMENT_TYPES[invoice.invoiceType] ?? 'INV',
+            No: invoice.invoiceNumber.trim().toUpperCase(),
+            Dt: toPortalDate(invoice.date),
+        },
+        SellerDtls: toParty(invoice.business, sellerState),
+        BuyerDtls: { ...toParty(invoice.client, buyerState), Pos: getPlaceOfSupply(invoice) },
+        ItemList: itemList,
+        ValDtls: {
+            AssVal: sumItems(item => item.AssAmt),
+            CgstVal: sumItems(item => item.CgstAmt),
+            SgstVal: sumItems(item => item.SgstAmt),
+            IgstVal: sumItems(item => item.IgstAmt),
+            Discount: 0,
+            // Covers the round-off line and any paisa the totals differ from the sum of rounded lines by
+            RndOffAmt: sumAmounts([calculations.total, -itemsTotal]),
+            TotInvVal: calculations.total,
+        },
+        ...(original && isNote(invoice.invoiceType) && {
+            RefDtls: { PrecDocDtls: [{ InvNo: original.invoiceNumber, InvDt: toPortalDate(original.date) }] },
+        }),
+    };
+};
+
+interface FieldRule {
+    pattern?: RegExp;
+    minLength?: number;
+    maxLength?: number;
+    // Completes "<label> must …" when a value doesn't fit
+    format: string;
+}
+
+const RULES = {
+    documentNumber: { pattern: /^[A-Z1-9][A-Z0-9/-]{0,15}$/, format: 'be up to 16 letters, digits, "/" or "-", not starting with 0, "/" or "-"' },
+    date: { pattern: /^\d{2}\/\d{2}\/\d{4}$/, format: 'be a valid date' },
+    name: { minLength: 3, maxLength: 100, format: 'be 3 to 100 characters' },
+    address: { maxLength: 100, format: 'be at most 100 characters per line' },
+    location: { minLength: 3, maxLength: 50, format: 'be 3 to 50 characters' },
+    pin: { pattern: /^[1-9]\d{5}$/, format: 'be 6 digits' },
+    stateCode: { pattern: /^\d{2}$/, format: 'be selected' },
+    email: { minLength: 6, maxLength: 100, format: 'be 6 to 100 characters' },
+    description: { maxLength: 300, format: 'be at most 300 characters' },
+    hsn: { pattern: /^\d{4}(\d{2}){0,2}$/, format: 'be 4, 6 or 8 digits' },
+} satisfies Record<string, FieldRule>;
+
+const checkField = (issues: ValidationIssue[], field: string, label: string, value: string | number | undefined, rule: FieldRule, isRequired = true) => {
+    const text = value === undefined ? '' : String(value);
+    if (!text) {
+        if (isRequired) issues.push({ field, message: `${label} is required for an e-invoice.`, severity: 'error', isMissingValue: true });
+        return;
+    }
+    const fits = (!rule.pattern || rule.pattern.test(text)) && text.length >= (rule.minLength ?? 0) && text.length <= (rule.maxLength ?? Infinity);
+    if (!fits) issues.push({ field, message: `${label} must ${rule.format} for an e-invoice.`, severity: 'error' });
+};
+
+const checkParty = (issues: ValidationIssue[], party: EInvoiceParty, prefix: 'business' | 'client', who: string) => {
+    checkField(issues, `${prefix}Name`, `${who} name`, party.LglNm, RULES.name);
+    checkField(issues, `${prefix}Address`, `${who} address`, party.Addr1, RULES.address);
+    checkField(issues, `${prefix}Address`, `${who} address`, party.Addr2, RULES.address, false);
+    checkField(issues, `${prefix}Address`, `${who} town or city (the last line of the address)`, party.Loc, RULES.location);
+    checkField(issues, `${prefix}Address`, `${who} PIN code (in the address)`, party.Pin, RULES.pin);
+    checkField(issues, `${prefix}State`, `${who} state`, party.Stcd, RULES.stateCode);
+    checkField(issues, `${prefix}Email`, `${who} email`, party.Em, RULES.email, false);
+};
+
+// Checks the document against the schema's mandatory fields and formats, plus the rules the portal applies to a
+// B2B supply. Issues point at the form fields the values come from.
+export const validateEInvoice = (invoice: Invoice, document: EInvoiceDocument): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+
+    if (!isEInvoiceable(invoice.invoiceType)) {
+        issues.push({ field: 'invoiceTypeSelect', message: 'Only Tax Invoices and credit or debit notes are reported as e-invoices.', severity: 'error' });
+    }
+    if (invoice.currency !== BASE_CURRENCY) {
+        issues.push({ field: 'currency', message: `The e-invoice export covers ${BASE_CURRENCY} invoices only.`, severity: 'error' });
+    }
+    if (invoice.taxTreatment === 'non-gst') {
+        issues.push({ field: 'taxTreatment', message: 'An e-invoice must charge GST. Choose intra-state or inter-state supply.', severity: 'error' });
+    }
+
+    checkField(issues, 'invoiceNumber', 'Document number', document.DocDtls.No, RULES.documentNumber);
+    checkField(issues, 'date', 'Invoice date', document.DocDtls.Dt, RULES.date);
+
+    const { SellerDtls: seller, BuyerDtls: buyer } = document;
+    if (!seller.Gstin) {
+        issues.push({ field: 'businessGstin', message: 'Your GSTIN is required for an e-invoice.', severity: 'error', isMissingValue: true });
+    } else if (!isValidGstin(seller.Gstin)) {
+        issues.push({ field: 'businessGstin', message: 'Your GSTIN is not valid.', severity: 'error' });
+    }
+    if (!buyer.Gstin) {
+        issues.push({ field: 'clientGstin', message: "A B2B e-invoice needs the client's GSTIN.", severity: 'error', isMissingValue: true });
+    } else if (!isValidGstin(buyer.Gstin)) {
+        issues.push({ field: 'clientGstin', message: 'Client GSTIN is not valid.', severity: 'error' });
+    } else if (buyer.Gstin === seller.Gstin) {
+        issues.push({ field: 'clientGstin', message: 'The client GSTIN is the same as yours; an e-invoice is for supplies to another registration.', severity: 'error' });
+    }
+    checkParty(issues, seller, 'business', 'Your business');
+    checkParty(issues, buyer, 'client', 'Client');
+    checkField(issues, 'placeOfSupply', 'Place of supply', buyer.Pos, RULES.stateCode);
+
+    if (document.ItemList.length === 0) {
+        issues.push({ field: `item-desc-${invoice.items[0]?.id}`, message: 'Add at least one line item.', severity: 'error', isMissingValue: true });
+    }
+    const reportedItems = invoice.items.filter(item => item.description.trim() || item.price);
+    document.ItemList.forEach((line, index) => {
+        const item = reportedItems[index];
+        const label = line.PrdDesc || `Item ${line.SlNo}`;
+        checkField(issues, `item-desc-${item.id}`, `${label}: description`, line.PrdDesc, RULES.description, false);
+        checkField(issues, `item-hsn-${item.id}`, `${label}: HSN/SAC`, line.HsnCd, RULES.hsn);
+        if (!GST_RATES.includes(line.GstRt)) {
+            issues.push({ field: `item-tax-${item.id}`, message: `${label}: ${line.GstRt}% is not a GST rate the portal accepts.`, severity: 'error' });
+        }
+    });
+
+    return issues;
+};
+
+const IRN_PATTERN = /^[0-9a-f]{64}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Reads the registration from what the portal returned: a downloaded response, a list of them, or an API
+// reply that wraps it in { Status, Data } with Data as a JSON string
+export const parseIrpResponse = (text: string): EInvoiceRegistration => {
+    let data: unknown = JSON.parse(text);
+    for (let depth = 0; depth < 3 && !(isRecord(data) && 'Irn' in data); depth++) {
+        if (Array.isArray(data)) data = data[0];
+        else if (isRecord(data)) data = data.Data ?? data.data;
+        if (typeof data === 'string') data = JSON.parse(data);
+    }
+    const irn = isRecord(data) ? String(data.Irn ?? '') : '';
+    if (!isRecord(data) || !IRN_PATTERN.test(irn)) {
+        throw new Error('No IRN was found in the file. Load the response the portal returned for this invoice.');
+    }
+    return {
+        irn,
+        ackNumber: String(data.AckNo ?? ''),
+        ackDate: String(data.AckDt ?? ''),
+        signedQrCode: String(data.SignedQRCode ?? ''),
+    };
+};
+
+// Document number inside the signed QR code, to catch a response loaded onto the wrong invoice. Null when the
+// code can't be read; the signature itself can only be verified with the portal's public key.
+export const getSignedQrDocumentNumber = (signedQrCode: string): string | null => {
+    try {
+        const payload = signedQrCode.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+        const claims = JSON.parse(atob(payload));
+        const data = typeof claims.data === 'string' ? JSON.parse(claims.data) : claims.data;
+        return typeof data?.DocNo === 'string' ? data.DocNo : null;
+    } catch {
+        return null;
+    }
+};
+
+export const isValidIrn = (irn: string): boolean => IRN_PATTERN.test(irn.trim());
@@ -0,0 +1,77 @@
+import { Business, Invoice, InvoiceType } from '../types';
+import { stateFromGstin, toUqc } from './gst';
+import { ValidationIssue } from './validation';
+
+// Code lists shared by the UBL and Cross Industry Invoice exports, which both follow the EN 16931 semantic model
+
+// UNTDID 1001 document type codes
+const TYPE_CODES: Partial<Record<InvoiceType, string>> = {
+    'Invoice': '380',
+    'Tax Invoice': '380',
+    'Debit Note': '383',
+    'Credit Note': '381',
+};
+
+export const isEn16931Document = (invoiceType: InvoiceType): boolean => invoiceType in TYPE_CODES;
+
+export const getDocumentTypeCode = (invoiceType: InvoiceType): string => TYPE_CODES[invoiceType] ?? '380';
+
+// UNTDID 4461 payment means: SEPA credit transfer when the account is an IBAN, otherwise any credit transfer.
+// A UPI ID goes in as an online payment service.
+export const PAYMENT_MEANS_CODES = { sepa: '58', creditTransfer: '30', online: '68' };
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+
+export const isIban = (accountNumber: string): boolean => IBAN_PATTERN.test(accountNumber);
+
+// UN/ECE Recommendation 20 codes for the UQC a line's unit maps to; anything else is counted in ones (C62)
+const UNIT_CODES: Record<string, string> = {
+    PCS: 'H87', NOS: 'NAR', UNT: 'C62', KGS: 'KGM', GMS: 'GRM', TON: 'TNE', QTL: 'DTN', LTR: 'LTR', MLT: 'MLT',
+    KLR: 'KL', MTR: 'MTR', CMS: 'CMT', KME: 'KMT', SQM: 'MTK', SQF: 'FTK', SQY: 'YDK', CBM: 'MTQ', CCM: 'CMQ',
+    YDS: 'YRD', BOX: 'XBX', BAG: 'XBG', BTL: 'XBO', CAN: 'XCA', CTN: 'XCT', DRM: 'XDR', PAC: 'XPK', ROL: 'XRO',
+    SET: 'SET', DOZ: 'DZN', GRS: 'GRO', PRS: 'PR',
+};
+
+// Time-based units for services have no UQC but do have a code
+const SERVICE_UNIT_CODES: Record<string, string> = {
+    hr: 'HUR', hrs: 'HUR', hour: 'HUR', hours: 'HUR', day: 'DAY', days: 'DAY', month: 'MON', months: 'MON',
+};
+
+// The unit an imported code is shown as; a round trip gives back a line's unit in this short form
+const UNIT_NAMES: Record<string, string> = {
+    H87: 'pcs', NAR: 'nos', KGM: 'kg', GRM: 'g', TNE: 'tonne', LTR: 'l', MLT: 'ml', MTR: 'm', CMT: 'cm', KMT: 'km',
+    MTK: 'sqm', FTK: 'sqft', MTQ: 'cbm', XBX: 'box', XBG: 'bag', XBO: 'bottle', XPK: 'pack', XRO: 'roll', SET: 'set',
+    DZN: 'dozen', PR: 'pair', HUR: 'hours', DAY: 'days', MON: 'months',
+};
+
+export const toUnitCode = (unit: string = ''): string =>
+    SERVICE_UNIT_CODES[unit.trim().toLowerCase()] ?? UNIT_CODES[toUqc(unit)] ?? 'C62';
+
+export const fromUnitCode = (code: string): string => UNIT_NAMES[code] ?? '';
+
+// VAT category: standard rated, or zero rated for lines without tax
+export const getTaxCategoryCode = (rate: number): 'S' | 'Z' => (rate > 0 ? 'S' : 'Z');
+
+// There is no country field: Indian parties are known by their state or GSTIN, others by the country prefix of
+// their VAT number (Greece's "EL" is "GR" in ISO 3166)
+export const getCountryCode = (party: Business): string => {
+    if (party.state || stateFromGstin(party.gstin)) return 'IN';
+    const prefix = party.gstin.trim().toUpperCase().slice(0, 2);
+    if (!/^[A-Z]{2}$/.test(prefix)) return '';
+    return prefix === 'EL' ? 'GR' : prefix;
+};
+
+// Fields EN 16931 requires that the form may leave empty; `format` names the export in the messages
+export const validateEn16931 = (invoice: Invoice, format: string): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const check = (field: string, value: string, message: string) => {
+        if (!value.trim()) issues.push({ field, message, severity: 'error', isMissingValue: true });
+    };
+    check('invoiceNumber', invoice.invoiceNumber, `A document number is required for ${format}.`);
+    check('date', invoice.date, `A document date is required for ${format}.`);
+    check('businessName', invoice.business.name, `Your business name is required for ${format}.`);
+    check('clientName', invoice.client.name, `The client name is required for ${format}.`);
+    check('businessState', getCountryCode(invoice.business), 'Select your state so your country can be filled in.');
+    check('clientGstin', getCountryCode(invoice.client), "Add the client's VAT number (e.g. DE123456789) or Indian state so their country can be filled in.");
+    return issues;
+};
@@ -0,0 +1,82 @@
+import { BaseCurrencyAmounts, Currency, Invoice } from '../types';
+import { BASE_CURRENCY, getCurrency } from './currencies';
+import { InvoiceCalculations } from './calculations';
+import { fromMinorUnits, multiplyRounded } from './money';
+
+// Base-currency rates read from a rates file: how many INR one unit of each currency buys
+export interface RatesTable {
+    date: string;
+    rates: Partial<Record<Currency, number>>;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// JSON files follow the usual rates-API shape, { "base": "USD", "date": "2026-10-16", "rates": { "INR": 83.2, "EUR": 0.92 } },
+// where each rate is units of that currency per one unit of the base. Any base works as long as INR is listed.
+const parseJsonRates = (text: string): RatesTable => {
+    const data = JSON.parse(text);
+    const base: Currency = String(data.base ?? BASE_CURRENCY).toUpperCase();
+    const quoted: Record<string, number> = { ...data.rates, [base]: 1 };
+    const inrPerBase = Number(quoted[BASE_CURRENCY]);
+    if (!(inrPerBase > 0)) throw new Error(`The rates file has no ${BASE_CURRENCY} rate.`);
+
+    const rates: RatesTable['rates'] = {};
+    Object.entries(quoted).forEach(([code, perBase]) => {
+        const value = Number(perBase);
+        if (value > 0) rates[code.toUpperCase()] = inrPerBase / value;
+    });
+    return { date: typeof data.date === 'string' && DATE_PATTERN.test(data.date) ? data.date : '', rates };
+};
+
+// CSV files list reference rates the way RBI publishes them, one "currency,rate[,date]" row per currency with
+// the rate in INR per unit. A header row is skipped; the latest date in the file becomes the rate date.
+const parseCsvRates = (text: string): RatesTable => {
+    const table: RatesTable = { date: '', rates: {} };
+    text.split(/\r?\n/).forEach(line => {
+        const [code = '', rate = '', date = ''] = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+        const value = Number(rate);
+        if (!/^[A-Za-z]{3}$/.test(code) || !(value > 0)) return;
+        table.rates[code.toUpperCase()] = value;
+        if (DATE_PATTERN.test(date) && date > table.date) table.date = date;
+    });
+    if (Object.keys(table.rates).length === 0) throw new Error('No rates were found in the file.');
+    table.rates[BASE_CURRENCY] = 1;
+    return table;
+};
+
+export const parseRatesFile = (fileName: string, text: string): RatesTable =>
+    fileName.toLowerCase().endsWith('.csv') ? parseCsvRates(text) : parseJsonRates(text);
+
+export const isForeignCurrency = (invoice: Invoice): boolean => invoice.currency !== BASE_CURRENCY;
+
+// INR invoices convert at 1; foreign ones need a positive rate before any base amount can be shown
+export const getBaseRate = (invoice: Invoice): number | null => {
+    if (!isForeignCurrency(invoice)) return 1;
+    return invoice.exchangeRate.rate > 0 ? invoice.exchangeRate.rate : null;
+};
+
+// Amount × rate, worked out exactly and rounded once to the base currency's smallest coin
+const convertToBase = (amount: number, rate: number): number => {
+    const { minorUnits } = getCurrency(BASE_CURRENCY);
+    return fromMinorUnits(multiplyRounded(amount, rate, minorUnits), minorUnits);
+};
+
+export const getBaseAmounts = (invoice: Invoice, calculations: InvoiceCalculations): BaseCurrencyAmounts | undefined => {
+    const rate = getBaseRate(invoice);
+    if (rate === null) return undefined;
+    const convert = (amount: number) => convertToBase(amount, rate);
+    return {
+        currency: BASE_CURRENCY,
+        exchangeRate: rate,
+        rateDate: isForeignCurrency(invoice) ? invoice.exchangeRate.date : invoice.date,
+        subtotal: convert(calculations.subtotal),
+        discountAmount: convert(calculations.discountAmount),
+        taxableAmount: convert(calculations.taxableAmount),
+        cgstAmount: convert(calculations.cgstAmount),
+        sgstAmount: convert(calculations.sgstAmount),
+        igstAmount: convert(calculations.igstAmount),
+        genericTaxAmount: convert(calculations.genericTaxAmount),
+        taxAmount: convert(calculations.taxAmount),
+        total: convert(calculations.total),
+    };
+};
@@ -0,0 +1,28 @@
+import { Currency } from '../types';
+import { getCurrency } from './currencies';
+
+// Formats in the currency's own locale, so INR reads ₹12,34,567.00 and JPY ¥1,234,567. The registry symbol replaces
+// the locale's own, which would print a bare "$" for SGD and AUD.
+export const formatCurrency = (amount: number, currency: Currency) => {
+    const { locale, minorUnits, symbol } = getCurrency(currency);
+    return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: currency,
+        minimumFractionDigits: minorUnits,
+        maximumFractionDigits: minorUnits,
+    })
+        .formatToParts(amount)
+        .map(part => (part.type === 'currency' ? symbol : part.value))
+        .join('');
+};
+
+export const getContrastColor = (hexColor: string): string => {
+    if (!hexColor) return '#ffffff';
+    const hex = hexColor.replace('#', '');
+    if (hex.length !== 6) return '#ffffff';
+    const r = parseInt(hex.substring(0, 2), 16);
+    const g = parseInt(hex.substring(2, 4), 16);
+    const b = parseInt(hex.substring(4, 6), 16);
+    const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
+    return (yiq >= 128) ? '#000000' : '#ffffff';
+};
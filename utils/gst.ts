@@ -0,0 +1,62 @@
+import { Invoice, TaxTreatment } from '../types';
+
+// A foreign client's VAT number is entered in the GSTIN field. Those start with a country code, a GSTIN with a state code.
+export const isForeignTaxId = (taxId: string): boolean => /^[A-Z]{2}/i.test(taxId.trim());
+
+export const getTaxIdLabel = (taxId: string): string => (isForeignTaxId(taxId) ? 'VAT No.' : 'GSTIN');
+
+// The first two digits of a GSTIN are the registrant's state code
+export const stateFromGstin = (gstin: string): string => {
+    const prefix = gstin.trim().slice(0, 2);
+    return /^\d{2}$/.test(prefix) ? prefix : '';
+};
+
+export const getSupplierState = (invoice: Invoice): string =>
+    invoice.business.state || stateFromGstin(invoice.business.gstin);
+
+// Falls back to the client's state when no place of supply is set explicitly
+export const getPlaceOfSupply = (invoice: Invoice): string =>
+    invoice.placeOfSupply || invoice.client.state || stateFromGstin(invoice.client.gstin);
+
+// Returns the treatment implied by the supplier state and place of supply, or null when either is unknown
+export const deriveTaxTreatment = (invoice: Invoice): Exclude<TaxTreatment, 'non-gst'> | null => {
+    const supplierState = getSupplierState(invoice);
+    const placeOfSupply = getPlaceOfSupply(invoice);
+    if (!supplierState || !placeOfSupply) return null;
+    return supplierState === placeOfSupply ? 'intra-state' : 'inter-state';
+};
+
+export const resolveTaxTreatment = (invoice: Invoice): TaxTreatment => {
+    if (invoice.taxTreatment === 'non-gst') return 'non-gst';
+    return deriveTaxTreatment(invoice) ?? invoice.taxTreatment;
+};
+
+// Unit quantity codes (UQC) accepted in GST returns and e-invoices
+const UQC_CODES = new Set([
+    'BAG', 'BAL', 'BDL', 'BKL', 'BOU', 'BOX', 'BTL', 'BUN', 'CAN', 'CBM', 'CCM', 'CMS', 'CTN', 'DOZ', 'DRM', 'GGK', 'GMS',
+    'GRS', 'GYD', 'KGS', 'KLR', 'KME', 'LTR', 'MLT', 'MTR', 'MTS', 'NOS', 'OTH', 'PAC', 'PCS', 'PRS', 'QTL', 'ROL', 'SET',
+    'SQF', 'SQM', 'SQY', 'TBS', 'TGM', 'THD', 'TON', 'TUB', 'UGS', 'UNT', 'YDS',
+]);
+
+const UNIT_ALIASES: Record<string, string> = {
+    pc: 'PCS', piece: 'PCS', pieces: 'PCS',
+    no: 'NOS', number: 'NOS', numbers: 'NOS',
+    kg: 'KGS', kilogram: 'KGS', kilograms: 'KGS',
+    g: 'GMS', gm: 'GMS', gram: 'GMS', grams: 'GMS',
+    l: 'LTR', litre: 'LTR', litres: 'LTR', liter: 'LTR', liters: 'LTR',
+    ml: 'MLT',
+    m: 'MTR', metre: 'MTR', metres: 'MTR', meter: 'MTR', meters: 'MTR',
+    boxes: 'BOX', sets: 'SET', dozen: 'DOZ', unit: 'UNT', units: 'UNT', pair: 'PRS', pairs: 'PRS',
+    bags: 'BAG', bottle: 'BTL', bottles: 'BTL', pack: 'PAC', packet: 'PAC', packets: 'PAC', roll: 'ROL', rolls: 'ROL',
+    tonne: 'TON', tonnes: 'TON', sqft: 'SQF',
+};
+
+// Matches the free-text unit on a line to its UQC; units with no clear match are reported as "OTH" (others)
+export const toUqc = (unit: string = ''): string => {
+    const value = unit.trim().replace(/\.$/, '');
+    if (!value) return 'OTH';
+    return UQC_CODES.has(value.toUpperCase()) ? value.toUpperCase() : UNIT_ALIASES[value.toLowerCase()] ?? 'OTH';
+};
+
+// SAC codes for services all start with 99; everything else is goods
+export const isServiceCode = (hsn: string): boolean => hsn.trim().startsWith('99');
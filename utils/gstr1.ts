@@ -0,0 +1,359 @@
+import { StoredInvoice } from '../types';
+import { InvoiceCalculations, calculateInvoice } from './calculations';
+import { getPlaceOfSupply, isForeignTaxId, stateFromGstin, toUqc } from './gst';
+import { getStateName } from './indianStates';
+import { BASE_CURRENCY, getCurrency } from './currencies';
+import { fromMinorUnits, toMinorUnits } from './money';
+import { isNote } from './notes';
+import { isAwaitingReview } from './recurrence';
+import { toCsv } from './csv';
+
+// Inter-state invoices to unregistered buyers above this value are reported one by one in B2CL
+export const B2CL_THRESHOLD = 100000;
+
+// Schema version written into the JSON for the offline tool to import
+const OFFLINE_TOOL_VERSION = 'GST3.1.6';
+
+export type Gstr1Section = 'b2b' | 'b2cl' | 'b2cs' | 'cdnr' | 'hsnB2b' | 'hsnB2c';
+
+export const GSTR1_SECTIONS: { value: Gstr1Section; label: string }[] = [
+    { value: 'b2b', label: 'B2B Invoices' },
+    { value: 'b2cl', label: 'B2C Large Invoices' },
+    { value: 'b2cs', label: 'B2C Small Supplies' },
+    { value: 'cdnr', label: 'Credit/Debit Notes (Registered)' },
+    { value: 'hsnB2b', label: 'HSN Summary (B2B)' },
+    { value: 'hsnB2c', label: 'HSN Summary (B2C)' },
+];
+
+interface TaxAmounts {
+    taxableValue: number;
+    igstAmount: number;
+    cgstAmount: number;
+    sgstAmount: number;
+}
+
+// One row per tax rate on a document, the way B2B, B2CL and CDNR list them
+export interface Gstr1DocumentRow extends TaxAmounts {
+    recipientGstin: string;
+    recipientName: string;
+    number: string;
+    date: string;
+    // Whole document value, repeated on each of its rate rows
+    value: number;
+    placeOfSupply: string;
+    rate: number;
+    // Set on CDNR rows
+    noteType?: 'C' | 'D';
+}
+
+export interface Gstr1B2csRow extends TaxAmounts {
+    supplyType: 'INTER' | 'INTRA';
+    placeOfSupply: string;
+    rate: number;
+}
+
+export interface Gstr1HsnRow extends TaxAmounts {
+    hsn: string;
+    description: string;
+    uqc: string;
+    quantity: number;
+    totalValue: number;
+    rate: number;
+}
+
+export interface Gstr1Report {
+    gstin: string;
+    from: string;
+    to: string;
+    documentCount: number;
+    b2b: Gstr1DocumentRow[];
+    b2cl: Gstr1DocumentRow[];
+    b2cs: Gstr1B2csRow[];
+    cdnr: Gstr1DocumentRow[];
+    // The HSN summary is reported separately for supplies to registered and unregistered recipients
+    hsnB2b: Gstr1HsnRow[];
+    hsnB2c: Gstr1HsnRow[];
+    // Documents in the period that go in a section this report doesn't produce, with where they belong
+    skipped: { record: StoredInvoice; reason: string }[];
+}
+
+const { minorUnits } = getCurrency(BASE_CURRENCY);
+const toPaise = (amount: number): number => toMinorUnits(amount, minorUnits);
+const toRupees = (paise: number): number => fromMinorUnits(paise, minorUnits);
+
+// Quantities are reported to three decimals
+const QUANTITY_DIGITS = 3;
+
+const TAX_FIELDS = ['taxableValue', 'igstAmount', 'cgstAmount', 'sgstAmount'] as const;
+
+// Adds `amounts` into a running total kept in paise, so the sums are exact
+const accumulate = (total: TaxAmounts, amounts: TaxAmounts, sign = 1) => {
+    TAX_FIELDS.forEach(field => {
+        total[field] += sign * toPaise(amounts[field]);
+    });
+};
+
+const toRupeeAmounts = <T extends TaxAmounts>(row: T): T => ({
+    ...row,
+    ...Object.fromEntries(TAX_FIELDS.map(field => [field, toRupees(row[field])])),
+});
+
+const getDocumentRows = (record: StoredInvoice, calculations: InvoiceCalculations, placeOfSupply: string): Gstr1DocumentRow[] => {
+    const { invoice } = record;
+    return calculations.taxByRate.map(row => ({
+        recipientGstin: invoice.client.gstin.trim().toUpperCase(),
+        recipientName: invoice.client.name,
+        number: invoice.invoiceNumber,
+        date: invoice.date,
+        value: calculations.total,
+        placeOfSupply,
+        rate: row.taxRate,
+        taxableValue: row.taxableValue,
+        igstAmount: row.igstAmount,
+        cgstAmount: row.cgstAmount,
+        sgstAmount: row.sgstAmount,
+        ...(isNote(invoice.invoiceType) && { noteType: invoice.invoiceType === 'Credit Note' ? 'C' as const : 'D' as const }),
+    }));
+};
+
+// A client with a GSTIN; a foreign VAT number doesn't make the supply B2B
+const isRegisteredRecipient = ({ invoice }: StoredInvoice): boolean =>
+    Boolean(invoice.client.gstin.trim()) && !isForeignTaxId(invoice.client.gstin);
+
+// Why a document in the period can't go in the sections produced here, or null when it can
+const getSkipReason = (record: StoredInvoice, calculations: InvoiceCalculations, placeOfSupply: string): string | null => {
+    const { invoice } = record;
+    if (invoice.currency !== BASE_CURRENCY) return 'Foreign-currency invoices are exports, reported in the EXP section.';
+    if (calculations.taxTreatment === 'non-gst') return 'No GST is charged; report it with nil-rated and exempt supplies.';
+    if (!placeOfSupply) return 'No place of supply is set.';
+    if (isNote(invoice.invoiceType) && invoice.issueStatus !== 'Sent') return 'Draft notes have not been issued; mark the note Sent to report it.';
+    if (isNote(invoice.invoiceType) && !isRegisteredRecipient(record)) return 'Notes to unregistered buyers are reported in CDNUR.';
+    return null;
+};
+
+// Builds the GSTR-1 sections for one GSTIN from the Tax Invoices and credit and debit notes dated from `from` to
+// `to`. Void documents and generated invoices still awaiting review were never issued, so they are left out; notes
+// still in Draft are listed as skipped.
+// Notes are reported as positive values in CDNR; in the HSN summary credit notes reduce the totals.
+export const buildGstr1Report = (records: StoredInvoice[], gstin: string, from: string, to: string): Gstr1Report => {
+    const report: Gstr1Report = { gstin, from, to, documentCount: 0, b2b: [], b2cl: [], b2cs: [], cdnr: [], hsnB2b: [], hsnB2c: [], skipped: [] };
+    const b2cs = new Map<string, Gstr1B2csRow>();
+    const hsnB2b = new Map<string, Gstr1HsnRow>();
+    const hsnB2c = new Map<string, Gstr1HsnRow>();
+
+    const documents = records
+        .filter(record => {
+            const { invoice } = record;
+            return (invoice.invoiceType === 'Tax Invoice' || isNote(invoice.invoiceType))
+                && invoice.business.gstin.trim().toUpperCase() === gstin
+                && invoice.date >= from && invoice.date <= to
+                && invoice.issueStatus !== 'Void'
+                && !isAwaitingReview(record);
+        })
+        .sort((a, b) => a.invoice.date.localeCompare(b.invoice.date) || a.invoice.invoiceNumber.localeCompare(b.invoice.invoiceNumber));
+
+    documents.forEach(record => {
+        const { invoice } = record;
+        const calculations = calculateInvoice(invoice);
+        const placeOfSupply = getPlaceOfSupply(invoice);
+        const skipReason = getSkipReason(record, calculations, placeOfSupply);
+        if (skipReason) {
+            report.skipped.push({ record, reason: skipReason });
+            return;
+        }
+        report.documentCount++;
+        const isRegistered = isRegisteredRecipient(record);
+        const isInterState = calculations.taxTreatment === 'inter-state';
+
+        if (isNote(invoice.invoiceType)) {
+            report.cdnr.push(...getDocumentRows(record, calculations, placeOfSupply));
+        } else if (isRegistered) {
+            report.b2b.push(...getDocumentRows(record, calculations, placeOfSupply));
+        } else if (isInterState && calculations.total > B2CL_THRESHOLD) {
+            report.b2cl.push(...getDocumentRows(record, calculations, placeOfSupply));
+        } else {
+            const supplyType = isInterState ? 'INTER' : 'INTRA';
+            calculations.taxByRate.forEach(row => {
+                const key = `${supplyType}|${placeOfSupply}|${row.taxRate}`;
+                const total = b2cs.get(key) ?? { supplyType, placeOfSupply, rate: row.taxRate, taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0 };
+                accumulate(total, row);
+                b2cs.set(key, total);
+            });
+        }
+
+        const sign = invoice.invoiceType === 'Credit Note' ? -1 : 1;
+        const hsn = isRegistered ? hsnB2b : hsnB2c;
+        invoice.items.forEach((item, index) => {
+            const line = calculations.lines[index];
+            if (!line || (!item.quantity && !line.taxableValue)) return;
+            const uqc = toUqc(item.unit);
+            const key = `${line.hsn}|${line.taxRate}|${uqc}`;
+            const total = hsn.get(key) ?? { hsn: line.hsn, description: item.description, uqc, quantity: 0, totalValue: 0, rate: line.taxRate, taxableValue: 0, igstAmount: 0, cgstAmount: 0, sgstAmount: 0 };
+            accumulate(total, line, sign);
+            total.quantity += sign * toMinorUnits(item.quantity, QUANTITY_DIGITS);
+            total.totalValue += sign * toPaise(line.total);
+            hsn.set(key, total);
+        });
+    });
+
+    report.b2b.sort((a, b) => a.recipientGstin.localeCompare(b.recipientGstin));
+    report.cdnr.sort((a, b) => a.recipientGstin.localeCompare(b.recipientGstin));
+    report.b2cs = [...b2cs.values()]
+        .map(toRupeeAmounts)
+        .sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply) || a.rate - b.rate);
+    const toHsnRows = (hsn: Map<string, Gstr1HsnRow>): Gstr1HsnRow[] => [...hsn.values()]
+        .map(row => ({ ...toRupeeAmounts(row), quantity: fromMinorUnits(row.quantity, QUANTITY_DIGITS), totalValue: toRupees(row.totalValue) }))
+        .sort((a, b) => a.hsn.localeCompare(b.hsn) || a.rate - b.rate);
+    report.hsnB2b = toHsnRows(hsnB2b);
+    report.hsnB2c = toHsnRows(hsnB2c);
+    return report;
+};
+
+// GSTINs that have issued documents, for picking whose return to prepare
+export const getSupplierGstins = (records: StoredInvoice[]): string[] =>
+    [...new Set(records.map(record => record.invoice.business.gstin.trim().toUpperCase()).filter(gstin => stateFromGstin(gstin)))].sort();
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The offline tool's CSV templates write dates as 18-Oct-2026, its JSON as 18-10-2026
+const toCsvDate = (date: string): string => {
+    const [year, month, day] = date.split('-');
+    return `${day}-${MONTHS[Number(month) - 1]}-${year}`;
+};
+const toJsonDate = (date: string): string => date.split('-').reverse().join('-');
+
+const describePlace = (code: string): string => `${code}-${getStateName(code)}`;
+
+const amount = (value: number): string => value.toFixed(2);
+
+const toHsnCsv = (rows: Gstr1HsnRow[]): (string | number)[][] => [
+    ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+    ...rows.map(row => [row.hsn, row.description, row.uqc, row.quantity, amount(row.totalValue), row.rate, amount(row.taxableValue), amount(row.igstAmount), amount(row.cgstAmount), amount(row.sgstAmount), amount(0)]),
+];
+
+const CSV_BUILDERS: Record<Gstr1Section, (report: Gstr1Report) => (string | number)[][]> = {
+    b2b: report => [
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN', 'Rate', 'Taxable Value', 'Cess Amount'],
+        ...report.b2b.map(row => [row.recipientGstin, row.recipientName, row.number, toCsvDate(row.date), amount(row.value), describePlace(row.placeOfSupply), 'N', '', 'Regular B2B', '', row.rate, amount(row.taxableValue), amount(0)]),
+    ],
+    b2cl: report => [
+        ['Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        ...report.b2cl.map(row => [row.number, toCsvDate(row.date), amount(row.value), describePlace(row.placeOfSupply), '', row.rate, amount(row.taxableValue), amount(0), '']),
+    ],
+    b2cs: report => [
+        ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+        ...report.b2cs.map(row => ['OE', describePlace(row.placeOfSupply), '', row.rate, amount(row.taxableValue), amount(0), '']),
+    ],
+    cdnr: report => [
+        ['GSTIN/UIN of Recipient', 'Receiver Name', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Reverse Charge', 'Note Supply Type', 'Note Value', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount'],
+        ...report.cdnr.map(row => [row.recipientGstin, row.recipientName, row.number, toCsvDate(row.date), row.noteType ?? 'C', describePlace(row.placeOfSupply), 'N', 'Regular B2B', amount(row.value), '', row.rate, amount(row.taxableValue), amount(0)]),
+    ],
+    hsnB2b: report => toHsnCsv(report.hsnB2b),
+    hsnB2c: report => toHsnCsv(report.hsnB2c),
+};
+
+// One section in the layout of the offline tool's CSV template
+export const toGstr1Csv = (report: Gstr1Report, section: Gstr1Section): string => toCsv(CSV_BUILDERS[section](report));
+
+const toItemDetails = (row: TaxAmounts & { rate: number }, withIntraState = true) => ({
+    // The offline tool numbers a document's items by rate, e.g. 1801 for 18%
+    num: Math.round(row.rate * 100) + 1,
+    itm_det: {
+        txval: row.taxableValue,
+        rt: row.rate,
+        iamt: row.igstAmount,
+        ...(withIntraState && { camt: row.cgstAmount, samt: row.sgstAmount }),
+        csamt: 0,
+    },
+});
+
+// Groups rows with the same key into one entry, keeping the order they first appear in
+const groupBy = <T>(rows: T[], keyOf: (row: T) => string): T[][] => {
+    const groups = new Map<string, T[]>();
+    rows.forEach(row => groups.set(keyOf(row), [...(groups.get(keyOf(row)) ?? []), row]));
+    return [...groups.values()];
+};
+
+const toHsnJson = (rows: Gstr1HsnRow[]) => rows.map((row, index) => ({
+    num: index + 1,
+    hsn_sc: row.hsn,
+    desc: row.description,
+    uqc: row.uqc,
+    qty: row.quantity,
+    rt: row.rate,
+    txval: row.taxableValue,
+    iamt: row.igstAmount,
+    camt: row.cgstAmount,
+    samt: row.sgstAmount,
+    csamt: 0,
+}));
+
+// The return period a range is filed under, as MMYYYY: a single month, or a quarter (Apr-Jun, Jul-Sep, Oct-Dec,
+// Jan-Mar) for quarterly filers, which is filed under its last month. Null for a range spanning more than that.
+export const getReturnPeriod = (from: string, to: string): string | null => {
+    const [fromYear, fromMonth] = from.split('-').map(Number);
+    const [toYear, toMonth] = to.split('-').map(Number);
+    const isOneMonth = fromYear === toYear && fromMonth === toMonth;
+    const isOneQuarter = fromYear === toYear && Math.ceil(fromMonth / 3) === Math.ceil(toMonth / 3);
+    return isOneMonth || isOneQuarter ? `${to.slice(5, 7)}${to.slice(0, 4)}` : null;
+};
+
+// The whole return as JSON the GST offline tool can import. Throws when the report's range isn't one return period.
+export const toGstr1Json = (report: Gstr1Report) => {
+    const fp = getReturnPeriod(report.from, report.to);
+    if (!fp) throw new Error('A GSTR-1 return covers one month or one quarter.');
+    return {
+        gstin: report.gstin,
+        fp,
+        version: OFFLINE_TOOL_VERSION,
+        hash: 'hash',
+        b2b: groupBy(report.b2b, row => row.recipientGstin).map(rows => ({
+            ctin: rows[0].recipientGstin,
+            inv: groupBy(rows, row => row.number).map(invoiceRows => ({
+                inum: invoiceRows[0].number,
+                idt: toJsonDate(invoiceRows[0].date),
+                val: invoiceRows[0].value,
+                pos: invoiceRows[0].placeOfSupply,
+                rchrg: 'N',
+                inv_typ: 'R',
+                itms: invoiceRows.map(row => toItemDetails(row)),
+            })),
+        })),
+        b2cl: groupBy(report.b2cl, row => row.placeOfSupply).map(rows => ({
+            pos: rows[0].placeOfSupply,
+            inv: groupBy(rows, row => row.number).map(invoiceRows => ({
+                inum: invoiceRows[0].number,
+                idt: toJsonDate(invoiceRows[0].date),
+                val: invoiceRows[0].value,
+                itms: invoiceRows.map(row => toItemDetails(row, false)),
+            })),
+        })),
+        b2cs: report.b2cs.map(row => ({
+            sply_ty: row.supplyType,
+            pos: row.placeOfSupply,
+            typ: 'OE',
+            rt: row.rate,
+            txval: row.taxableValue,
+            iamt: row.igstAmount,
+            ...(row.supplyType === 'INTRA' && { camt: row.cgstAmount, samt: row.sgstAmount }),
+            csamt: 0,
+        })),
+        cdnr: groupBy(report.cdnr, row => row.recipientGstin).map(rows => ({
+            ctin: rows[0].recipientGstin,
+            nt: groupBy(rows, row => row.number).map(noteRows => ({
+                ntty: noteRows[0].noteType ?? 'C',
+                nt_num: noteRows[0].number,
+                nt_dt: toJsonDate(noteRows[0].date),
+                val: noteRows[0].value,
+                pos: noteRows[0].placeOfSupply,
+                rchrg: 'N',
+                inv_typ: 'R',
+                itms: noteRows.map(row => toItemDetails(row)),
+            })),
+        })),
+        hsn: {
+            hsn_b2b: toHsnJson(report.hsnB2b),
+            hsn_b2c: toHsnJson(report.hsnB2c),
+        },
+    };
+};
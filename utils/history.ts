@@ -0,0 +1,57 @@
+import { Invoice } from '../types';
+
+// Oldest steps are dropped past this many
+export const MAX_HISTORY_STEPS = 100;
+// Edits to the same field closer together than this are undone as one step, so a typed word isn't undone letter by letter
+export const GROUP_WINDOW_MS = 1000;
+
+export interface EditHistory {
+    past: Invoice[];
+    future: Invoice[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Names the single field an edit touched, e.g. "client.address" or "items.2.description". Edits that touch
+// several fields, or add or remove a line, return null and always start a step of their own.
+export const getChangeKey = (previous: Invoice, next: Invoice): string | null => {
+    const changed = (Object.keys(next) as (keyof Invoice)[]).filter(key => previous[key] !== next[key]);
+    if (changed.length !== 1) return null;
+    const [field] = changed;
+    const before: unknown = previous[field];
+    const after: unknown = next[field];
+    if (field === 'items') {
+        if (previous.items.length !== next.items.length) return null;
+        const index = next.items.findIndex((item, i) => item !== previous.items[i]);
+        if (index === -1) return null;
+        const itemFields = (Object.keys(next.items[index]) as (keyof Invoice['items'][number])[])
+            .filter(key => next.items[index][key] !== previous.items[index][key]);
+        return itemFields.length === 1 ? `items.${index}.${itemFields[0]}` : null;
+    }
+    if (isRecord(before) && isRecord(after)) {
+        const subFields = Object.keys(after).filter(key => before[key] !== after[key]);
+        return subFields.length === 1 ? `${field}.${subFields[0]}` : null;
+    }
+    return field;
+};
+
+// Records `previous` as an undo step unless the edit continues the one before it
+export const recordEdit = (history: EditHistory, previous: Invoice, isContinuation: boolean): EditHistory => ({
+    past: isContinuation && history.past.length > 0 ? history.past : [...history.past, previous].slice(-MAX_HISTORY_STEPS),
+    future: [],
+});
+
+export const undoEdit = (history: EditHistory, current: Invoice): { history: EditHistory; invoice: Invoice } | null => {
+    const invoice = history.past[history.past.length - 1];
+    if (!invoice) return null;
+    return { history: { past: history.past.slice(0, -1), future: [current, ...history.future] }, invoice };
+};
+
+export const redoEdit = (history: EditHistory, current: Invoice): { history: EditHistory; invoice: Invoice } | null => {
+    const [invoice, ...future] = history.future;
+    if (!invoice) return null;
+    return { history: { past: [...history.past, current].slice(-MAX_HISTORY_STEPS), future }, invoice };
+};
@@ -0,0 +1,44 @@
+import { Currency } from '../types';
+import { getCurrency } from './currencies';
+
+// Exact integer form of a finite number as written in decimal: value = units × 10^-scale.
+// Reading the digits rather than multiplying keeps values like 1.005 from turning into 1.00499…
+const toExact = (value: number): { units: bigint; scale: number } => {
+    if (!Number.isFinite(value)) return { units: 0n, scale: 0 };
+    const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e');
+    const [whole, fraction = ''] = mantissa.split('.');
+    const units = BigInt(whole + fraction);
+    const scale = fraction.length - Number(exponent);
+    return scale >= 0 ? { units, scale } : { units: units * 10n ** BigInt(-scale), scale: 0 };
+};
+
+// Divides by `divisor`, rounding halves away from zero as invoices and GST returns do
+const divideRounded = (units: bigint, divisor: bigint): bigint => {
+    const quotient = units / divisor;
+    const remainder = units % divisor;
+    const isHalfOrMore = (remainder < 0n ? -remainder : remainder) * 2n >= divisor;
+    return isHalfOrMore ? quotient + (units < 0n ? -1n : 1n) : quotient;
+};
+
+// a × b × 10^exponent, rounded once to a whole number. With exponent 2 and rupee amounts the result is in paise.
+export const multiplyRounded = (a: number, b: number, exponent: number): number => {
+    const x = toExact(a);
+    const y = toExact(b);
+    const product = x.units * y.units;
+    const shift = exponent - x.scale - y.scale;
+    return Number(shift >= 0 ? product * 10n ** BigInt(shift) : divideRounded(product, 10n ** BigInt(-shift)));
+};
+
+// Drops the last `digits` digits of an integer amount, rounding the way multiplyRounded does
+export const roundOffDigits = (units: number, digits: number): number =>
+    digits <= 0 ? units : Number(divideRounded(BigInt(units), 10n ** BigInt(digits)));
+
+export const toMinorUnits = (amount: number, minorUnits: number): number => multiplyRounded(amount, 1, minorUnits);
+
+export const fromMinorUnits = (units: number, minorUnits: number): number => Number(`${units}e-${minorUnits}`);
+
+// Rounds to the currency's smallest coin, e.g. paise for INR and whole yen for JPY
+export const roundMoney = (amount: number, currency: Currency): number => {
+    const { minorUnits } = getCurrency(currency);
+    return fromMinorUnits(toMinorUnits(amount, minorUnits), minorUnits);
+};
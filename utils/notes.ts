@@ -0,0 +1,38 @@
+import { Invoice, InvoiceType, OriginalInvoiceLink, StoredInvoice } from '../types';
+import { isPayable } from './payments';
+
+export const NOTE_TYPES: InvoiceType[] = ['Credit Note', 'Debit Note'];
+
+export const isNote = (invoiceType: InvoiceType): boolean => NOTE_TYPES.includes(invoiceType);
+
+// Notes adjust a billed amount, so they can only be raised against documents that are paid against
+export const getNoteTypes = (invoiceType: InvoiceType): InvoiceType[] => (isPayable(invoiceType) ? NOTE_TYPES : []);
+
+export const toOriginalInvoiceLink = (record: StoredInvoice): OriginalInvoiceLink => ({
+    id: record.id,
+    invoiceType: record.invoice.invoiceType,
+    invoiceNumber: record.invoice.invoiceNumber,
+    date: record.invoice.date,
+});
+
+// GST rules require a note to quote the number and date of the invoice it adjusts
+export const getOriginalInvoiceLabel = (invoice: Invoice): string | null => {
+    const original = invoice.originalInvoice;
+    if (!isNote(invoice.invoiceType) || !original) return null;
+    return `Against ${original.invoiceType} ${original.invoiceNumber || '(unnumbered)'}${original.date ? ` dated ${original.date}` : ''}`;
+};
+
+// Copies the parties, lines, tax setup and currency of the invoice being adjusted. The lines start as the whole
+// invoice and are edited down to what is being returned or corrected.
+export const prefillNoteFromInvoice = (note: Invoice, original: StoredInvoice): Invoice => ({
+    ...note,
+    business: { ...original.invoice.business },
+    client: { ...original.invoice.client },
+    items: structuredClone(original.invoice.items),
+    taxTreatment: original.invoice.taxTreatment,
+    placeOfSupply: original.invoice.placeOfSupply,
+    discountRate: original.invoice.discountRate,
+    currency: original.invoice.currency,
+    exchangeRate: { ...original.invoice.exchangeRate },
+    originalInvoice: toOriginalInvoiceLink(original),
+});
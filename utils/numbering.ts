@@ -0,0 +1,70 @@
+import { InvoiceType, NumberingSequence } from '../types';
+
+const toDate = (value?: string | Date): Date => {
+    if (value instanceof Date) return value;
+    const parsed = value ? new Date(value.replace(/-/g, '/')) : new Date();
+    return isNaN(parsed.getTime()) ? new Date() : parsed;
+};
+
+// The Indian financial year runs from 1 April to 31 March, e.g. "2026-27"
+export const getFinancialYear = (value?: string | Date): string => {
+    const date = toDate(value);
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const DEFAULT_SEQUENCES: Record<InvoiceType, Omit<NumberingSequence, 'id' | 'financialYear'>> = {
+    'Invoice': { prefix: 'INV/{FY}/', suffix: '', padding: 4, resetEachFinancialYear: true, nextNumber: 1 },
+    'Tax Invoice': { prefix: 'TI/{FY}/', suffix: '', padding: 4, resetEachFinancialYear: true, nextNumber: 1 },
+    'Quotation': { prefix: 'QT-', suffix: '', padding: 4, resetEachFinancialYear: false, nextNumber: 1 },
+    'Proforma Invoice': { prefix: 'PI/{FY}/', suffix: '', padding: 4, resetEachFinancialYear: true, nextNumber: 1 },
+    'Estimate': { prefix: 'EST-', suffix: '', padding: 4, resetEachFinancialYear: false, nextNumber: 1 },
+    'Credit Note': { prefix: 'CN/{FY}/', suffix: '', padding: 4, resetEachFinancialYear: true, nextNumber: 1 },
+    'Debit Note': { prefix: 'DN/{FY}/', suffix: '', padding: 4, resetEachFinancialYear: true, nextNumber: 1 },
+};
+
+export const createDefaultSequence = (type: InvoiceType, date?: string): NumberingSequence => ({
+    id: type,
+    ...DEFAULT_SEQUENCES[type],
+    financialYear: getFinancialYear(date),
+});
+
+// Supported tokens: {FY} (2026-27), {YYYY}, {YY} and {MM}, taken from the document date
+const expandTemplate = (template: string, date: Date): string =>
+    template
+        .replace(/\{FY\}/g, getFinancialYear(date))
+        .replace(/\{YYYY\}/g, String(date.getFullYear()))
+        .replace(/\{YY\}/g, String(date.getFullYear() % 100).padStart(2, '0'))
+        .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'));
+
+// Sequences that reset each financial year count each year separately: nextNumber belongs to the latest year, and
+// documents back-dated into an earlier year carry on from that year's own counter.
+export const getNextCounter = (sequence: NumberingSequence, date?: string): number => {
+    const financialYear = getFinancialYear(date);
+    if (!sequence.resetEachFinancialYear || financialYear === sequence.financialYear) return sequence.nextNumber;
+    return financialYear < sequence.financialYear ? sequence.counters?.[financialYear] ?? 1 : 1;
+};
+
+// The sequence after `counter` has been taken for a document dated `date`
+export const advanceSequence = (sequence: NumberingSequence, counter: number, date?: string): NumberingSequence => {
+    const financialYear = getFinancialYear(date);
+    if (!sequence.resetEachFinancialYear || financialYear === sequence.financialYear) return { ...sequence, nextNumber: counter + 1 };
+    if (financialYear < sequence.financialYear) return { ...sequence, counters: { ...sequence.counters, [financialYear]: counter + 1 } };
+    return {
+        ...sequence,
+        financialYear,
+        nextNumber: counter + 1,
+        counters: { ...sequence.counters, [sequence.financialYear]: sequence.nextNumber },
+    };
+};
+
+export const formatDocumentNumber = (sequence: NumberingSequence, counter: number, date?: string): string => {
+    const documentDate = toDate(date);
+    const padded = String(counter).padStart(Math.max(0, sequence.padding), '0');
+    return `${expandTemplate(sequence.prefix, documentDate)}${padded}${expandTemplate(sequence.suffix, documentDate)}`;
+};
+
+export const previewNextNumber = (sequence: NumberingSequence, date?: string): string =>
+    formatDocumentNumber(sequence, getNextCounter(sequence, date), date);
+
+export const normalizeDocumentNumber = (value: string): string => value.trim().toUpperCase();
@@ -0,0 +1,85 @@
+import { Invoice, LateFeeRule, PaymentTerms, PaymentTermsCode } from '../types';
+import { addDays, daysBetween, getEndOfMonth, getToday } from './dates';
+import { roundMoney } from './money';
+import { formatCurrency } from './format';
+import { getBalanceDue, getInvoiceStatus } from './payments';
+
+export const PAYMENT_TERMS_OPTIONS: { value: PaymentTermsCode; label: string }[] = [
+    { value: 'manual', label: 'None (enter due date)' },
+    { value: 'due-on-receipt', label: 'Due on receipt' },
+    { value: 'net-7', label: 'Net 7' },
+    { value: 'net-15', label: 'Net 15' },
+    { value: 'net-30', label: 'Net 30' },
+    { value: 'net-45', label: 'Net 45' },
+    { value: 'net-60', label: 'Net 60' },
+    { value: 'end-of-month', label: 'End of month' },
+    { value: 'custom', label: 'Custom (N days)' },
+];
+
+export const LATE_FEE_TYPES: { value: LateFeeRule['type']; label: string }[] = [
+    { value: 'none', label: 'No late fee' },
+    { value: 'flat', label: 'Flat amount' },
+    { value: 'percent-per-month', label: '% per month' },
+];
+
+const NET_DAYS: Partial<Record<PaymentTermsCode, number>> = {
+    'due-on-receipt': 0,
+    'net-7': 7,
+    'net-15': 15,
+    'net-30': 30,
+    'net-45': 45,
+    'net-60': 60,
+};
+
+// Null when the due date is entered by hand or there is no invoice date to count from
+export const getTermsDueDate = (date: string, terms: PaymentTerms): string | null => {
+    if (!date || terms.code === 'manual') return null;
+    if (terms.code === 'end-of-month') return getEndOfMonth(date);
+    const days = terms.code === 'custom' ? terms.customDays : NET_DAYS[terms.code] ?? 0;
+    return addDays(date, Math.max(0, days));
+};
+
+// Keeps the due date in step with the invoice date while payment terms are set
+export const applyPaymentTerms = (invoice: Invoice): Invoice => {
+    const dueDate = getTermsDueDate(invoice.date, invoice.paymentTerms);
+    return dueDate === null || dueDate === invoice.dueDate ? invoice : { ...invoice, dueDate };
+};
+
+const getTermsLabel = (terms: PaymentTerms): string | null => {
+    if (terms.code === 'manual') return null;
+    if (terms.code === 'custom') return `Net ${terms.customDays}`;
+    return PAYMENT_TERMS_OPTIONS.find(option => option.value === terms.code)?.label ?? null;
+};
+
+const getLateFeeLabel = (invoice: Invoice): string | null => {
+    const { type, value } = invoice.lateFee;
+    if (type === 'none' || value <= 0) return null;
+    return type === 'flat'
+        ? `Late fee ${formatCurrency(value, invoice.currency)} once overdue`
+        : `Late fee ${value}% per month on the overdue balance`;
+};
+
+// Reads back a fee getLateFeeLabel wrote. Every currency's locale groups with commas and uses a decimal point, so
+// the flat amount is its digits once the symbol and grouping are dropped.
+export const parseLateFeeLabel = (label: string): LateFeeRule => {
+    const percent = Number(label.match(/^Late fee ([\d.]+)% per month/)?.[1]);
+    if (percent > 0) return { type: 'percent-per-month', value: percent };
+    const flat = Number(label.match(/^Late fee (.+) once overdue$/)?.[1].replace(/[^\d.]/g, ''));
+    return flat > 0 ? { type: 'flat', value: flat } : { type: 'none', value: 0 };
+};
+
+// Printed with the invoice dates, e.g. "Net 30 · Late fee 2% per month on the overdue balance"
+export const getPaymentTermsText = (invoice: Invoice): string | null => {
+    const parts = [getTermsLabel(invoice.paymentTerms), getLateFeeLabel(invoice)].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+// Fee owed on an overdue invoice as of `today`. A percentage is charged on the balance due for each month
+// or part month past the due date.
+export const getLateFee = (invoice: Invoice, total: number, today: string = getToday()): number => {
+    const { type, value } = invoice.lateFee;
+    if (type === 'none' || value <= 0 || getInvoiceStatus(invoice, total, today) !== 'Overdue') return 0;
+    if (type === 'flat') return value;
+    const monthsOverdue = Math.ceil(daysBetween(invoice.dueDate, today) / 30);
+    return roundMoney(getBalanceDue(invoice, total) * (value / 100) * monthsOverdue, invoice.currency);
+};
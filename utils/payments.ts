@@ -0,0 +1,64 @@
+import { Invoice, InvoiceStatus, InvoiceType, IssueStatus, PaymentMode } from '../types';
+import { getCurrency } from './currencies';
+import { getToday } from './dates';
+
+export const ISSUE_STATUSES: IssueStatus[] = ['Draft', 'Sent', 'Void'];
+
+export const PAYMENT_MODES: PaymentMode[] = ['Bank Transfer', 'UPI', 'Cash', 'Cheque', 'Card', 'Other'];
+
+// Quotations and estimates aren't paid against, and a proforma is settled through the invoice it becomes
+export const isPayable = (invoiceType: InvoiceType): boolean => invoiceType === 'Invoice' || invoiceType === 'Tax Invoice';
+
+export const getAmountPaid = (invoice: Invoice): number =>
+    invoice.payments.reduce((acc, payment) => acc + (payment.amount || 0), 0);
+
+// Debit notes add to what the client owes, credit notes take away from it
+export const getAdjustmentTotal = (invoice: Invoice): number =>
+    (invoice.adjustments ?? []).reduce((acc, note) => acc + (note.invoiceType === 'Debit Note' ? note.amount : -note.amount), 0);
+
+export const getBalanceDue = (invoice: Invoice, total: number): number => total + getAdjustmentTotal(invoice) - getAmountPaid(invoice);
+
+export interface SettlementRow {
+    label: string;
+    amount: number;
+    // Printed with a minus sign
+    isDeduction: boolean;
+}
+
+// Notes, amount paid and balance due, listed under the grand total once a payment or note applies
+export const getSettlementRows = (invoice: Invoice, total: number): SettlementRow[] => {
+    const adjustments = invoice.adjustments ?? [];
+    if (!isPayable(invoice.invoiceType) || (invoice.payments.length === 0 && adjustments.length === 0)) return [];
+    const sumOf = (noteType: InvoiceType) => adjustments.filter(note => note.invoiceType === noteType).reduce((acc, note) => acc + note.amount, 0);
+    const rows: SettlementRow[] = [];
+    if (sumOf('Credit Note') > 0) rows.push({ label: 'Credit Notes', amount: sumOf('Credit Note'), isDeduction: true });
+    if (sumOf('Debit Note') > 0) rows.push({ label: 'Debit Notes', amount: sumOf('Debit Note'), isDeduction: false });
+    if (invoice.payments.length > 0) rows.push({ label: 'Amount Paid', amount: getAmountPaid(invoice), isDeduction: true });
+    rows.push({ label: 'Balance Due', amount: getBalanceDue(invoice, total), isDeduction: false });
+    return rows;
+};
+
+// Anything under half the smallest coin is rounding noise, not money still owed
+export const isSettled = (invoice: Invoice, total: number): boolean =>
+    getBalanceDue(invoice, total) < 0.5 / 10 ** getCurrency(invoice.currency).minorUnits;
+
+// Void wins over everything; a sent invoice past its due date reads as Overdue until it is fully paid
+export const getInvoiceStatus = (invoice: Invoice, total: number, today: string = getToday()): InvoiceStatus => {
+    if (invoice.issueStatus === 'Void') return 'Void';
+    const amountPaid = getAmountPaid(invoice);
+    // An invoice cancelled out by a full credit note counts as settled even without a payment
+    const isCleared = amountPaid > 0 || Boolean(invoice.adjustments?.length);
+    if (total > 0 && isCleared && isSettled(invoice, total)) return 'Paid';
+    if (invoice.issueStatus === 'Draft' && amountPaid === 0) return 'Draft';
+    if (invoice.dueDate && invoice.dueDate < today) return 'Overdue';
+    return amountPaid > 0 ? 'Partially Paid' : 'Sent';
+};
+
+export const STATUS_BADGE_CLASSES: Record<InvoiceStatus, string> = {
+    'Draft': 'bg-gray-100 text-gray-700',
+    'Sent': 'bg-blue-100 text-blue-800',
+    'Partially Paid': 'bg-amber-100 text-amber-800',
+    'Paid': 'bg-green-100 text-green-800',
+    'Overdue': 'bg-red-100 text-red-800',
+    'Void': 'bg-gray-200 text-gray-500 line-through',
+};
@@ -0,0 +1,53 @@
+import { RecurrenceFrequency, RecurringSchedule, StoredInvoice } from '../types';
+import { addDays, toIsoDate, toUtcDate } from './dates';
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'quarterly', label: 'Quarterly' },
+    { value: 'yearly', label: 'Yearly' },
+];
+
+const MONTHS_PER_RUN: Record<Exclude<RecurrenceFrequency, 'weekly'>, number> = {
+    monthly: 1,
+    quarterly: 3,
+    yearly: 12,
+};
+
+// The given day of the month `months` after `date`, or that month's last day when it is shorter
+const onDayOfMonth = (date: string, months: number, day: number): string => {
+    const start = toUtcDate(date);
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + months;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return toIsoDate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+};
+
+const getAnchorDay = (schedule: RecurringSchedule): number => schedule.dayOfMonth ?? toUtcDate(schedule.startDate).getUTCDate();
+
+const getFirstRunDate = (schedule: RecurringSchedule): string => {
+    if (schedule.frequency === 'weekly') return schedule.startDate;
+    const sameMonth = onDayOfMonth(schedule.startDate, 0, getAnchorDay(schedule));
+    return sameMonth >= schedule.startDate ? sameMonth : onDayOfMonth(schedule.startDate, 1, getAnchorDay(schedule));
+};
+
+const stepRunDate = (schedule: RecurringSchedule, from: string): string =>
+    schedule.frequency === 'weekly'
+        ? addDays(from, 7)
+        : onDayOfMonth(from, MONTHS_PER_RUN[schedule.frequency], getAnchorDay(schedule));
+
+// Null once the schedule has run past its end date
+export const getNextRunDate = (schedule: RecurringSchedule): string | null => {
+    if (!schedule.startDate) return null;
+    const stepped = schedule.lastRunDate ? stepRunDate(schedule, schedule.lastRunDate) : '';
+    // A start date moved later than the last run restarts the schedule from there
+    const next = stepped && stepped >= schedule.startDate ? stepped : getFirstRunDate(schedule);
+    return schedule.endDate && next > schedule.endDate ? null : next;
+};
+
+export const describeFrequency = (schedule: RecurringSchedule): string => {
+    const label = RECURRENCE_FREQUENCIES.find(option => option.value === schedule.frequency)?.label ?? schedule.frequency;
+    return schedule.frequency === 'weekly' || schedule.dayOfMonth === null ? label : `${label} on day ${schedule.dayOfMonth}`;
+};
+
+export const isAwaitingReview = (record: StoredInvoice): boolean => Boolean(record.invoice.recurrence?.pendingReview);
@@ -0,0 +1,52 @@
+import { TemplateId } from '../types';
+
+export interface PdfLayout {
+    pageFormat: 'a4' | 'a5';
+    margin: number;
+    // Multiplier applied to every font size, for the smaller compact page
+    fontScale: number;
+    // 'theme' uses the invoice theme color for accents, 'mono' prints in black only
+    accent: 'theme' | 'mono';
+    // filled: colored header row; ruled: horizontal rules only; grid: every cell boxed
+    tableStyle: 'filled' | 'ruled' | 'grid';
+    showHsnSummary: boolean;
+}
+
+export interface TemplateDefinition {
+    id: TemplateId;
+    label: string;
+    description: string;
+    pdf: PdfLayout;
+}
+
+export const DEFAULT_TEMPLATE_ID: TemplateId = 'colorful';
+
+export const INVOICE_TEMPLATES: TemplateDefinition[] = [
+    {
+        id: 'colorful',
+        label: 'Colorful',
+        description: 'Theme-colored headings and item table.',
+        pdf: { pageFormat: 'a4', margin: 40, fontScale: 1, accent: 'theme', tableStyle: 'filled', showHsnSummary: true },
+    },
+    {
+        id: 'minimal',
+        label: 'Minimal',
+        description: 'Black and white with thin rules, for plain printing.',
+        pdf: { pageFormat: 'a4', margin: 48, fontScale: 1, accent: 'mono', tableStyle: 'ruled', showHsnSummary: true },
+    },
+    {
+        id: 'classic-gst',
+        label: 'Classic GST',
+        description: 'Bordered boxes around every section and cell.',
+        pdf: { pageFormat: 'a4', margin: 32, fontScale: 1, accent: 'mono', tableStyle: 'grid', showHsnSummary: true },
+    },
+    {
+        id: 'compact',
+        label: 'Compact',
+        description: 'Half-page (A5) layout that also suits thermal printers.',
+        pdf: { pageFormat: 'a5', margin: 20, fontScale: 0.8, accent: 'mono', tableStyle: 'ruled', showHsnSummary: false },
+    },
+];
+
+export const getTemplate = (id: TemplateId | undefined): TemplateDefinition =>
+    INVOICE_TEMPLATES.find(template => template.id === id) ?? INVOICE_TEMPLATES[0];
@@ -0,0 +1,368 @@
+import { BankDetails, Business, ExchangeRate, Invoice, InvoiceType, Item, LateFeeRule, PaymentTerms, RoundingMode } from '../types';
+import { InvoiceCalculations, calculateInvoice } from './calculations';
+import { deriveTaxTreatment } from './gst';
+import { INDIAN_STATES, getStateName } from './indianStates';
+import { BASE_CURRENCY, getCurrency } from './currencies';
+import { getBaseAmounts, isForeignCurrency } from './exchangeRates';
+import { PAYMENT_TERMS_OPTIONS, getPaymentTermsText, parseLateFeeLabel } from './paymentTerms';
+import { ValidationIssue } from './validation';
+import { isNote } from './notes';
+import { field, group } from './xml';
+import { PAYMENT_MEANS_CODES, fromUnitCode, getCountryCode, getDocumentTypeCode, getTaxCategoryCode, isIban, toUnitCode, validateEn16931 } from './en16931';
+
+const NAMESPACES = {
+    Invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+    CreditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+    cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+    cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+const CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0';
+const PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+const taxCategory = (name: string, rate: number): string => group(name, [
+    field('cbc:ID', getTaxCategoryCode(rate)),
+    field('cbc:Percent', String(rate)),
+    group('cac:TaxScheme', [field('cbc:ID', 'VAT')]),
+]);
+
+// The free-text address keeps its lines: the first two as street names, the rest as one address line
+const renderAddress = (name: string, address: string, state: string, countryCode: string): string => {
+    const lines = address.split('\n').map(line => line.trim()).filter(Boolean);
+    return group(name, [
+        field('cbc:StreetName', lines[0]),
+        field('cbc:AdditionalStreetName', lines[1]),
+        field('cbc:CountrySubentity', getStateName(state)),
+        group('cac:AddressLine', [field('cbc:Line', lines.slice(2).join('\n'))]),
+        group('cac:Country', [field('cbc:IdentificationCode', countryCode)]),
+    ]);
+};
+
+const renderParty = (name: string, party: Business): string => group(name, [group('cac:Party', [
+    field('cbc:EndpointID', party.email.trim(), { schemeID: 'EM' }),
+    group('cac:PartyName', [field('cbc:Name', party.name.trim())]),
+    renderAddress('cac:PostalAddress', party.address, party.state, getCountryCode(party)),
+    group('cac:PartyTaxScheme', [
+        field('cbc:CompanyID', party.gstin.trim().toUpperCase()),
+        party.gstin.trim() ? group('cac:TaxScheme', [field('cbc:ID', 'VAT')]) : '',
+    ]),
+    group('cac:PartyLegalEntity', [field('cbc:RegistrationName', party.name.trim())]),
+    group('cac:Contact', [field('cbc:ElectronicMail', party.email.trim())]),
+])]);
+
+const renderPaymentMeans = (bank: BankDetails, invoiceNumber: string, dueDate?: string): string[] => {
+    const accountNumber = bank.accountNumber.replace(/\s/g, '').toUpperCase();
+    const transfer = group('cac:PaymentMeans', [
+        field('cbc:PaymentMeansCode', isIban(accountNumber) ? PAYMENT_MEANS_CODES.sepa : PAYMENT_MEANS_CODES.creditTransfer),
+        field('cbc:PaymentDueDate', dueDate),
+        field('cbc:PaymentID', invoiceNumber),
+        group('cac:PayeeFinancialAccount', [
+            field('cbc:ID', accountNumber),
+            field('cbc:Name', bank.name.trim()),
+            group('cac:FinancialInstitutionBranch', [field('cbc:ID', bank.ifscCode.trim().toUpperCase()), field('cbc:Name', bank.bankName.trim())]),
+        ]),
+    ]);
+    const upi = bank.upiId?.trim() && group('cac:PaymentMeans', [
+        field('cbc:PaymentMeansCode', PAYMENT_MEANS_CODES.online),
+        field('cbc:PaymentID', invoiceNumber),
+        group('cac:PayeeFinancialAccount', [field('cbc:ID', bank.upiId.trim())]),
+    ]);
+    return accountNumber ? [transfer, upi || ''] : [upi || ''];
+};
+
+// Serializes an invoice, tax invoice or note as a UBL 2.1 document following Peppol BIS Billing 3.0. CGST and SGST
+// are reported together as VAT at the line's combined rate. The invoice-wide discount is already spread over the
+// lines, so it goes in as an allowance on each line. Blank lines are left out.
+export const toUblXml = (invoice: Invoice, calculations: InvoiceCalculations): string => {
+    const isCreditNote = invoice.invoiceType === 'Credit Note';
+    const root = isCreditNote ? 'CreditNote' : 'Invoice';
+    const { currency } = invoice;
+    const { minorUnits } = getCurrency(currency);
+    const amount = (name: string, value: number) => field(name, value.toFixed(minorUnits), { currencyID: currency });
+    const original = invoice.originalInvoice;
+    const paymentTerms = getPaymentTermsText(invoice);
+    // Amounts in rupees for a foreign-currency invoice with a rate, which EN 16931 carries as the tax currency
+    const base = isForeignCurrency(invoice) ? getBaseAmounts(invoice, calculations) : undefined;
+
+    const lines = invoice.items
+        .map((item, index) => ({ item, line: calculations.lines[index] }))
+        .filter(({ item }) => item.description.trim() || item.price)
+        .map(({ item, line }, index) => group(`cac:${root}Line`, [
+            field('cbc:ID', String(index + 1)),
+            field(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', String(item.quantity), { unitCode: toUnitCode(item.unit) }),
+            amount('cbc:LineExtensionAmount', line.taxableValue),
+            line.discountAmount ? group('cac:AllowanceCharge', [
+                field('cbc:ChargeIndicator', 'false'),
+                field('cbc:AllowanceChargeReasonCode', '95'),
+                field('cbc:AllowanceChargeReason', 'Discount'),
+                field('cbc:MultiplierFactorNumeric', String(invoice.discountRate)),
+                amount('cbc:Amount', line.discountAmount),
+                amount('cbc:BaseAmount', line.amount),
+            ]) : '',
+            group('cac:Item', [
+                field('cbc:Name', item.description.trim()),
+                group('cac:CommodityClassification', [field('cbc:ItemClassificationCode', item.hsn.trim(), { listID: 'HS' })]),
+                taxCategory('cac:ClassifiedTaxCategory', line.taxRate),
+            ]),
+            group('cac:Price', [field('cbc:PriceAmount', String(item.price), { currencyID: currency })]),
+        ]));
+
+    const content = [
+        field('cbc:CustomizationID', CUSTOMIZATION_ID),
+        field('cbc:ProfileID', PROFILE_ID),
+        field('cbc:ID', invoice.invoiceNumber.trim()),
+        field('cbc:IssueDate', invoice.date),
+        isCreditNote ? '' : field('cbc:DueDate', invoice.dueDate),
+        field(`cbc:${root}TypeCode`, getDocumentTypeCode(invoice.invoiceType)),
+        field('cbc:Note', invoice.notes.trim()),
+        field('cbc:DocumentCurrencyCode', currency),
+        base ? field('cbc:TaxCurrencyCode', base.currency) : '',
+        field('cbc:BuyerReference', invoice.buyerReference.trim()),
+        original && isNote(invoice.invoiceType) ? group('cac:BillingReference', [group('cac:InvoiceDocumentReference', [
+            field('cbc:ID', original.invoiceNumber),
+            field('cbc:IssueDate', original.date),
+        ])]) : '',
+        renderParty('cac:AccountingSupplierParty', invoice.business),
+        renderParty('cac:AccountingCustomerParty', invoice.client),
+        invoice.placeOfSupply ? group('cac:Delivery', [group('cac:DeliveryLocation', [group('cac:Address', [
+            field('cbc:CountrySubentity', getStateName(invoice.placeOfSupply)),
+            group('cac:Country', [field('cbc:IdentificationCode', 'IN')]),
+        ])])]) : '',
+        ...renderPaymentMeans(invoice.bankDetails, invoice.invoiceNumber.trim(), isCreditNote ? invoice.dueDate : undefined),
+        // Peppol allows only a note here, so the late fee travels in its text
+        paymentTerms ? group('cac:PaymentTerms', [field('cbc:Note', paymentTerms)]) : '',
+        base ? group('cac:TaxExchangeRate', [
+            field('cbc:SourceCurrencyCode', currency),
+            field('cbc:TargetCurrencyCode', base.currency),
+            field('cbc:CalculationRate', String(base.exchangeRate)),
+            field('cbc:MathematicOperatorCode', 'Multiply'),
+            field('cbc:Date', base.rateDate),
+        ]) : '',
+        group('cac:TaxTotal', [
+            amount('cbc:TaxAmount', calculations.taxAmount),
+            ...calculations.taxByRate.map(row => group('cac:TaxSubtotal', [
+                amount('cbc:TaxableAmount', row.taxableValue),
+                amount('cbc:TaxAmount', row.taxAmount),
+                taxCategory('cac:TaxCategory', row.taxRate),
+            ])),
+        ]),
+        // EN 16931 wants the tax total in the tax currency too, as a second total without subtotals
+        base ? group('cac:TaxTotal', [
+            field('cbc:TaxAmount', base.taxAmount.toFixed(getCurrency(base.currency).minorUnits), { currencyID: base.currency }),
+        ]) : '',
+        group('cac:LegalMonetaryTotal', [
+            amount('cbc:LineExtensionAmount', calculations.taxableAmount),
+            amount('cbc:TaxExclusiveAmount', calculations.taxableAmount),
+            amount('cbc:TaxInclusiveAmount', calculations.taxableAmount + calculations.taxAmount),
+            calculations.roundOff ? amount('cbc:PayableRoundingAmount', calculations.roundOff) : '',
+            amount('cbc:PayableAmount', calculations.total),
+        ]),
+        ...lines,
+    ];
+
+    const namespaces = { xmlns: NAMESPACES[root], 'xmlns:cac': NAMESPACES.cac, 'xmlns:cbc': NAMESPACES.cbc };
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${group(root, content, namespaces)}\n`;
+};
+
+// Peppol addresses both parties by email and needs the buyer's reference, on top of the fields every EN 16931 invoice
+// needs
+export const validateUbl = (invoice: Invoice): ValidationIssue[] => {
+    const issues = validateEn16931(invoice, 'a UBL invoice');
+    if (!invoice.buyerReference.trim()) {
+        issues.push({ field: 'buyerReference', message: "The client's reference or PO number is required for Peppol.", severity: 'error', isMissingValue: true });
+    }
+    if (!invoice.business.email.trim()) {
+        issues.push({ field: 'businessEmail', message: 'Your email is required as the Peppol endpoint address.', severity: 'error', isMissingValue: true });
+    }
+    if (!invoice.client.email.trim()) {
+        issues.push({ field: 'clientEmail', message: "The client's email is required as the Peppol endpoint address.", severity: 'error', isMissingValue: true });
+    }
+    return issues;
+};
+
+const childElements = (parent: Element | undefined, name: string): Element[] =>
+    parent ? Array.from(parent.children).filter(child => child.localName === name) : [];
+
+// Follows a path of child element names, taking the first match at each step
+const findElement = (parent: Element | undefined, ...path: string[]): Element | undefined =>
+    path.reduce<Element | undefined>((element, name) => childElements(element, name)[0], parent);
+
+const readText = (parent: Element | undefined, ...path: string[]): string =>
+    findElement(parent, ...path)?.textContent?.trim() ?? '';
+
+const readNumber = (parent: Element | undefined, ...path: string[]): number => {
+    const value = Number(readText(parent, ...path));
+    return Number.isFinite(value) ? value : 0;
+};
+
+const toStateCode = (name: string): string =>
+    INDIAN_STATES.find(state => state.name.toLowerCase() === name.toLowerCase())?.code ?? '';
+
+const readAddress = (address: Element | undefined): string => [
+    readText(address, 'StreetName'),
+    readText(address, 'AdditionalStreetName'),
+    [readText(address, 'CityName'), readText(address, 'PostalZone')].filter(Boolean).join(' '),
+    ...childElements(address, 'AddressLine').map(line => readText(line, 'Line')),
+].filter(Boolean).join('\n');
+
+const readParty = (party: Element | undefined): Business => {
+    const address = findElement(party, 'PostalAddress');
+    const countryCode = readText(address, 'Country', 'IdentificationCode');
+    const taxSchemes = childElements(party, 'PartyTaxScheme');
+    const vatScheme = taxSchemes.find(scheme => readText(scheme, 'TaxScheme', 'ID') === 'VAT') ?? taxSchemes[0];
+    const endpoint = findElement(party, 'EndpointID');
+    return {
+        name: readText(party, 'PartyName', 'Name') || readText(party, 'PartyLegalEntity', 'RegistrationName'),
+        address: readAddress(address),
+        email: readText(party, 'Contact', 'ElectronicMail') || (endpoint?.getAttribute('schemeID') === 'EM' ? readText(party, 'EndpointID') : ''),
+        gstin: readText(vatScheme, 'CompanyID'),
+        state: !countryCode || countryCode === 'IN' ? toStateCode(readText(address, 'CountrySubentity')) : '',
+    };
+};
+
+const readBankDetails = (root: Element): BankDetails => {
+    const means = childElements(root, 'PaymentMeans');
+    const online = means.find(entry => readText(entry, 'PaymentMeansCode') === PAYMENT_MEANS_CODES.online);
+    const transfer = means.find(entry => entry !== online && findElement(entry, 'PayeeFinancialAccount'));
+    const account = findElement(transfer, 'PayeeFinancialAccount');
+    return {
+        name: readText(account, 'Name'),
+        accountNumber: readText(account, 'ID'),
+        bankName: readText(account, 'FinancialInstitutionBranch', 'Name'),
+        ifscCode: readText(account, 'FinancialInstitutionBranch', 'ID'),
+        upiId: readText(online, 'PayeeFinancialAccount', 'ID'),
+    };
+};
+
+const readLine = (line: Element, index: number, isCreditNote: boolean): Item => {
+    const quantity = findElement(line, isCreditNote ? 'CreditedQuantity' : 'InvoicedQuantity');
+    const baseQuantity = readNumber(line, 'Price', 'BaseQuantity') || 1;
+    const unitCode = quantity?.getAttribute('unitCode') ?? '';
+    return {
+        id: index + 1,
+        description: readText(line, 'Item', 'Name') || readText(line, 'Item', 'Description'),
+        quantity: Number(quantity?.textContent?.trim()) || 0,
+        price: readNumber(line, 'Price', 'PriceAmount') / baseQuantity,
+        hsn: readText(line, 'Item', 'CommodityClassification', 'ItemClassificationCode'),
+        unit: fromUnitCode(unitCode),
+        taxRate: readNumber(line, 'Item', 'ClassifiedTaxCategory', 'Percent'),
+    };
+};
+
+// Terms this app wrote, e.g. "Net 30 · Late fee …", are recognised again; anything else keeps the due date as given
+const readPaymentTerms = (root: Element): PaymentTerms => {
+    const label = readText(root, 'PaymentTerms', 'Note').split(' · ')[0];
+    const option = PAYMENT_TERMS_OPTIONS.find(entry => entry.value !== 'manual' && entry.label === label);
+    if (option) return { code: option.value, customDays: 0 };
+    const days = label.match(/^Net (\d+)$/)?.[1];
+    return days ? { code: 'custom', customDays: Number(days) } : { code: 'manual', customDays: 0 };
+};
+
+// The late fee is the part of the terms note after the terms themselves, as getPaymentTermsText writes it
+const readLateFee = (root: Element): LateFeeRule => {
+    const label = readText(root, 'PaymentTerms', 'Note').split(' · ').find(part => part.startsWith('Late fee '));
+    return label ? parseLateFeeLabel(label) : { type: 'none', value: 0 };
+};
+
+// The rate to rupees from the tax exchange rate or, without one, from the tax totals in both currencies
+const readExchangeRate = (root: Element, currency: string, fallback: ExchangeRate): ExchangeRate => {
+    if (currency === BASE_CURRENCY) return fallback;
+    const exchange = findElement(root, 'TaxExchangeRate');
+    let rate = readText(exchange, 'TargetCurrencyCode') === BASE_CURRENCY ? readNumber(exchange, 'CalculationRate') : 0;
+    if (rate > 0 && readText(exchange, 'MathematicOperatorCode').toLowerCase() === 'divide') {
+        rate = 1 / rate;
+    }
+    if (!(rate > 0)) {
+        const taxAmounts = childElements(root, 'TaxTotal').map(total => findElement(total, 'TaxAmount'));
+        const inCurrency = (code: string) => Number(taxAmounts.find(amount => amount?.getAttribute('currencyID') === code)?.textContent) || 0;
+        const documentTax = inCurrency(currency);
+        rate = documentTax > 0 ? inCurrency(BASE_CURRENCY) / documentTax : 0;
+    }
+    if (!(rate > 0)) return fallback;
+    return { rate: Number(rate.toFixed(4)), date: readText(exchange, 'Date') || readText(root, 'IssueDate'), source: 'manual' };
+};
+
+// The discount rate from the first percentage allowance, on a line or on the whole document
+const readDiscountRate = (root: Element, lines: Element[]): number => {
+    const allowances = [...lines, root]
+        .flatMap(element => childElements(element, 'AllowanceCharge'))
+        .filter(allowance => readText(allowance, 'ChargeIndicator') === 'false');
+    return allowances.map(allowance => readNumber(allowance, 'MultiplierFactorNumeric')).find(rate => rate > 0) ?? 0;
+};
+
+// UBL has no place for the rounding mode, so it is whichever one gives back the stated total
+const readRoundingMode = (invoice: Invoice, payableAmount: number): RoundingMode => {
+    const { minorUnits } = getCurrency(invoice.currency);
+    const matches = (roundingMode: RoundingMode) =>
+        Math.abs(calculateInvoice({ ...invoice, roundingMode }).total - payableAmount) < 0.5 / 10 ** minorUnits;
+    const modes: RoundingMode[] = [invoice.roundingMode, invoice.roundingMode === 'per-line' ? 'per-total' : 'per-line'];
+    return modes.find(matches) ?? invoice.roundingMode;
+};
+
+export interface UblImport {
+    invoice: Invoice;
+    // Set when the imported lines don't add up to the file's PayableAmount, e.g. when it was rounded differently
+    totalMismatch: { stated: number; recalculated: number } | null;
+}
+
+// Reads a UBL invoice or credit note into `base`, usually a blank invoice, replacing its document details,
+// parties, lines and bank details. The tax treatment is worked out from the states; without them a seller with a
+// GSTIN is taken to charge IGST, as on exports. A note's original invoice is referenced by number and date only,
+// with no saved document id, and taken to be a Tax Invoice when the seller has a GSTIN. UBL doesn't carry how the
+// invoice looked, so the template, theme color and amount-in-words language stay as in `base`. Throws when the file
+// isn't a UBL invoice or credit note.
+export const parseUblXml = (xml: string, base: Invoice): UblImport => {
+    const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+    if (parsed.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The file is not valid XML.');
+    }
+    const root = parsed.documentElement;
+    if (root.localName !== 'Invoice' && root.localName !== 'CreditNote') {
+        throw new Error('The file is not a UBL invoice or credit note.');
+    }
+    const isCreditNote = root.localName === 'CreditNote';
+    const typeCode = readText(root, isCreditNote ? 'CreditNoteTypeCode' : 'InvoiceTypeCode');
+    const business = readParty(findElement(root, 'AccountingSupplierParty', 'Party'));
+    const client = readParty(findElement(root, 'AccountingCustomerParty', 'Party'));
+    const lineElements = childElements(root, isCreditNote ? 'CreditNoteLine' : 'InvoiceLine');
+    const items = lineElements.map((line, index) => readLine(line, index, isCreditNote));
+    const reference = findElement(root, 'BillingReference', 'InvoiceDocumentReference');
+    const payableType: InvoiceType = business.gstin ? 'Tax Invoice' : 'Invoice';
+    const invoiceType: InvoiceType = isCreditNote || typeCode === '381'
+        ? 'Credit Note'
+        : typeCode === '383' ? 'Debit Note' : payableType;
+    const currency = readText(root, 'DocumentCurrencyCode') || base.currency;
+
+    const invoice: Invoice = {
+        ...base,
+        invoiceType,
+        invoiceNumber: readText(root, 'ID'),
+        date: readText(root, 'IssueDate'),
+        dueDate: readText(root, 'DueDate') || childElements(root, 'PaymentMeans').map(means => readText(means, 'PaymentDueDate')).find(Boolean) || '',
+        paymentTerms: readPaymentTerms(root),
+        lateFee: readLateFee(root),
+        business,
+        client,
+        buyerReference: readText(root, 'BuyerReference'),
+        items: items.length > 0 ? items : base.items,
+        placeOfSupply: toStateCode(readText(root, 'Delivery', 'DeliveryLocation', 'Address', 'CountrySubentity')),
+        discountRate: readDiscountRate(root, lineElements),
+        roundOff: readNumber(root, 'LegalMonetaryTotal', 'PayableRoundingAmount') !== 0,
+        currency,
+        exchangeRate: readExchangeRate(root, currency, base.exchangeRate),
+        bankDetails: readBankDetails(root),
+        notes: childElements(root, 'Note').map(note => note.textContent?.trim() ?? '').filter(Boolean).join('\n'),
+        ...(reference && isNote(invoiceType) && {
+            originalInvoice: { id: '', invoiceType: payableType, invoiceNumber: readText(reference, 'ID'), date: readText(reference, 'IssueDate') },
+        }),
+    };
+    const withTreatment: Invoice = { ...invoice, taxTreatment: deriveTaxTreatment(invoice) ?? (business.gstin ? 'inter-state' : 'non-gst') };
+    const payableAmount = readNumber(root, 'LegalMonetaryTotal', 'PayableAmount');
+    const imported: Invoice = { ...withTreatment, roundingMode: readRoundingMode(withTreatment, payableAmount) };
+    const recalculated = calculateInvoice(imported).total;
+    const { minorUnits } = getCurrency(currency);
+    return {
+        invoice: imported,
+        totalMismatch: Math.abs(recalculated - payableAmount) < 0.5 / 10 ** minorUnits ? null : { stated: payableAmount, recalculated },
+    };
+};
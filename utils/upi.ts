@@ -0,0 +1,10 @@
+import { Invoice } from '../types';
+import { isSettled } from './payments';
+
+// The QR asks for the balance due, so it is left off once payments and notes have settled the invoice
+export const hasUpiPayment = (invoice: Invoice, total: number): boolean =>
+    invoice.currency === 'INR' && Boolean(invoice.bankDetails.upiId) && !isSettled(invoice, total);
+
+// Payment link encoded in the "Scan to Pay" QR on the preview and the PDF
+export const buildUpiPaymentUri = (invoice: Invoice, amount: number): string =>
+    `upi://pay?pa=${invoice.bankDetails.upiId}&pn=${encodeURIComponent(invoice.business.name || 'Payee')}&am=${amount.toFixed(2)}&cu=INR`;
@@ -0,0 +1,170 @@
+import { Invoice, StoredInvoice } from '../types';
+import { isForeignTaxId, stateFromGstin } from './gst';
+import { getStateName } from './indianStates';
+import { getFinancialYear, normalizeDocumentNumber } from './numbering';
+import { BASE_CURRENCY } from './currencies';
+import { isNote } from './notes';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    // Matches the id of the form control the issue belongs to, so it can be shown inline and focused
+    field: string;
+    message: string;
+    severity: ValidationSeverity;
+    // Missing values are only flagged inline once the user tries to export
+    isMissingValue?: boolean;
+}
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+const UPI_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const HSN_PATTERN = /^\d{4}(\d{2}){0,2}$/;
+// A financial year as the {FY} numbering token writes it, e.g. 2026-27
+const FINANCIAL_YEAR_PATTERN = /(?<!\d)(\d{4})-(\d{2})(?!\d)/g;
+
+const gstinChecksumChar = (first14: string): string => {
+    const sum = first14.split('').reduce((acc, char, index) => {
+        const product = GSTIN_CHARSET.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+        return acc + Math.floor(product / 36) + (product % 36);
+    }, 0);
+    return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+export const isValidGstin = (gstin: string): boolean =>
+    GSTIN_PATTERN.test(gstin) && gstinChecksumChar(gstin.slice(0, 14)) === gstin[14];
+
+export const isValidIfsc = (ifsc: string): boolean => IFSC_PATTERN.test(ifsc.toUpperCase());
+
+export const isValidUpiId = (upiId: string): boolean => UPI_PATTERN.test(upiId);
+
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email);
+
+const validateGstin = (field: string, label: string, gstin: string, state: string): ValidationIssue[] => {
+    const value = gstin.trim();
+    if (!value) return [];
+    if (!GSTIN_PATTERN.test(value)) {
+        return [{ field, message: `${label} must be 15 characters, like 27ABCDE1234F1Z5.`, severity: 'error' }];
+    }
+    if (gstinChecksumChar(value.slice(0, 14)) !== value[14]) {
+        return [{ field, message: `${label} has an invalid check digit. Please re-check it for typos.`, severity: 'error' }];
+    }
+    if (state && stateFromGstin(value) !== state) {
+        return [{ field, message: `${label} is registered in ${getStateName(stateFromGstin(value)) || 'another state'}, not the selected state.`, severity: 'warning' }];
+    }
+    return [];
+};
+
+const validateRate = (field: string, label: string, rate: number): ValidationIssue[] =>
+    rate < 0 || rate > 100 ? [{ field, message: `${label} must be between 0 and 100.`, severity: 'error' }] : [];
+
+export interface ValidationContext {
+    // Saved documents other than the one being validated, used to catch duplicate numbers
+    otherDocuments?: StoredInvoice[];
+}
+
+export const validateInvoice = (invoice: Invoice, context: ValidationContext = {}): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const isTaxInvoice = invoice.invoiceType === 'Tax Invoice';
+
+    if (invoice.invoiceNumber.trim() === '') {
+        issues.push({ field: 'invoiceNumber', message: 'Invoice number cannot be empty.', severity: 'error', isMissingValue: true });
+    } else {
+        const number = normalizeDocumentNumber(invoice.invoiceNumber);
+        const duplicate = context.otherDocuments?.find(record =>
+            record.invoice.invoiceType === invoice.invoiceType && normalizeDocumentNumber(record.invoice.invoiceNumber) === number
+        );
+        if (duplicate) {
+            const clientNote = duplicate.invoice.client.name ? ` for ${duplicate.invoice.client.name}` : '';
+            issues.push({ field: 'invoiceNumber', message: `${invoice.invoiceNumber} is already used by another ${invoice.invoiceType}${clientNote}.`, severity: 'error' });
+        }
+        // The number is reserved on first save, so moving the date into another year afterwards leaves it behind
+        const numberYear = Array.from(invoice.invoiceNumber.matchAll(FINANCIAL_YEAR_PATTERN))
+            .find(([, start, end]) => (Number(start) + 1) % 100 === Number(end));
+        if (numberYear && invoice.date && numberYear[0] !== getFinancialYear(invoice.date)) {
+            issues.push({ field: 'invoiceNumber', message: `${invoice.invoiceNumber} is numbered in financial year ${numberYear[0]}, but the document is dated in ${getFinancialYear(invoice.date)}.`, severity: 'warning' });
+        }
+    }
+    if (isNote(invoice.invoiceType)) {
+        if (!invoice.originalInvoice) {
+            issues.push({ field: 'originalInvoice', message: `A ${invoice.invoiceType} must name the invoice it adjusts.`, severity: 'error', isMissingValue: true });
+        } else if (invoice.date && invoice.originalInvoice.date && invoice.date < invoice.originalInvoice.date) {
+            issues.push({ field: 'date', message: `The ${invoice.invoiceType} is dated before the invoice it adjusts.`, severity: 'warning' });
+        }
+    }
+    if (invoice.date && invoice.dueDate && invoice.dueDate < invoice.date) {
+        issues.push({ field: 'dueDate', message: 'Due date cannot be before the invoice date.', severity: 'error' });
+    }
+
+    issues.push(...validateGstin('businessGstin', 'Your GSTIN', invoice.business.gstin, invoice.business.state));
+    if (!isForeignTaxId(invoice.client.gstin)) {
+        issues.push(...validateGstin('clientGstin', 'Client GSTIN', invoice.client.gstin, invoice.client.state));
+    }
+    if (isTaxInvoice && !invoice.business.gstin.trim()) {
+        issues.push({ field: 'businessGstin', message: 'A Tax Invoice should show your GSTIN.', severity: 'warning', isMissingValue: true });
+    }
+
+    if (invoice.business.email && !isValidEmail(invoice.business.email)) {
+        issues.push({ field: 'businessEmail', message: 'Business email does not look like a valid address.', severity: 'warning' });
+    }
+    if (invoice.client.email && !isValidEmail(invoice.client.email)) {
+        issues.push({ field: 'clientEmail', message: 'Client email does not look like a valid address.', severity: 'warning' });
+    }
+
+    const { ifscCode, upiId } = invoice.bankDetails;
+    if (ifscCode && !isValidIfsc(ifscCode)) {
+        issues.push({ field: 'bankIfscCode', message: 'IFSC must be 11 characters: 4 letters, a zero, then 6 letters or digits.', severity: 'error' });
+    }
+    if (upiId && !isValidUpiId(upiId)) {
+        issues.push({ field: 'upiId', message: 'UPI ID should look like name@bank.', severity: 'error' });
+    }
+
+    issues.push(...validateRate('discountRate', 'Discount rate', invoice.discountRate));
+
+    // Without a rate the base-currency amounts can't be worked out for reports
+    if (invoice.currency !== BASE_CURRENCY) {
+        if (!(invoice.exchangeRate.rate > 0)) {
+            issues.push({ field: 'exchangeRate', message: `Enter the ${BASE_CURRENCY} rate for ${invoice.currency} so the ${BASE_CURRENCY} equivalent can be shown.`, severity: 'warning', isMissingValue: true });
+        } else if (!invoice.exchangeRate.date) {
+            issues.push({ field: 'exchangeRateDate', message: 'Add the date the exchange rate applies to.', severity: 'warning', isMissingValue: true });
+        } else if (invoice.date && invoice.exchangeRate.date > invoice.date) {
+            issues.push({ field: 'exchangeRateDate', message: 'The exchange rate date is after the invoice date.', severity: 'warning' });
+        }
+    }
+
+    invoice.items.forEach((item, index) => {
+        const label = item.description || `Item ${index + 1}`;
+        if (item.quantity < 0) {
+            issues.push({ field: `item-qty-${item.id}`, message: `${label}: quantity cannot be negative.`, severity: 'error' });
+        }
+        if (item.price < 0) {
+            issues.push({ field: `item-price-${item.id}`, message: `${label}: price cannot be negative.`, severity: 'error' });
+        }
+        issues.push(...validateRate(`item-tax-${item.id}`, `${label}: tax rate`, item.taxRate));
+
+        const hsn = item.hsn.trim();
+        if (hsn && !HSN_PATTERN.test(hsn)) {
+            issues.push({ field: `item-hsn-${item.id}`, message: `${label}: HSN/SAC should be 4, 6 or 8 digits.`, severity: 'error' });
+        } else if (!hsn && isTaxInvoice && (item.description || item.price)) {
+            issues.push({ field: `item-hsn-${item.id}`, message: `${label}: a Tax Invoice needs an HSN/SAC code on every line.`, severity: 'error', isMissingValue: true });
+        }
+    });
+
+    return issues;
+};
+
+// First issue per field, errors before warnings, for showing next to the input
+export const getFieldIssues = (issues: ValidationIssue[], includeMissing: boolean): Record<string, ValidationIssue> => {
+    const byField: Record<string, ValidationIssue> = {};
+    issues
+        .filter(issue => includeMissing || !issue.isMissingValue)
+        .forEach(issue => {
+            const current = byField[issue.field];
+            if (!current || (current.severity === 'warning' && issue.severity === 'error')) {
+                byField[issue.field] = issue;
+            }
+        });
+    return byField;
+};
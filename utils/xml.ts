@@ -0,0 +1,20 @@
+// Builds XML as text for the structured invoice exports. Empty values and empty groups are left out, since the
+// invoice standards treat a missing element and an empty one differently.
+
+export const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderAttributes = (attributes: Record<string, string>): string =>
+    Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join('');
+
+// A leaf element; left out when there is no value
+export const field = (name: string, value: string | number | undefined, attributes: Record<string, string> = {}): string => {
+    const text = value === undefined ? '' : String(value);
+    return text ? `<${name}${renderAttributes(attributes)}>${escapeXml(text)}</${name}>` : '';
+};
+
+// An element holding others; left out when all of them are
+export const group = (name: string, children: string[], attributes: Record<string, string> = {}): string => {
+    const content = children.filter(Boolean).join('\n');
+    return content ? `<${name}${renderAttributes(attributes)}>\n${content}\n</${name}>` : '';
+};